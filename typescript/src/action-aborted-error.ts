@@ -0,0 +1,12 @@
+/**
+ * Thrown when waiting for a long-running action was cancelled with an abort signal.
+ */
+export class ActionAbortedError<T> extends Error {
+    readonly lastStatus: T;
+
+    constructor(message: string, lastStatus: T) {
+        super(message);
+        this.name = 'ActionAbortedError';
+        this.lastStatus = lastStatus;
+    }
+}
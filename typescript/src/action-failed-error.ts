@@ -0,0 +1,12 @@
+/**
+ * Thrown when a long-running action, such as a report or a printer action, finished unsuccessfully.
+ */
+export class ActionFailedError<T> extends Error {
+    readonly lastStatus: T;
+
+    constructor(message: string, lastStatus: T) {
+        super(message);
+        this.name = 'ActionFailedError';
+        this.lastStatus = lastStatus;
+    }
+}
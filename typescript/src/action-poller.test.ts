@@ -0,0 +1,94 @@
+import { ActionAbortedError } from './action-aborted-error';
+import { ActionFailedError } from './action-failed-error';
+import { ActionTimeoutError } from './action-timeout-error';
+import { ActionPoller, ActionPollerOptions } from './action-poller';
+
+interface Status {
+    state: 'running' | 'done' | 'error';
+    step: number;
+}
+
+const BACKOFF = { initialDelayMS: 1, maxDelayMS: 1, factor: 1 };
+
+describe('ActionPoller', () => {
+    /**
+     * Creates a poller of an action that is finished with the given state after the given number of polls.
+     */
+    function createPoller(pollCount: number, state: Status['state'], options: Partial<ActionPollerOptions<Status>> = {}) {
+        let step = 0;
+        return new ActionPoller<Status>({
+            description: 'test action',
+            poll: async () => {
+                step += 1;
+                return { state: step >= pollCount ? state : 'running', step };
+            },
+            isFinished: (status) => status.state !== 'running',
+            isSuccessful: (status) => status.state === 'done',
+            backoff: BACKOFF,
+            ...options,
+        });
+    }
+
+    it('polls until the action is finished, reporting every status', async () => {
+        const onProgress = jest.fn();
+        expect(await createPoller(3, 'done', { onProgress }).run({ state: 'running', step: 0 })).toEqual({ state: 'done', step: 3 });
+        expect(onProgress.mock.calls.map(([status, attempt]) => [status.step, attempt])).toEqual([[1, 1], [2, 2], [3, 3]]);
+    });
+
+    it('does not poll an action that was finished when it was started', async () => {
+        const poll = jest.fn();
+        expect(await createPoller(1, 'done', { poll }).run({ state: 'done', step: 0 })).toEqual({ state: 'done', step: 0 });
+        expect(poll).not.toHaveBeenCalled();
+    });
+
+    it('fails with the last status when the action did not succeed', async () => {
+        const error = await createPoller(2, 'error').run({ state: 'running', step: 0 }).catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionFailedError);
+        expect(error.message).toBe('The test action did not succeed');
+        expect(error.lastStatus).toEqual({ state: 'error', step: 2 });
+    });
+
+    it('fails with the last status when the action takes too long', async () => {
+        const error = await createPoller(Infinity, 'done', { timeoutMS: 20 }).run({ state: 'running', step: 0 }).catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionTimeoutError);
+        expect(error.message).toBe('Timed out after 20ms waiting for test action');
+        expect(error.lastStatus.state).toBe('running');
+        expect(error.lastStatus.step).toBeGreaterThan(0);
+    });
+
+    it('aborts a status request that is still running at the deadline', async () => {
+        const poll = jest.fn((signal: AbortSignal) => new Promise<Status>((resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('The request was aborted')));
+        }));
+        const error = await createPoller(1, 'done', { poll, timeoutMS: 20 }).run({ state: 'running', step: 0 }).catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionTimeoutError);
+        expect(error.lastStatus).toEqual({ state: 'running', step: 0 });
+        expect(poll).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails with the last status when the waiting is aborted', async () => {
+        const abort = new AbortController();
+        const onProgress = (status: Status) => status.step === 2 && abort.abort();
+        const error = await createPoller(Infinity, 'done', { signal: abort.signal, onProgress }).run({ state: 'running', step: 0 })
+            .catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionAbortedError);
+        expect(error.message).toBe('Aborted waiting for test action');
+        expect(error.lastStatus).toEqual({ state: 'running', step: 2 });
+    });
+
+    it('aborts a status request that is still running when the waiting is aborted', async () => {
+        const abort = new AbortController();
+        const poll = (signal: AbortSignal) => new Promise<Status>((resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('The request was aborted')));
+            abort.abort();
+        });
+        const error = await createPoller(1, 'done', { poll, signal: abort.signal }).run({ state: 'running', step: 0 }).catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionAbortedError);
+        expect(error.lastStatus).toEqual({ state: 'running', step: 0 });
+    });
+
+    it('passes on errors of the status requests', async () => {
+        const poll = async (): Promise<Status> => { throw new Error('Bad gateway'); };
+        await expect(createPoller(1, 'done', { poll }).run({ state: 'running', step: 0 })).rejects.toThrow('Bad gateway');
+    });
+});
@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import { ActionAbortedError } from './action-aborted-error';
+import { ActionFailedError } from './action-failed-error';
+import { ActionTimeoutError } from './action-timeout-error';
+import { sleep } from './sleep';
+
+/**
+ * Determines how long to wait between status requests: the delay starts at `initialDelayMS` and is multiplied
+ * by `factor` after every request, up to `maxDelayMS`.
+ */
+export interface BackoffPolicy {
+    initialDelayMS: number;
+    maxDelayMS: number;
+    factor: number;
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+    initialDelayMS: 1000,
+    maxDelayMS: 10000,
+    factor: 1.5,
+};
+
+/**
+ * The options callers of a long-running action may give to control the waiting.
+ */
+export interface PollOptions<T> {
+    signal?: AbortSignal;
+    // the maximum total time to wait for the action to finish
+    timeoutMS?: number;
+    backoff?: BackoffPolicy;
+    // called with the status after every status request
+    onProgress?: (status: T, attempt: number) => void;
+}
+
+/**
+ * Describes how to poll a specific kind of action.
+ */
+export interface ActionPollerOptions<T> extends PollOptions<T> {
+    // a short description used in error messages, e.g. 'report generation'
+    description: string;
+    // requests the status, the signal aborts the request when the deadline passes or the waiting is aborted
+    poll: (signal: AbortSignal) => Promise<T>;
+    isFinished: (status: T) => boolean;
+    isSuccessful: (status: T) => boolean;
+}
+
+/**
+ * Polls the status of a long-running action until it reaches a terminal state, emitting a 'progress' event with
+ * every new status. Rejects with an ActionFailedError, ActionTimeoutError or ActionAbortedError otherwise.
+ */
+export class ActionPoller<T> extends EventEmitter {
+    private readonly _options: ActionPollerOptions<T>;
+
+    constructor(options: ActionPollerOptions<T>) {
+        super();
+        this._options = options;
+        if (options.onProgress) {
+            this.on('progress', options.onProgress);
+        }
+    }
+
+    on(event: 'progress', listener: (status: T, attempt: number) => void): this {
+        return super.on(event, listener);
+    }
+
+    /**
+     * Waits for the action with the given initial status, as returned when the action was started.
+     */
+    async run(initialStatus: T): Promise<T> {
+        const {
+            description, poll, isFinished, isSuccessful, signal, timeoutMS, backoff = DEFAULT_BACKOFF_POLICY,
+        } = this._options;
+        const deadlineMS = timeoutMS === undefined ? Infinity : Date.now() + timeoutMS;
+
+        let status = initialStatus;
+        let delayMS = backoff.initialDelayMS;
+        let attempt = 0;
+        while (!isFinished(status)) {
+            const remainingMS = deadlineMS - Date.now();
+            if (remainingMS <= 0) {
+                throw new ActionTimeoutError(`Timed out after ${timeoutMS}ms waiting for ${description}`, status);
+            }
+            await sleep(Math.min(delayMS, remainingMS), signal);
+            if (signal && signal.aborted) {
+                throw new ActionAbortedError(`Aborted waiting for ${description}`, status);
+            }
+
+            status = await this._poll(status, deadlineMS);
+            attempt += 1;
+            this.emit('progress', status, attempt);
+            delayMS = Math.min(delayMS * backoff.factor, backoff.maxDelayMS);
+        }
+        if (!isSuccessful(status)) {
+            throw new ActionFailedError(`The ${description} did not succeed`, status);
+        }
+        return status;
+    }
+
+    /**
+     * Requests the status, aborting the request when the deadline passes or the signal is aborted while it runs.
+     */
+    private async _poll(lastStatus: T, deadlineMS: number): Promise<T> {
+        const {
+            description, poll, signal, timeoutMS,
+        } = this._options;
+        const abort = new AbortController();
+        const onAbort = () => abort.abort();
+        signal && signal.addEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+        const timeout = deadlineMS === Infinity ? null : setTimeout(onAbort, Math.max(deadlineMS - Date.now(), 0));
+        try {
+            return await poll(abort.signal);
+        } catch (ex) {
+            if (signal && signal.aborted) {
+                throw new ActionAbortedError(`Aborted waiting for ${description}`, lastStatus);
+            }
+            if (abort.signal.aborted) {
+                throw new ActionTimeoutError(`Timed out after ${timeoutMS}ms waiting for ${description}`, lastStatus);
+            }
+            throw ex;
+        } finally {
+            clearTimeout(timeout);
+            signal && signal.removeEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+        }
+    }
+}
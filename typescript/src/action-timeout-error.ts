@@ -0,0 +1,12 @@
+/**
+ * Thrown when a long-running action did not finish before its deadline.
+ */
+export class ActionTimeoutError<T> extends Error {
+    readonly lastStatus: T;
+
+    constructor(message: string, lastStatus: T) {
+        super(message);
+        this.name = 'ActionTimeoutError';
+        this.lastStatus = lastStatus;
+    }
+}
@@ -0,0 +1,60 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import type { AlertSink } from './alert';
+import { AlertManager, QuietHours } from './alert-manager';
+import type { AlertRulesConfig } from './alert-rules';
+import { CommandAlertSink } from './command-alert-sink';
+import type { Logger } from './logger';
+import { SlackAlertSink } from './slack-alert-sink';
+import { SmtpAlertSink, SmtpAlertSinkOptions } from './smtp-alert-sink';
+import { WebhookAlertSink } from './webhook-alert-sink';
+
+// Every sink accepts a `timeoutMS`, after which the delivery of a notification counts as failed.
+export type AlertSinkConfig =
+    { type: 'webhook', url: string, headers?: {[key: string]: string}, timeoutMS?: number }
+    | { type: 'slack', url: string, timeoutMS?: number }
+    | { type: 'smtp' } & SmtpAlertSinkOptions
+    | { type: 'command', command: string, args?: string[], timeoutMS?: number };
+
+/**
+ * The contents of the alerting configuration file.
+ */
+export interface AlertingConfig {
+    rules: AlertRulesConfig;
+    sinks: AlertSinkConfig[];
+    quietHours?: QuietHours;
+}
+
+/**
+ * Creates the alert sink described by the given configuration.
+ */
+export function createAlertSink(config: AlertSinkConfig): AlertSink {
+    switch (config.type) {
+    case 'webhook':
+        return new WebhookAlertSink(config.url, config.headers, config.timeoutMS);
+    case 'slack':
+        return new SlackAlertSink(config.url, config.timeoutMS);
+    case 'smtp':
+        return new SmtpAlertSink(config);
+    case 'command':
+        return new CommandAlertSink(config.command, config.args, config.timeoutMS);
+    default:
+        throw new Error(`Unknown alert sink type: ${(config as { type: unknown }).type}`);
+    }
+}
+
+/**
+ * Creates an alert manager from the given JSON configuration file, or returns null when it does not exist.
+ */
+export async function loadAlertManager(configFile: string, logger?: Logger): Promise<AlertManager | null> {
+    if (!existsSync(configFile)) {
+        return null;
+    }
+    const config: AlertingConfig = JSON.parse(await readFile(configFile, 'utf-8'));
+    return new AlertManager({
+        rules: config.rules || {},
+        sinks: (config.sinks || []).map(createAlertSink),
+        quietHours: config.quietHours,
+        logger,
+    });
+}
@@ -0,0 +1,89 @@
+import type { AlertNotification, AlertSink } from './alert';
+import { AlertManager } from './alert-manager';
+import { silentLogger } from './logger';
+import type { ClusterStatus } from './monitor-events';
+
+const OFFLINE: ClusterStatus[] = [{ cluster_id: 'cluster-1', is_online: false }];
+
+const ONLINE: ClusterStatus[] = [{ cluster_id: 'cluster-1', is_online: true }];
+
+/**
+ * Creates a local time on the given day of November 2021, as the quiet hours are in local time.
+ */
+function at(day: number, hours: number, minutes = 0): Date {
+    return new Date(2021, 10, day, hours, minutes);
+}
+
+describe('AlertManager', () => {
+    let sent: AlertNotification[];
+    let sink: AlertSink;
+
+    beforeEach(() => {
+        sent = [];
+        sink = { name: 'recording', send: async (notification) => { sent.push(notification); } };
+    });
+
+    function sentStates(): string[] {
+        return sent.map(({ state, alert }) => `${state} ${alert.key}`);
+    }
+
+    it('notifies an alert once while it is active, and when it is resolved', async () => {
+        const manager = new AlertManager({ rules: { clusterOfflineMinutes: 0 }, sinks: [sink] });
+        await manager.observe({ dateTime: at(22, 12, 0), clusters: OFFLINE });
+        await manager.observe({ dateTime: at(22, 12, 1), clusters: OFFLINE });
+        await manager.observe({ dateTime: at(22, 12, 2), clusters: ONLINE });
+        await manager.observe({ dateTime: at(22, 12, 3), clusters: ONLINE });
+        expect(sentStates()).toEqual(['firing cluster_offline/cluster-1', 'resolved cluster_offline/cluster-1']);
+        expect(sent[1]).toMatchObject({ dateTime: at(22, 12, 2).toISOString(), alert: { since: at(22, 12, 0).toISOString() } });
+    });
+
+    it('logs a sink that fails and still notifies the other sinks', async () => {
+        const error = jest.fn();
+        const failing: AlertSink = { name: 'failing', send: async () => { throw new Error('Connection refused'); } };
+        const manager = new AlertManager({
+            rules: { clusterOfflineMinutes: 0 },
+            sinks: [failing, sink],
+            logger: { ...silentLogger, error },
+        });
+        await manager.observe({ dateTime: at(22, 12), clusters: OFFLINE });
+        expect(sentStates()).toEqual(['firing cluster_offline/cluster-1']);
+        expect(error).toHaveBeenCalledWith('Sending the alert cluster_offline/cluster-1 to failing failed', { error: expect.any(Error) });
+    });
+
+    describe('quiet hours', () => {
+        it('holds back the notifications until the quiet hours are over, across midnight', async () => {
+            const manager = new AlertManager({ rules: { clusterOfflineMinutes: 0 }, sinks: [sink], quietHours: { start: '22:00', end: '07:00' } });
+            expect(await manager.observe({ dateTime: at(22, 23, 30), clusters: OFFLINE })).toEqual([]);
+            expect(await manager.observe({ dateTime: at(23, 6, 59), clusters: OFFLINE })).toEqual([]);
+            await manager.observe({ dateTime: at(23, 7, 0), clusters: OFFLINE });
+            expect(sentStates()).toEqual(['firing cluster_offline/cluster-1']);
+        });
+
+        it('holds back the notifications during quiet hours within a day', async () => {
+            const manager = new AlertManager({ rules: { clusterOfflineMinutes: 0 }, sinks: [sink], quietHours: { start: '12:00', end: '13:30' } });
+            await manager.observe({ dateTime: at(22, 11, 59), clusters: OFFLINE });
+            await manager.observe({ dateTime: at(22, 12, 0), clusters: ONLINE });
+            await manager.observe({ dateTime: at(22, 13, 29), clusters: ONLINE });
+            expect(sentStates()).toEqual(['firing cluster_offline/cluster-1']);
+            await manager.observe({ dateTime: at(22, 13, 30), clusters: ONLINE });
+            expect(sentStates()).toEqual(['firing cluster_offline/cluster-1', 'resolved cluster_offline/cluster-1']);
+        });
+
+        it('does not notify a problem that started and ended during quiet hours', async () => {
+            const manager = new AlertManager({ rules: { clusterOfflineMinutes: 0 }, sinks: [sink], quietHours: { start: '22:00', end: '07:00' } });
+            await manager.observe({ dateTime: at(22, 23, 0), clusters: OFFLINE });
+            await manager.observe({ dateTime: at(23, 1, 0), clusters: ONLINE });
+            await manager.observe({ dateTime: at(23, 7, 0), clusters: ONLINE });
+            expect(sent).toEqual([]);
+        });
+
+        it('does not notify a problem that was resolved and came back during quiet hours', async () => {
+            const manager = new AlertManager({ rules: { clusterOfflineMinutes: 0 }, sinks: [sink], quietHours: { start: '22:00', end: '07:00' } });
+            await manager.observe({ dateTime: at(22, 21, 0), clusters: OFFLINE });
+            await manager.observe({ dateTime: at(22, 23, 0), clusters: ONLINE });
+            await manager.observe({ dateTime: at(23, 1, 0), clusters: OFFLINE });
+            await manager.observe({ dateTime: at(23, 7, 0), clusters: OFFLINE });
+            expect(sentStates()).toEqual(['firing cluster_offline/cluster-1']);
+        });
+    });
+});
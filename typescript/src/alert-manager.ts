@@ -0,0 +1,112 @@
+import type { Alert, AlertNotification, AlertSink } from './alert';
+import { AlertRules, AlertRulesConfig, MonitorObservation } from './alert-rules';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * A daily period in local time, e.g. from '22:00' to '07:00', during which no notifications are sent.
+ */
+export interface QuietHours {
+    start: string;
+    end: string;
+}
+
+/**
+ * The options that may be given to the alert manager.
+ */
+export interface AlertManagerOptions {
+    rules: AlertRulesConfig;
+    sinks: AlertSink[];
+    quietHours?: QuietHours;
+    // receives the failures of the sinks
+    logger?: Logger;
+}
+
+/**
+ * Sends the alerts of the alert rules to the sinks. Each alert is only notified once while it is active, and a
+ * resolved notification is sent when it is gone. During quiet hours notifications are held back, and sent
+ * afterwards if they still apply.
+ */
+export class AlertManager {
+    private readonly _rules: AlertRules;
+
+    private readonly _sinks: AlertSink[];
+
+    private readonly _quietHours: QuietHours | undefined;
+
+    private readonly _logger: Logger;
+
+    // the active alerts for which a firing notification was sent, by key
+    private readonly _notified = new Map<string, Alert>();
+
+    // the resolved notifications that were held back during quiet hours, by key
+    private readonly _pendingResolved = new Map<string, AlertNotification>();
+
+    constructor({
+        rules, sinks, quietHours, logger = silentLogger,
+    }: AlertManagerOptions) {
+        this._rules = new AlertRules(rules);
+        this._sinks = sinks;
+        this._quietHours = quietHours;
+        this._logger = logger;
+    }
+
+    /**
+     * Evaluates the alert rules for the given observation and sends the resulting notifications.
+     */
+    async observe(observation: MonitorObservation): Promise<AlertNotification[]> {
+        const dateTime = observation.dateTime.toISOString();
+        const active = new Map(this._rules.evaluate(observation).map((alert) => [alert.key, alert]));
+
+        const resolved: AlertNotification[] = [...this._notified.values()]
+            .filter((alert) => !active.has(alert.key))
+            .map((alert) => ({ state: 'resolved', dateTime, alert }));
+        resolved.forEach(({ alert }) => {
+            this._notified.delete(alert.key);
+        });
+        const firing: AlertNotification[] = [...active.values()]
+            .filter((alert) => !this._notified.has(alert.key))
+            .map((alert) => ({ state: 'firing', dateTime, alert }));
+
+        if (this._isQuiet(observation.dateTime)) {
+            resolved.forEach((notification) => this._pendingResolved.set(notification.alert.key, notification));
+            return [];
+        }
+
+        // a problem that came back after being resolved during quiet hours needs no notification at all
+        const notifications = [
+            ...[...this._pendingResolved.values()].filter(({ alert }) => !active.has(alert.key)),
+            ...resolved,
+            ...firing.filter(({ alert }) => !this._pendingResolved.has(alert.key)),
+        ];
+        this._pendingResolved.clear();
+        active.forEach((alert) => this._notified.set(alert.key, alert));
+
+        await Promise.all(notifications.map((notification) => this._send(notification)));
+        return notifications;
+    }
+
+    private async _send(notification: AlertNotification): Promise<void> {
+        await Promise.all(this._sinks.map(async (sink) => {
+            try {
+                await sink.send(notification);
+            } catch (ex) {
+                this._logger.error(`Sending the alert ${notification.alert.key} to ${sink.name} failed`, { error: ex });
+            }
+        }));
+    }
+
+    private _isQuiet(dateTime: Date): boolean {
+        if (!this._quietHours) {
+            return false;
+        }
+        const toMinutes = (time: string) => {
+            const [hours, minutes] = time.split(':').map(Number);
+            return hours * 60 + (minutes || 0);
+        };
+        const start = toMinutes(this._quietHours.start);
+        const end = toMinutes(this._quietHours.end);
+        const now = dateTime.getHours() * 60 + dateTime.getMinutes();
+        // the quiet hours may span midnight
+        return start <= end ? now >= start && now < end : now >= start || now < end;
+    }
+}
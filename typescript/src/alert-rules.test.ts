@@ -0,0 +1,67 @@
+import { AlertRules } from './alert-rules';
+import type { ClusterStatus } from './monitor-events';
+
+function at(minutes: number): Date {
+    return new Date(Date.UTC(2021, 10, 22, 12, minutes));
+}
+
+function cluster(clusterId: string, online: boolean, printerStatuses: string[] = []): ClusterStatus {
+    return {
+        cluster_id: clusterId,
+        is_online: online,
+        printers: online ? printerStatuses.map((status, i) => ({ uuid: `printer-${i + 1}`, friendly_name: null, status })) : undefined,
+    };
+}
+
+describe('AlertRules', () => {
+    it('alerts when a cluster has been offline long enough', () => {
+        const rules = new AlertRules({ clusterOfflineMinutes: 5 });
+        expect(rules.evaluate({ dateTime: at(0), clusters: [cluster('cluster-1', false)] })).toEqual([]);
+        expect(rules.evaluate({ dateTime: at(4), clusters: [cluster('cluster-1', false)] })).toEqual([]);
+        expect(rules.evaluate({ dateTime: at(5), clusters: [cluster('cluster-1', false)] })).toEqual([{
+            key: 'cluster_offline/cluster-1',
+            rule: 'cluster_offline',
+            severity: 'critical',
+            message: 'Cluster cluster-1 has been offline since 2021-11-22T12:00:00.000Z',
+            clusterId: 'cluster-1',
+            since: '2021-11-22T12:00:00.000Z',
+        }]);
+        expect(rules.evaluate({ dateTime: at(6), clusters: [cluster('cluster-1', true)] })).toEqual([]);
+    });
+
+    it('counts a cluster that is missing from the list as offline', () => {
+        const rules = new AlertRules({ clusterOfflineMinutes: 5 });
+        rules.evaluate({ dateTime: at(0), clusters: [cluster('cluster-1', true), cluster('cluster-2', true)] });
+        rules.evaluate({ dateTime: at(1), clusters: [cluster('cluster-2', true)] });
+        expect(rules.evaluate({ dateTime: at(6), clusters: [cluster('cluster-2', true)] }).map((alert) => alert.key))
+            .toEqual(['cluster_offline/cluster-1']);
+        expect(rules.evaluate({ dateTime: at(7), clusters: [cluster('cluster-1', true), cluster('cluster-2', true)] })).toEqual([]);
+    });
+
+    it('alerts when fetching the clusters keeps failing, and keeps the other alerts meanwhile', () => {
+        const rules = new AlertRules({ clusterOfflineMinutes: 0, consecutiveFetchErrors: 2 });
+        rules.evaluate({ dateTime: at(0), clusters: [cluster('cluster-1', false)] });
+        expect(rules.evaluate({ dateTime: at(1), clusters: null }).map((alert) => alert.key)).toEqual(['cluster_offline/cluster-1']);
+        expect(rules.evaluate({ dateTime: at(2), clusters: null })).toEqual([
+            expect.objectContaining({ key: 'fetch_errors', message: 'Fetching the clusters failed 2 times in a row', since: at(1).toISOString() }),
+            expect.objectContaining({ key: 'cluster_offline/cluster-1' }),
+        ]);
+        expect(rules.evaluate({ dateTime: at(3), clusters: [cluster('cluster-1', true)] })).toEqual([]);
+    });
+
+    it('alerts when a printer has been in an error state long enough, also while its cluster is offline', () => {
+        const rules = new AlertRules({ printerErrorMinutes: 10, printerErrorStates: ['error', 'maintenance'] });
+        rules.evaluate({ dateTime: at(0), clusters: [cluster('cluster-1', true, ['idle', 'maintenance'])] });
+        rules.evaluate({ dateTime: at(5), clusters: [cluster('cluster-1', false)] });
+        expect(rules.evaluate({ dateTime: at(10), clusters: [cluster('cluster-1', false)] })).toEqual([
+            expect.objectContaining({ key: 'printer_error/cluster-1/printer-2', printerId: 'printer-2', since: at(0).toISOString() }),
+        ]);
+        expect(rules.evaluate({ dateTime: at(11), clusters: [cluster('cluster-1', true, ['idle', 'idle'])] })).toEqual([]);
+    });
+
+    it('does not check the rules without a threshold', () => {
+        const rules = new AlertRules({});
+        rules.evaluate({ dateTime: at(0), clusters: [cluster('cluster-1', false)] });
+        expect(rules.evaluate({ dateTime: at(60), clusters: null })).toEqual([]);
+    });
+});
@@ -0,0 +1,134 @@
+import type { Alert } from './alert';
+import type { ClusterStatus } from './monitor-events';
+
+/**
+ * The thresholds of the alert rules. A rule is disabled when its threshold is not set.
+ */
+export interface AlertRulesConfig {
+    // alert when a cluster has been offline for at least this many minutes
+    clusterOfflineMinutes?: number;
+    // alert when fetching the clusters failed this many times in a row
+    consecutiveFetchErrors?: number;
+    // alert when a printer has been in an error state for at least this many minutes
+    printerErrorMinutes?: number;
+    // the printer states that count as error, by default only 'error'
+    printerErrorStates?: string[];
+}
+
+/**
+ * The result of a single poll of the monitor: the cluster status, or null when fetching it failed.
+ */
+export interface MonitorObservation {
+    dateTime: Date;
+    clusters: ClusterStatus[] | null;
+}
+
+/**
+ * Evaluates the alert rules over consecutive observations, keeping track of how long each problem has lasted.
+ */
+export class AlertRules {
+    private readonly _config: AlertRulesConfig;
+
+    private readonly _offlineSince = new Map<string, Date>();
+
+    // the clusters that were listed before, which count as offline when they are missing from the list
+    private readonly _knownClusters = new Set<string>();
+
+    private readonly _printerErrorSince = new Map<string, Date>();
+
+    private _fetchErrorsSince: Date = null;
+
+    private _consecutiveFetchErrors = 0;
+
+    constructor(config: AlertRulesConfig) {
+        this._config = config;
+    }
+
+    /**
+     * Updates the state with the given observation and returns the alerts that are active now. A cluster that was
+     * listed before but is missing from the observation counts as offline until it is listed again.
+     */
+    evaluate({ dateTime, clusters }: MonitorObservation): Alert[] {
+        if (!clusters) {
+            this._consecutiveFetchErrors += 1;
+            this._fetchErrorsSince = this._fetchErrorsSince || dateTime;
+            // when the clusters are unknown, the other problems are assumed to continue
+            return [...this._fetchErrorAlerts(), ...this._offlineAlerts(dateTime), ...this._printerErrorAlerts(dateTime)];
+        }
+
+        this._consecutiveFetchErrors = 0;
+        this._fetchErrorsSince = null;
+        const missingClusters = [...this._knownClusters].filter((clusterId) => !clusters.some((c) => c.cluster_id === clusterId));
+        clusters.forEach((c) => this._knownClusters.add(c.cluster_id));
+        this._updateSince(this._offlineSince, [...clusters.filter((c) => !c.is_online).map((c) => c.cluster_id), ...missingClusters], dateTime);
+        const errorStates = this._config.printerErrorStates || ['error'];
+        const printersInError = clusters
+            .filter((cluster) => cluster.is_online)
+            .flatMap((cluster) => (cluster.printers || [])
+                .filter((printer) => errorStates.includes(printer.status))
+                .map((printer) => `${cluster.cluster_id}/${printer.uuid}`));
+        // printers of offline clusters are unknown, so keep their state as it was
+        const unknownPrinters = [...this._printerErrorSince.keys()]
+            .filter((key) => !clusters.some((cluster) => cluster.is_online && cluster.printers && key.startsWith(`${cluster.cluster_id}/`)));
+        this._updateSince(this._printerErrorSince, [...printersInError, ...unknownPrinters], dateTime);
+
+        return [...this._offlineAlerts(dateTime), ...this._printerErrorAlerts(dateTime)];
+    }
+
+    private _updateSince(since: Map<string, Date>, activeKeys: string[], dateTime: Date): void {
+        [...since.keys()].filter((key) => !activeKeys.includes(key)).forEach((key) => since.delete(key));
+        activeKeys.filter((key) => !since.has(key)).forEach((key) => since.set(key, dateTime));
+    }
+
+    private _fetchErrorAlerts(): Alert[] {
+        const threshold = this._config.consecutiveFetchErrors;
+        if (!threshold || this._consecutiveFetchErrors < threshold) {
+            return [];
+        }
+        return [{
+            key: 'fetch_errors',
+            rule: 'fetch_errors',
+            severity: 'warning',
+            message: `Fetching the clusters failed ${this._consecutiveFetchErrors} times in a row`,
+            since: this._fetchErrorsSince.toISOString(),
+        }];
+    }
+
+    private _offlineAlerts(dateTime: Date): Alert[] {
+        const minutes = this._config.clusterOfflineMinutes;
+        if (minutes === undefined) {
+            return [];
+        }
+        return [...this._offlineSince.entries()]
+            .filter(([, since]) => dateTime.getTime() - since.getTime() >= minutes * 60000)
+            .map(([clusterId, since]) => ({
+                key: `cluster_offline/${clusterId}`,
+                rule: 'cluster_offline',
+                severity: 'critical',
+                message: `Cluster ${clusterId} has been offline since ${since.toISOString()}`,
+                clusterId,
+                since: since.toISOString(),
+            }));
+    }
+
+    private _printerErrorAlerts(dateTime: Date): Alert[] {
+        const minutes = this._config.printerErrorMinutes;
+        if (minutes === undefined) {
+            return [];
+        }
+        return [...this._printerErrorSince.entries()]
+            .filter(([, since]) => dateTime.getTime() - since.getTime() >= minutes * 60000)
+            .map(([key, since]) => {
+                const [clusterId, printerId] = key.split('/');
+                return {
+                    key: `printer_error/${key}`,
+                    rule: 'printer_error',
+                    severity: 'warning',
+                    message: `Printer ${printerId} of cluster ${clusterId} has been in an error state since ${since.toISOString()}`,
+                    clusterId,
+                    printerId,
+                    since: since.toISOString(),
+                };
+            });
+    }
+}
@@ -0,0 +1,40 @@
+// How long a sink may take to deliver a notification by default, so a sink that hangs does not stop the monitor.
+export const DEFAULT_SINK_TIMEOUT_MS = 30000;
+
+/**
+ * A problem detected by one of the alert rules. Alerts with the same key describe the same problem.
+ */
+export interface Alert {
+    key: string;
+    rule: 'cluster_offline' | 'fetch_errors' | 'printer_error';
+    severity: 'warning' | 'critical';
+    message: string;
+    clusterId?: string;
+    printerId?: string;
+    // when the problem started
+    since: string;
+}
+
+/**
+ * Sent to the alert sinks when an alert starts (firing) or when the problem is gone (resolved).
+ */
+export interface AlertNotification {
+    state: 'firing' | 'resolved';
+    dateTime: string;
+    alert: Alert;
+}
+
+/**
+ * A destination for alert notifications, such as a webhook or an email address.
+ */
+export interface AlertSink {
+    readonly name: string;
+    send(notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * Formats a notification as a single line of text, e.g. for chat messages and email subjects.
+ */
+export function formatNotification({ state, alert }: AlertNotification): string {
+    return `[${state === 'firing' ? alert.severity.toUpperCase() : 'RESOLVED'}] ${alert.message}`;
+}
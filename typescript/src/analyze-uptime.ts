@@ -0,0 +1,76 @@
+import { writeFile } from 'fs/promises';
+import {
+    analyzeUptime, compactSnapshots, DEFAULT_RETENTION_DAYS, outagesToCsv, uptimeToCsv,
+} from './cluster-history';
+import { EXIT_CODES } from './cli-arguments';
+import { CliError } from './cli-error';
+import { prettyJSON, print } from './print';
+
+/**
+ * Gets the value of a `--name=value` argument, or undefined if it is not given.
+ */
+function getArgument(args: string[], name: string): string | undefined {
+    const argument = args.find((arg) => arg.startsWith(`--${name}=`));
+    return argument && argument.slice(name.length + 3);
+}
+
+/**
+ * Gets the date of a `--name=date` argument, or undefined if it is not given.
+ */
+function getDateArgument(args: string[], name: string): Date | undefined {
+    const value = getArgument(args, name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new CliError(`--${name} must be a date, e.g. 2021-11-01, instead of ${value}`, EXIT_CODES.usage);
+    }
+    return date;
+}
+
+/**
+ * Analyzes the uptime of the clusters from the monitor logs, e.g.
+ * `node dist/analyze-uptime.js --from=2021-11-01 --to=2021-12-01 --format=csv --output=uptime.csv`.
+ * The format is `json` (default), `csv` for one line per cluster or `outages` for one line per outage.
+ * With `--compact`, the snapshots older than `--retention-days` are first compacted into daily summaries.
+ */
+async function main(args: string[]): Promise<void> {
+    // the arguments are checked before compacting, which cannot be undone
+    const from = getDateArgument(args, 'from');
+    const to = getDateArgument(args, 'to');
+    if (from && to && from > to) {
+        throw new CliError('--from must be before --to', EXIT_CODES.usage);
+    }
+    if (args.includes('--compact')) {
+        const retentionDays = Number(getArgument(args, 'retention-days') || DEFAULT_RETENTION_DAYS);
+        const { days, removedSnapshotCount } = await compactSnapshots({ retentionDays });
+        print(`Compacted ${removedSnapshotCount} snapshots into ${days.length} daily summaries\n`);
+    }
+
+    const report = await analyzeUptime({ from, to });
+    const format = getArgument(args, 'format') || 'json';
+    const formatters: {[format: string]: () => string} = {
+        json: () => prettyJSON(report),
+        csv: () => uptimeToCsv(report),
+        outages: () => outagesToCsv(report),
+    };
+    if (!formatters[format]) {
+        throw new CliError(`Unknown format ${format}, use one of ${Object.keys(formatters).join(', ')}`, EXIT_CODES.usage);
+    }
+
+    const output = getArgument(args, 'output');
+    if (output) {
+        await writeFile(output, formatters[format]());
+        print(`Written the uptime of ${report.clusters.length} clusters to ${output}`);
+    } else {
+        print(formatters[format]());
+    }
+}
+
+main(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error: unknown) => {
+        console.error(error instanceof CliError ? error.message : error); // eslint-disable-line no-console
+        process.exit(error instanceof CliError ? error.exitCode : EXIT_CODES.error);
+    });
@@ -0,0 +1,60 @@
+/**
+ * A single error object as returned by the Digital Factory API in the `errors` list of a failed response.
+ */
+export interface ApiErrorDetail {
+    id?: string;
+    code?: string;
+    title?: string;
+    detail?: string;
+    http_status?: string;
+    meta?: any;
+}
+
+/**
+ * Thrown when the Digital Factory API responds with a non-2xx status code.
+ */
+export class DigitalFactoryApiError extends Error {
+    readonly status: number;
+
+    readonly method: string;
+
+    readonly url: string;
+
+    readonly errors: ApiErrorDetail[];
+
+    readonly requestId: string | null;
+
+    readonly body: string;
+
+    constructor(method: string, url: string, status: number, body: string, requestId: string | null) {
+        const errors = parseErrors(body);
+        const description = errors.map((error) => error.title || error.detail || error.code).filter(Boolean).join(', ');
+        super(`${method} ${url} failed with status ${status}${description ? `: ${description}` : ''}`);
+        this.name = 'DigitalFactoryApiError';
+        this.status = status;
+        this.method = method;
+        this.url = url;
+        this.errors = errors;
+        this.requestId = requestId;
+        this.body = body;
+    }
+
+    /**
+     * The API error codes, e.g. `PRINTER_OFFLINE`, that can be used to handle specific errors.
+     */
+    get codes(): string[] {
+        return this.errors.map((error) => error.code).filter(Boolean);
+    }
+}
+
+/**
+ * Gets the error objects from a response body, which may not even be JSON (e.g. an HTML page from a proxy).
+ */
+function parseErrors(body: string): ApiErrorDetail[] {
+    try {
+        const parsed = JSON.parse(body);
+        return Array.isArray(parsed.errors) ? parsed.errors : [];
+    } catch (ex) {
+        return [];
+    }
+}
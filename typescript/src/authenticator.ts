@@ -0,0 +1,62 @@
+import type { Fetch } from './client-options';
+import type { TokenResponse } from './digital-factory';
+
+/**
+ * The OAuth client settings an authenticator needs to obtain tokens.
+ */
+export interface OAuthClientConfig {
+    oauthServerUrl: string;
+    clientId: string;
+    scopes: string;
+    fetch: Fetch;
+}
+
+/**
+ * A strategy to interactively obtain a new token pair. Refreshing the tokens afterwards is the same for all of them.
+ */
+export interface Authenticator {
+    authenticate(config: OAuthClientConfig): Promise<TokenResponse>;
+}
+
+/**
+ * The error body the OAuth server responds with, see RFC 6749 section 5.2.
+ */
+export interface OAuthErrorResponse {
+    error: string;
+    error_description?: string;
+}
+
+/**
+ * Thrown when the OAuth server rejects a token request.
+ */
+export class OAuthError extends Error {
+    readonly error: string;
+
+    readonly status: number;
+
+    constructor(status: number, body: OAuthErrorResponse) {
+        super(body.error_description ? `${body.error}: ${body.error_description}` : body.error);
+        this.name = 'OAuthError';
+        this.error = body.error;
+        this.status = status;
+    }
+}
+
+/**
+ * Posts a token request to the token endpoint of the OAuth server, throwing an OAuthError when it is rejected.
+ */
+export async function requestToken(config: OAuthClientConfig, params: {[key: string]: string}): Promise<TokenResponse> {
+    const response = await config.fetch(`${config.oauthServerUrl}/token`, {
+        method: 'POST',
+        body: new URLSearchParams({
+            client_id: config.clientId,
+            scope: config.scopes,
+            ...params,
+        }),
+    });
+    const body = await response.json();
+    if (!response.ok) {
+        throw new OAuthError(response.status, body.error ? body : { error: `http_${response.status}` });
+    }
+    return body;
+}
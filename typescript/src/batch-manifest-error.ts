@@ -0,0 +1,12 @@
+/**
+ * Thrown when a batch manifest is invalid, with all problems found in it.
+ */
+export class BatchManifestError extends Error {
+    readonly problems: string[];
+
+    constructor(message: string, problems: string[]) {
+        super(`${message}:\n${problems.map((problem) => `- ${problem}`).join('\n')}`);
+        this.name = 'BatchManifestError';
+        this.problems = problems;
+    }
+}
@@ -0,0 +1,127 @@
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { BatchManifestError } from './batch-manifest-error';
+import { DISPATCH_STRATEGY_NAMES } from './dispatch-strategies';
+
+/**
+ * A file to print in a batch.
+ */
+export interface BatchManifestJob {
+    // relative to the manifest
+    file: string;
+    // the number of times the file is printed, it is only uploaded once
+    copies?: number;
+    // the job name, by default the name of the file
+    name?: string;
+    // overrides the cluster of the manifest
+    cluster?: string;
+}
+
+/**
+ * The contents of a batch manifest, in JSON or YAML. Either an existing project ID or the name of a project to
+ * create is required. The cluster is a cluster ID, or 'auto' to let the dispatcher choose one for each copy.
+ */
+export interface BatchManifest {
+    project: { id?: string, name?: string };
+    cluster?: string;
+    // the dispatch strategy for the 'auto' cluster
+    strategy?: string;
+    // the number of files that are uploaded and submitted at the same time
+    concurrency?: number;
+    // added to the project once
+    comments?: string[];
+    jobs: BatchManifestJob[];
+}
+
+export const AUTO_CLUSTER = 'auto';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * Reads a manifest from a `.json`, `.yaml` or `.yml` file and checks its structure. The file paths of the jobs are
+ * resolved relative to the manifest.
+ */
+export async function loadBatchManifest(manifestFile: string): Promise<BatchManifest> {
+    const text = await readFile(manifestFile, 'utf-8');
+    let manifest: unknown;
+    try {
+        manifest = ['.yaml', '.yml'].includes(path.extname(manifestFile).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+    } catch (ex) {
+        throw new BatchManifestError(`The manifest ${manifestFile} cannot be parsed`, [`${ex.message}`]);
+    }
+    const problems = getManifestProblems(manifest);
+    if (problems.length > 0) {
+        throw new BatchManifestError(`The manifest ${manifestFile} is invalid`, problems);
+    }
+    const baseDir = path.dirname(manifestFile);
+    const validManifest = manifest as BatchManifest;
+    return {
+        ...validManifest,
+        jobs: validManifest.jobs.map((job) => ({ ...job, file: path.resolve(baseDir, job.file) })),
+    };
+}
+
+/**
+ * Checks the structure of a parsed manifest and returns the problems, if any.
+ */
+export function getManifestProblems(manifest: unknown): string[] {
+    if (!isObject(manifest)) {
+        return ['The manifest must be an object'];
+    }
+    const problems: string[] = [];
+    const {
+        project, cluster, strategy, concurrency, comments, jobs,
+    } = manifest;
+    if (!isObject(project) || (!project.id === !project.name)) {
+        problems.push('project must have either an id or the name of a project to create');
+    }
+    if (cluster !== undefined && !isNonEmptyString(cluster)) {
+        problems.push(`cluster must be a cluster ID or '${AUTO_CLUSTER}'`);
+    }
+    if (strategy !== undefined && !DISPATCH_STRATEGY_NAMES.includes(strategy as string)) {
+        problems.push(`strategy must be one of ${DISPATCH_STRATEGY_NAMES.join(', ')}`);
+    }
+    if (concurrency !== undefined && !isPositiveInteger(concurrency)) {
+        problems.push('concurrency must be a positive whole number');
+    }
+    if (comments !== undefined && (!Array.isArray(comments) || !comments.every(isNonEmptyString))) {
+        problems.push('comments must be a list of texts');
+    }
+    if (!Array.isArray(jobs) || jobs.length === 0) {
+        problems.push('jobs must be a list with at least one job');
+        return problems;
+    }
+    jobs.forEach((job: unknown, i: number) => {
+        const label = `jobs[${i}]`;
+        if (!isObject(job)) {
+            problems.push(`${label} must be an object with a file`);
+            return;
+        }
+        if (!isNonEmptyString(job.file)) {
+            problems.push(`${label}.file is required`);
+        }
+        if (job.copies !== undefined && !isPositiveInteger(job.copies)) {
+            problems.push(`${label}.copies must be a positive whole number`);
+        }
+        if (job.name !== undefined && !isNonEmptyString(job.name)) {
+            problems.push(`${label}.name must be a text`);
+        }
+        if (job.cluster !== undefined && !isNonEmptyString(job.cluster)) {
+            problems.push(`${label}.cluster must be a cluster ID or '${AUTO_CLUSTER}'`);
+        }
+    });
+    return problems;
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): boolean {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+function isPositiveInteger(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) > 0;
+}
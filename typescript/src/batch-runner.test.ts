@@ -0,0 +1,142 @@
+import {
+    mkdir, mkdtemp, readFile, rename, rm, writeFile,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { loadBatchManifest } from './batch-manifest';
+import { BatchRunner, BatchState, BatchSummary } from './batch-runner';
+import type { RequestInfo } from './client-options';
+import type { DigitalFactoryDemo } from './digital-factory';
+import type { MockDigitalFactoryServer } from './mock-digital-factory-server';
+import { startMockClient } from './test-helpers';
+
+const MANIFEST = `project:
+  name: Batch
+cluster: mock-cluster-1
+jobs:
+  - file: parts/bracket.gcode
+    copies: 2
+  - file: parts/hinge.gcode
+`;
+
+describe('BatchRunner', () => {
+    let server: MockDigitalFactoryServer;
+    let demo: DigitalFactoryDemo;
+    let directory: string;
+    let manifestFile: string;
+    let requests: RequestInfo[];
+
+    beforeEach(async () => {
+        requests = [];
+        ({ server, demo } = await startMockClient({ instrumentation: { onRequest: (request) => requests.push(request) } }));
+
+        directory = await mkdtemp(path.join(tmpdir(), 'batch-runner-'));
+        await mkdir(path.join(directory, 'batch', 'parts'), { recursive: true });
+        await writeFile(path.join(directory, 'batch', 'parts', 'bracket.gcode'), 'G28\n');
+        await writeFile(path.join(directory, 'batch', 'parts', 'hinge.gcode'), 'G28\nG1 X10\n');
+        manifestFile = path.join(directory, 'batch', 'run.yaml');
+        await writeFile(manifestFile, MANIFEST);
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    async function run(file = manifestFile): Promise<BatchSummary> {
+        return new BatchRunner(demo, await loadBatchManifest(file), file).run();
+    }
+
+    async function readState(file = manifestFile): Promise<BatchState> {
+        return JSON.parse(await readFile(`${file}.state.json`, 'utf-8'));
+    }
+
+    it('checks a dry run without uploading anything', async () => {
+        requests = [];
+        const plan = await new BatchRunner(demo, await loadBatchManifest(manifestFile), manifestFile).dryRun();
+        expect(plan.problems).toEqual([]);
+        const batchDirectory = path.dirname(manifestFile);
+        expect(plan.items.map((item) => [path.relative(batchDirectory, item.file), item.copies, item.clusterId])).toEqual([
+            ['parts/bracket.gcode', 2, 'mock-cluster-1'],
+            ['parts/hinge.gcode', 1, 'mock-cluster-1'],
+        ]);
+        expect(server.jobs.size).toBe(0);
+        // the clusters are fetched once for all jobs, the printers only of the online cluster
+        expect(requests.map((request) => new URL(request.url).pathname).filter((pathname) => pathname.startsWith('/connect/v1/clusters'))).toEqual([
+            '/connect/v1/clusters',
+            '/connect/v1/clusters/mock-cluster-1/printers',
+        ]);
+    });
+
+    it('uploads and submits every copy once, also when it is run again', async () => {
+        const summary = await run();
+        expect(summary.failedCount).toBe(0);
+        expect(summary.jobs.map((job) => job.printJobIds.length)).toEqual([2, 1]);
+        expect(server.jobs.size).toBe(2);
+        expect(server.printJobs).toHaveLength(3);
+
+        await run();
+        expect(server.jobs.size).toBe(2);
+        expect(server.printJobs).toHaveLength(3);
+    });
+
+    it('does not upload a file again when the run stopped right after uploading it', async () => {
+        const upload = demo.uploadFileToProject.bind(demo);
+        jest.spyOn(demo, 'uploadFileToProject').mockImplementationOnce(async (...args) => {
+            await upload(...args);
+            throw new Error('The run stopped');
+        });
+        const interrupted = await run();
+        expect(interrupted.failedCount).toBe(1);
+        expect((await readState()).jobs[0].uploadJobId).not.toBeNull();
+
+        const resumed = await run();
+        expect(resumed.failedCount).toBe(0);
+        expect(server.jobs.size).toBe(2);
+        expect(server.printJobs).toHaveLength(3);
+    });
+
+    it('uploads a file again when the run stopped before its upload finished, even if a file with its name exists', async () => {
+        jest.spyOn(demo, 'uploadFileToProject').mockImplementationOnce(async (projectId, file, options) => {
+            await options.onUploadRequested({
+                job_id: 'unfinished-upload', job_name: 'bracket.gcode', content_type: 'text/x-gcode', file_size: 4, status: 'uploading', upload_url: '',
+            });
+            throw new Error('The run stopped');
+        });
+        const { projectId } = await run();
+        expect((await readState()).jobs[0].uploadJobId).toBe('unfinished-upload');
+        const other = await demo.uploadFileToProject(projectId, Buffer.from('G28\n'), { fileName: 'bracket.gcode' });
+
+        const resumed = await run();
+        expect(resumed.failedCount).toBe(0);
+        expect(resumed.jobs[0].jobId).not.toBe(other.job_id);
+        expect(server.jobs.size).toBe(3);
+    });
+
+    it('does not submit a copy again when the run stopped right after submitting it', async () => {
+        const submit = demo.submitPrintJob.bind(demo);
+        jest.spyOn(demo, 'submitPrintJob').mockImplementationOnce(async (...args) => {
+            await submit(...args);
+            throw new Error('The run stopped');
+        });
+        await run();
+
+        const resumed = await run();
+        expect(resumed.failedCount).toBe(0);
+        expect(server.printJobs).toHaveLength(3);
+    });
+
+    it('resumes a batch that was moved to another directory', async () => {
+        jest.spyOn(demo, 'submitPrintJob').mockRejectedValueOnce(new Error('The run stopped'));
+        await run();
+        expect(server.printJobs.length).toBeLessThan(3);
+
+        const movedManifestFile = path.join(directory, 'moved', 'run.yaml');
+        await rename(path.join(directory, 'batch'), path.join(directory, 'moved'));
+        const resumed = await run(movedManifestFile);
+        expect(resumed.failedCount).toBe(0);
+        expect(server.jobs.size).toBe(2);
+        expect(server.printJobs).toHaveLength(3);
+        expect((await readState(movedManifestFile)).jobs.map((job) => job.file)).toEqual(['parts/bracket.gcode', 'parts/hinge.gcode']);
+    });
+});
@@ -0,0 +1,415 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { existsSync } from 'fs';
+import {
+    readFile, rename, stat, writeFile,
+} from 'fs/promises';
+import * as path from 'path';
+import {
+    AUTO_CLUSTER, BatchManifest, BatchManifestJob, DEFAULT_BATCH_CONCURRENCY,
+} from './batch-manifest';
+import { DigitalFactoryApiError } from './api-error';
+import { BatchManifestError } from './batch-manifest-error';
+import type { DigitalFactoryDemo } from './digital-factory';
+import { createDispatchStrategy, leastQueuedStrategy } from './dispatch-strategies';
+import type { ProjectFile } from './models';
+import { getJobRequirements, JobRequirements, PrintDispatcher } from './print-dispatcher';
+import { prettyJSON } from './print';
+import { readUfpMetadata } from './ufp-reader';
+import { getContentType } from './upload';
+
+/**
+ * A copy of a job that is being or has been submitted. A copy that is still 'submitting' when a run is resumed may
+ * have been created without being recorded, which is checked before submitting it again.
+ */
+export interface BatchCopyState {
+    status: 'submitting' | 'submitted';
+    clusterId: string;
+    printJobId: string | null;
+    startedAt: string;
+}
+
+/**
+ * A job of the batch. A job with an upload job ID but no job ID was being uploaded when the previous run stopped, in
+ * which case the project is checked for that file before uploading it again.
+ */
+export interface BatchJobState {
+    // relative to the manifest
+    file: string;
+    name: string;
+    jobId: string | null;
+    // the job the file is being uploaded to, recorded before the upload starts
+    uploadJobId: string | null;
+    // what the printer needs, to choose a cluster for the remaining copies after a resume
+    requirements: JobRequirements | null;
+    copies: (BatchCopyState | null)[];
+    error: string | null;
+}
+
+/**
+ * The progress of a batch, as stored in the state file after every step.
+ */
+export interface BatchState {
+    // the manifest the state belongs to
+    manifestHash: string;
+    projectId: string | null;
+    commentsAdded: number;
+    jobs: BatchJobState[];
+    updatedAt: string;
+}
+
+/**
+ * Where a job of the batch would be printed, as found by the dry run.
+ */
+export interface BatchPlanItem {
+    file: string;
+    name: string;
+    copies: number;
+    // the cluster to print on, for 'auto' the cluster the dispatcher would choose now
+    clusterId: string | null;
+    explanation: string[];
+}
+
+export interface BatchPlan {
+    project: string;
+    items: BatchPlanItem[];
+    // the problems that prevent the batch from running
+    problems: string[];
+}
+
+export interface BatchJobSummary {
+    file: string;
+    name: string;
+    jobId: string | null;
+    printJobIds: string[];
+    clusterIds: string[];
+    error: string | null;
+}
+
+export interface BatchSummary {
+    projectId: string | null;
+    submittedCount: number;
+    failedCount: number;
+    jobs: BatchJobSummary[];
+}
+
+/**
+ * The options that may be given to the batch runner.
+ */
+export interface BatchRunnerOptions {
+    // by default next to the manifest, e.g. `run.yaml.state.json`
+    stateFile?: string;
+    // overrides the concurrency of the manifest
+    concurrency?: number;
+}
+
+/**
+ * Uploads and prints the files of a batch manifest. Every step is recorded in a state file, so running the same
+ * manifest again resumes an interrupted run without uploading or submitting anything twice. Emits 'uploaded' and
+ * 'submitted' events with the job state, and 'failed' events with the job state and the error; a failed job does
+ * not stop the other jobs.
+ */
+export class BatchRunner extends EventEmitter {
+    private readonly _demo: DigitalFactoryDemo;
+
+    private readonly _manifest: BatchManifest;
+
+    private readonly _manifestFile: string;
+
+    private readonly _stateFile: string;
+
+    private readonly _concurrency: number;
+
+    private readonly _dispatcher: PrintDispatcher;
+
+    private _state: BatchState | null = null;
+
+    // the state is written by one job at a time
+    private _saving: Promise<void> = Promise.resolve();
+
+    constructor(demo: DigitalFactoryDemo, manifest: BatchManifest, manifestFile: string, {
+        stateFile = `${manifestFile}.state.json`,
+        concurrency = manifest.concurrency || DEFAULT_BATCH_CONCURRENCY,
+    }: BatchRunnerOptions = {}) {
+        super();
+        this._demo = demo;
+        this._manifest = manifest;
+        this._manifestFile = manifestFile;
+        this._stateFile = stateFile;
+        this._concurrency = concurrency;
+        const strategy = manifest.strategy ? createDispatchStrategy(manifest.strategy) : leastQueuedStrategy;
+        this._dispatcher = new PrintDispatcher(demo, { strategy });
+    }
+
+    /**
+     * Checks everything that can be checked without changing anything: the files, the UFP packages, the clusters
+     * and whether a compatible printer is available for every job.
+     */
+    dryRun(): Promise<BatchPlan> {
+        return this._check(this._manifest.jobs.map((job, i) => i), null);
+    }
+
+    /**
+     * Checks the jobs with the given indices. The files of jobs that were already uploaded according to the state
+     * are not needed anymore, so these are not checked.
+     */
+    private async _check(jobIndices: number[], state: BatchState | null): Promise<BatchPlan> {
+        const problems: string[] = [];
+        // every job is planned against the same state of the clusters
+        const clusterStates = await this._dispatcher.getClusterStates();
+        const items = await Promise.all(jobIndices.map(async (i): Promise<BatchPlanItem> => {
+            const job = this._manifest.jobs[i];
+            const jobState = state && state.jobs[i];
+            const item: BatchPlanItem = {
+                file: job.file, name: getJobName(job), copies: job.copies || 1, clusterId: null, explanation: [],
+            };
+            const label = `jobs[${i}] (${path.basename(job.file)})`;
+            let requirements: JobRequirements;
+            try {
+                requirements = jobState && jobState.jobId ? jobState.requirements || getJobRequirements(null) : await readJobRequirements(job.file);
+            } catch (ex) {
+                problems.push(`${label}: ${ex.message}`);
+                return item;
+            }
+            const cluster = job.cluster || this._manifest.cluster || AUTO_CLUSTER;
+            if (cluster !== AUTO_CLUSTER && !clusterStates.some((c) => c.cluster.cluster_id === cluster)) {
+                problems.push(`${label}: the cluster ${cluster} does not exist`);
+                return item;
+            }
+            const decision = await this._dispatcher.plan(requirements, clusterStates);
+            if (cluster === AUTO_CLUSTER) {
+                item.clusterId = decision.clusterId;
+                item.explanation = decision.explanation;
+            } else {
+                const evaluation = decision.evaluations.find((e) => e.clusterId === cluster);
+                item.clusterId = evaluation.compatiblePrinterIds.length > 0 ? cluster : null;
+                item.explanation = decision.explanation.filter((line) => line.includes(`(${cluster})`) || line.startsWith(`${cluster}:`));
+            }
+            if (!item.clusterId) {
+                problems.push(`${label}: no printer can print the file on ${cluster === AUTO_CLUSTER ? 'any online cluster' : `cluster ${cluster}`}`);
+            }
+            return item;
+        }));
+        const { id, name } = this._manifest.project;
+        return { project: id || `${name} (new)`, items, problems };
+    }
+
+    /**
+     * Runs the batch, or resumes it from the state file, after checking the jobs that still need to be uploaded or
+     * submitted like a dry run. Resolves with the summary once every job has been submitted or has failed.
+     */
+    async run(): Promise<BatchSummary> {
+        const state = await this._loadState();
+        const pendingJobIndices = state.jobs.map((jobState, i) => i).filter((i) => !isJobSubmitted(state.jobs[i]));
+        const { problems } = await this._check(pendingJobIndices, state);
+        if (problems.length > 0) {
+            throw new BatchManifestError('The batch cannot be run', problems);
+        }
+        this._state = state;
+
+        if (!this._state.projectId) {
+            const { id, name } = this._manifest.project;
+            this._state.projectId = id || (await this._demo.createProject(name)).library_project_id;
+            await this._save();
+        }
+        const comments = this._manifest.comments || [];
+        for (let i = this._state.commentsAdded; i < comments.length; i += 1) {
+            await this._demo.addCommentToProject(this._state.projectId, comments[i]);
+            this._state.commentsAdded = i + 1;
+            await this._save();
+        }
+
+        let next = 0;
+        const worker = async () => {
+            while (next < this._manifest.jobs.length) {
+                const index = next;
+                next += 1;
+                await this._runJob(this._manifest.jobs[index], this._state.jobs[index]);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this._concurrency, this._manifest.jobs.length) }, worker));
+        return this._getSummary();
+    }
+
+    private async _runJob(job: BatchManifestJob, jobState: BatchJobState): Promise<void> {
+        jobState.error = null; // eslint-disable-line no-param-reassign
+        try {
+            if (!jobState.jobId && jobState.uploadJobId && await this._findUploadedFile(job, jobState)) {
+                await this._save();
+                this.emit('uploaded', jobState);
+            }
+            if (!jobState.jobId) {
+                const uploaded = await this._demo.uploadFileToProject(this._state.projectId, job.file, {
+                    fileName: jobState.name,
+                    onUploadRequested: (jobUpload) => {
+                        jobState.uploadJobId = jobUpload.job_id; // eslint-disable-line no-param-reassign
+                        return this._save();
+                    },
+                });
+                Object.assign(jobState, { jobId: uploaded.job_id, uploadJobId: null, requirements: getJobRequirements(uploaded.ufp) });
+                await this._save();
+                this.emit('uploaded', jobState);
+            }
+            for (let i = 0; i < jobState.copies.length; i += 1) {
+                await this._submitCopy(job, jobState, i);
+            }
+        } catch (ex) {
+            jobState.error = `${ex.message || ex}`; // eslint-disable-line no-param-reassign
+            await this._save();
+            this.emit('failed', jobState, ex);
+        }
+    }
+
+    private async _submitCopy(job: BatchManifestJob, jobState: BatchJobState, copyIndex: number): Promise<void> {
+        const copy = jobState.copies[copyIndex];
+        if (copy && copy.status === 'submitted') {
+            return;
+        }
+        if (copy && await this._findSubmittedCopy(jobState, copy)) {
+            await this._save();
+            this.emit('submitted', jobState, copyIndex);
+            return;
+        }
+
+        let clusterId = job.cluster || this._manifest.cluster || AUTO_CLUSTER;
+        if (clusterId === AUTO_CLUSTER) {
+            const decision = await this._dispatcher.plan(jobState.requirements || getJobRequirements(null));
+            if (!decision.clusterId) {
+                throw new Error(`No printer can print the file: ${decision.explanation.join(' ')}`);
+            }
+            clusterId = decision.clusterId;
+        }
+        const submitting: BatchCopyState = {
+            status: 'submitting', clusterId, printJobId: null, startedAt: new Date().toISOString(),
+        };
+        jobState.copies[copyIndex] = submitting; // eslint-disable-line no-param-reassign
+        await this._save();
+        const { job_instance_uuid } = await this._demo.submitPrintJob(jobState.jobId, clusterId);
+        Object.assign(submitting, { status: 'submitted', printJobId: job_instance_uuid });
+        await this._save();
+        this.emit('submitted', jobState, copyIndex);
+    }
+
+    /**
+     * Looks for the file in the project when it was being uploaded when the previous run stopped, and records it when
+     * the upload had finished.
+     */
+    private async _findUploadedFile(job: BatchManifestJob, jobState: BatchJobState): Promise<boolean> {
+        let file: ProjectFile;
+        try {
+            file = await this._demo.getProjectFile(this._state.projectId, jobState.uploadJobId);
+        } catch (ex) {
+            if (ex instanceof DigitalFactoryApiError && ex.status === 404) {
+                return false;
+            }
+            throw ex;
+        }
+        const requirements = await readJobRequirements(job.file).catch((): JobRequirements => null);
+        Object.assign(jobState, { jobId: file.file_id, uploadJobId: null, requirements });
+        return true;
+    }
+
+    /**
+     * Looks for a print job that was created for a copy that was being submitted when the previous run stopped,
+     * and records it when it is found. Print jobs are matched by the job they were created from, or by their name
+     * when the API does not tell.
+     */
+    private async _findSubmittedCopy(jobState: BatchJobState, copy: BatchCopyState): Promise<boolean> {
+        const recordedIds = jobState.copies.map((c) => c && c.printJobId).filter(Boolean);
+        const printJobs = await this._demo.listPrintJobs({
+            clusterId: copy.clusterId,
+            // allow for a difference between the local clock and the API
+            createdAfter: new Date(new Date(copy.startedAt).getTime() - 60000),
+        }).toArray();
+        const printJob = printJobs.find((p) => !recordedIds.includes(p.uuid) && (p.job_id ? p.job_id === jobState.jobId : p.name === jobState.name));
+        if (printJob) {
+            Object.assign(copy, { status: 'submitted', printJobId: printJob.uuid });
+        }
+        return Boolean(printJob);
+    }
+
+    /**
+     * Loads the state of the manifest, or creates a new one. The manifest is identified by its contents with the
+     * file paths relative to the manifest, so the state still applies when the batch directory is moved.
+     */
+    private async _loadState(): Promise<BatchState> {
+        const baseDir = path.dirname(this._manifestFile);
+        const manifestHash = createHash('sha256').update(JSON.stringify({
+            ...this._manifest,
+            jobs: this._manifest.jobs.map((job) => ({ ...job, file: path.relative(baseDir, job.file) })),
+        })).digest('hex');
+        if (existsSync(this._stateFile)) {
+            const state: BatchState = JSON.parse(await readFile(this._stateFile, 'utf-8'));
+            if (state.manifestHash !== manifestHash) {
+                throw new Error(`The state file ${this._stateFile} belongs to another version of the manifest, remove it to start over`);
+            }
+            return state;
+        }
+        return {
+            manifestHash,
+            projectId: null,
+            commentsAdded: 0,
+            jobs: this._manifest.jobs.map((job) => ({
+                file: path.relative(baseDir, job.file),
+                name: getJobName(job),
+                jobId: null,
+                uploadJobId: null,
+                requirements: null,
+                copies: new Array(job.copies || 1).fill(null),
+                error: null,
+            })),
+            updatedAt: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Writes the state to a temporary file first, so an interruption cannot leave a partially written state file.
+     */
+    private _save(): Promise<void> {
+        this._saving = this._saving.then(async () => {
+            this._state.updatedAt = new Date().toISOString();
+            await writeFile(`${this._stateFile}.tmp`, prettyJSON(this._state));
+            await rename(`${this._stateFile}.tmp`, this._stateFile);
+        });
+        return this._saving;
+    }
+
+    private _getSummary(): BatchSummary {
+        const jobs = this._state.jobs.map((jobState, i) => {
+            const submitted = jobState.copies.filter((copy) => copy && copy.status === 'submitted');
+            return {
+                file: this._manifest.jobs[i].file,
+                name: jobState.name,
+                jobId: jobState.jobId,
+                printJobIds: submitted.map((copy) => copy.printJobId),
+                clusterIds: submitted.map((copy) => copy.clusterId),
+                error: jobState.error,
+            };
+        });
+        return {
+            projectId: this._state.projectId,
+            submittedCount: jobs.reduce((total, job) => total + job.printJobIds.length, 0),
+            failedCount: jobs.filter((job) => job.error).length,
+            jobs,
+        };
+    }
+}
+
+function isJobSubmitted(jobState: BatchJobState): boolean {
+    return jobState.copies.every((copy) => copy && copy.status === 'submitted');
+}
+
+function getJobName(job: BatchManifestJob): string {
+    return job.name || path.basename(job.file);
+}
+
+/**
+ * Checks that the file exists and can be uploaded, and reads the requirements from a UFP file.
+ */
+async function readJobRequirements(file: string): Promise<JobRequirements> {
+    if (!(await stat(file)).isFile()) {
+        throw new Error('it is not a file');
+    }
+    getContentType(file);
+    return getJobRequirements(path.extname(file).toLowerCase() === '.ufp' ? await readUfpMetadata(file) : null);
+}
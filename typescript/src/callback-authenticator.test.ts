@@ -0,0 +1,94 @@
+import fetch from 'node-fetch';
+import { OAuthError } from './authenticator';
+import { CallbackAuthenticator, CallbackAuthenticatorOptions } from './callback-authenticator';
+import type { Fetch } from './client-options';
+import type { TokenResponse } from './digital-factory';
+import { MockDigitalFactoryServer } from './mock-digital-factory-server';
+
+interface SignInAttempt {
+    signIn: Promise<TokenResponse>;
+    signInUrl: string;
+}
+
+describe('CallbackAuthenticator', () => {
+    let server: MockDigitalFactoryServer;
+    let url: string;
+
+    beforeEach(async () => {
+        server = new MockDigitalFactoryServer();
+        url = await server.start();
+    });
+
+    afterEach(() => server.stop());
+
+    /**
+     * Starts a sign-in with the callback server on a free port, and resolves once the sign-in URL is known.
+     */
+    async function startSignIn(options: Partial<CallbackAuthenticatorOptions> = {}, configFetch: Fetch = fetch): Promise<SignInAttempt> {
+        let onSignInUrl: (signInUrl: string) => void;
+        const signInUrl = new Promise<string>((resolve) => { onSignInUrl = resolve; });
+        const authenticator = new CallbackAuthenticator({
+            port: 0, fallbackPorts: [], onSignInUrl, ...options,
+        });
+        const signIn = authenticator.authenticate({
+            oauthServerUrl: url, clientId: 'test', scopes: '', fetch: configFetch,
+        });
+        // the tests check the outcome once the browser is done, which may be after a failed sign-in rejected
+        signIn.catch(() => {});
+        return { signIn, signInUrl: await signInUrl };
+    }
+
+    /**
+     * Follows the sign-in URL like a browser, which the mock server redirects to the callback server right away.
+     */
+    async function openSignInUrl(signInUrl: string): Promise<number> {
+        const authorizeResponse = await fetch(signInUrl, { redirect: 'manual' });
+        const callbackResponse = await fetch(authorizeResponse.headers.get('location'));
+        return callbackResponse.status;
+    }
+
+    it('signs in with the authorization code and its PKCE verifier', async () => {
+        const { signIn, signInUrl } = await startSignIn();
+        expect(new URL(signInUrl).searchParams.get('code_challenge_method')).toBe('S256');
+        expect(await openSignInUrl(signInUrl)).toBe(200);
+        expect((await signIn).access_token).toBeTruthy();
+    });
+
+    it('rejects a sign-in that the user denied', async () => {
+        server.rejectNextSignIn();
+        const { signIn, signInUrl } = await startSignIn();
+        expect(await openSignInUrl(signInUrl)).toBe(400);
+        await expect(signIn).rejects.toMatchObject({ error: 'access_denied' });
+    });
+
+    it('rejects a callback with another state', async () => {
+        const { signIn, signInUrl } = await startSignIn();
+        const callbackUrl = new URL(new URL(signInUrl).searchParams.get('redirect_uri'));
+        callbackUrl.search = new URLSearchParams({ code: 'code', state: 'other' }).toString();
+        expect((await fetch(callbackUrl.toString())).status).toBe(400);
+        await expect(signIn).rejects.toMatchObject({ error: 'invalid_state' });
+    });
+
+    it('rejects when the sign-in is not completed in time', async () => {
+        const { signIn } = await startSignIn({ timeoutMS: 50 });
+        await expect(signIn).rejects.toThrow(OAuthError);
+        await expect(signIn).rejects.toMatchObject({ error: 'sign_in_timeout' });
+    });
+
+    it('rejects when the sign-in is aborted', async () => {
+        const abort = new AbortController();
+        const { signIn } = await startSignIn({ signal: abort.signal });
+        abort.abort();
+        await expect(signIn).rejects.toMatchObject({ error: 'sign_in_aborted' });
+    });
+
+    it('does not complete a sign-in that timed out while the token was requested', async () => {
+        const slowFetch = (async (requestUrl, init) => {
+            await new Promise((resolve) => setTimeout(resolve, 300));
+            return fetch(requestUrl, init);
+        }) as Fetch;
+        const { signIn, signInUrl } = await startSignIn({ timeoutMS: 150 }, slowFetch);
+        expect(await openSignInUrl(signInUrl)).toBe(400);
+        await expect(signIn).rejects.toMatchObject({ error: 'sign_in_timeout' });
+    });
+});
@@ -0,0 +1,257 @@
+import { spawn } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import {
+    createServer, IncomingMessage, Server, ServerResponse,
+} from 'http';
+import { AddressInfo } from 'net';
+import {
+    Authenticator, OAuthClientConfig, OAuthError, requestToken,
+} from './authenticator';
+import type { TokenResponse } from './digital-factory';
+import { print } from './print';
+
+export const DEFAULT_CALLBACK_SERVER_PORT = 32118;
+
+// The ports that are tried when the callback port is in use. Like the callback port, these need to be allowed as
+// redirect URIs of the OAuth client.
+export const DEFAULT_FALLBACK_PORTS = [32119, 32120, 32121];
+
+const DEFAULT_SIGN_IN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * The options that may be given to the callback authenticator.
+ */
+export interface CallbackAuthenticatorOptions {
+    port?: number;
+    fallbackPorts?: number[];
+    // how long to wait for the user to sign in in the browser
+    timeoutMS?: number;
+    // cancels the sign-in
+    signal?: AbortSignal;
+    // opens the sign-in URL in the default browser, it is passed to onSignInUrl either way
+    openBrowser?: boolean;
+    // called with the URL the user needs to open, e.g. printSignInUrl; the authenticator shows nothing itself
+    onSignInUrl: (signInUrl: string) => void;
+}
+
+/**
+ * Signs in with the authorization code flow with PKCE (RFC 7636). The user opens the sign-in URL in a browser, which
+ * redirects back to a callback server on localhost.
+ */
+export class CallbackAuthenticator implements Authenticator {
+    private _callbackServer: Server = null;
+
+    private _state: string = null;
+
+    private _pkceVerifier: string = null;
+
+    private _config: OAuthClientConfig = null;
+
+    private _redirectUri: string = null;
+
+    private _signInCompleteResolve: (tokenPair: TokenResponse) => void = null;
+
+    private _signInCompleteReject: (error: Error) => void = null;
+
+    private _timeout: NodeJS.Timeout = null;
+
+    private readonly _ports: number[];
+
+    private readonly _timeoutMS: number;
+
+    private readonly _signal: AbortSignal;
+
+    private readonly _openBrowser: boolean;
+
+    private readonly _onSignInUrl: (signInUrl: string) => void;
+
+    constructor({
+        port = DEFAULT_CALLBACK_SERVER_PORT,
+        fallbackPorts = DEFAULT_FALLBACK_PORTS,
+        timeoutMS = DEFAULT_SIGN_IN_TIMEOUT_MS,
+        signal,
+        openBrowser = false,
+        onSignInUrl,
+    }: CallbackAuthenticatorOptions) {
+        this._ports = [port, ...fallbackPorts.filter((fallbackPort) => fallbackPort !== port)];
+        this._timeoutMS = timeoutMS;
+        this._signal = signal;
+        this._openBrowser = openBrowser;
+        this._onSignInUrl = onSignInUrl;
+    }
+
+    async authenticate(config: OAuthClientConfig): Promise<TokenResponse> {
+        if (this._signal && this._signal.aborted) {
+            throw new OAuthError(400, { error: 'sign_in_aborted', error_description: 'The sign-in was aborted' });
+        }
+        this._config = config;
+        this._callbackServer = createServer(this._handleRequest.bind(this));
+        const port = await this._listen();
+
+        this._redirectUri = `http://localhost:${port}/callback`;
+        this._state = randomBytes(16).toString('base64url');
+        this._pkceVerifier = randomBytes(32).toString('base64url');
+        const query = new URLSearchParams({
+            client_id: config.clientId,
+            redirect_uri: this._redirectUri,
+            scope: config.scopes,
+            state: this._state,
+            response_type: 'code',
+            code_challenge: createHash('sha256').update(this._pkceVerifier).digest('base64url'),
+            code_challenge_method: 'S256',
+        });
+        const signInUrl = `${config.oauthServerUrl}/authorize?${query}`;
+
+        const signInComplete = new Promise<TokenResponse>((resolve, reject) => {
+            this._signInCompleteResolve = resolve;
+            this._signInCompleteReject = reject;
+        });
+        this._timeout = setTimeout(() => this._fail(new OAuthError(400, {
+            error: 'sign_in_timeout',
+            error_description: `The sign-in was not completed within ${Math.round(this._timeoutMS / 1000)}s`,
+        })), this._timeoutMS);
+        this._signal && this._signal.addEventListener('abort', this._onAbort); // eslint-disable-line no-unused-expressions
+
+        this._onSignInUrl(signInUrl);
+        if (this._openBrowser) {
+            openInBrowser(signInUrl);
+        }
+        return signInComplete;
+    }
+
+    /**
+     * Starts the callback server on the first port that is free.
+     */
+    private async _listen(): Promise<number> {
+        for (let i = 0; i < this._ports.length; i += 1) {
+            try {
+                return await new Promise<number>((resolve, reject) => {
+                    this._callbackServer.once('error', reject);
+                    this._callbackServer.listen(this._ports[i], () => {
+                        this._callbackServer.off('error', reject);
+                        resolve((this._callbackServer.address() as AddressInfo).port);
+                    });
+                });
+            } catch (ex) {
+                if (ex.code !== 'EADDRINUSE') {
+                    throw ex;
+                }
+            }
+        }
+        throw new Error(`Cannot start the sign-in callback server, ports ${this._ports.join(', ')} are all in use`);
+    }
+
+    private async _handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', this._redirectUri);
+        if (url.pathname !== '/callback' || !this._pkceVerifier) {
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+
+        // the state is checked first, as an error response with another state is not meant for this sign-in
+        const state = url.searchParams.get('state');
+        if (state !== this._state) {
+            sendPage(res, 400, 'Sign in failed', 'The sign-in response does not belong to this sign-in attempt. Please try again.');
+            this._fail(new OAuthError(400, { error: 'invalid_state', error_description: 'The state of the sign-in response does not match' }));
+            return;
+        }
+
+        const error = url.searchParams.get('error');
+        if (error) {
+            const description = url.searchParams.get('error_description');
+            sendPage(res, 400, 'Sign in failed', description || error);
+            this._fail(new OAuthError(400, { error, error_description: description || undefined }));
+            return;
+        }
+
+        const code = url.searchParams.get('code');
+        if (!code) {
+            sendPage(res, 400, 'Sign in failed', 'The sign-in response does not contain an authorization code.');
+            this._fail(new OAuthError(400, { error: 'invalid_request', error_description: 'The sign-in response has no code' }));
+            return;
+        }
+
+        // the sign-in may time out or be aborted while the token is requested, after which it must not be settled again
+        const resolve = this._signInCompleteResolve;
+        const isPending = () => this._signInCompleteResolve === resolve;
+        const verifier = this._pkceVerifier;
+        this._pkceVerifier = null;
+        let tokenPair: TokenResponse;
+        try {
+            tokenPair = await requestToken(this._config, {
+                redirect_uri: this._redirectUri,
+                grant_type: 'authorization_code',
+                code,
+                code_verifier: verifier,
+            });
+        } catch (ex) {
+            sendPage(res, 500, 'Sign in failed', 'The sign-in could not be completed, please check the console for details.');
+            isPending() && this._fail(ex); // eslint-disable-line no-unused-expressions
+            return;
+        }
+
+        if (!isPending()) {
+            sendPage(res, 400, 'Sign in failed', 'The sign-in timed out or was cancelled. Please try again.');
+            return;
+        }
+        sendPage(res, 200, 'Sign in finished', 'You can now close this window.');
+        this._reset();
+        resolve(tokenPair);
+    }
+
+    private _onAbort = (): void => {
+        this._fail(new OAuthError(400, { error: 'sign_in_aborted', error_description: 'The sign-in was aborted' }));
+    };
+
+    private _fail(error: Error): void {
+        const reject = this._signInCompleteReject;
+        this._reset();
+        reject && reject(error); // eslint-disable-line no-unused-expressions
+    }
+
+    private _reset(): void {
+        this._callbackServer && this._callbackServer.close(); // eslint-disable-line no-unused-expressions
+        this._signal && this._signal.removeEventListener('abort', this._onAbort); // eslint-disable-line no-unused-expressions
+        clearTimeout(this._timeout);
+        this._callbackServer = null;
+        this._timeout = null;
+        this._state = null;
+        this._pkceVerifier = null;
+        this._signInCompleteResolve = null;
+        this._signInCompleteReject = null;
+    }
+}
+
+/**
+ * Prints the instructions to open the sign-in URL, for command-line programs.
+ */
+export function printSignInUrl(signInUrl: string): void {
+    print('Open the following URL in your browser and log in to Ultimaker Digital Factory:');
+    print('');
+    print(`    ${signInUrl}`);
+    print('');
+}
+
+/**
+ * Opens the URL in the default browser. When that fails, the user can still open the printed URL.
+ */
+function openInBrowser(url: string): void {
+    const [command, ...args] = {
+        darwin: ['open', url],
+        win32: ['cmd', '/c', 'start', '""', url.replace(/&/g, '^&')],
+    }[process.platform as string] || ['xdg-open', url];
+    const child = spawn(command, args, { detached: true, stdio: 'ignore' });
+    child.on('error', () => {});
+    child.unref();
+}
+
+function sendPage(res: ServerResponse, status: number, title: string, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title></head>`
+        + `<body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p></body></html>`);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+}
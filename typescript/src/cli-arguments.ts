@@ -0,0 +1,118 @@
+import { CliError } from './cli-error';
+
+// The exit codes of the command-line tool.
+export const EXIT_CODES = {
+    success: 0,
+    error: 1,
+    usage: 2,
+    notSignedIn: 3,
+    apiError: 4,
+    actionFailed: 5,
+    printJobFailed: 6,
+    noCompatiblePrinter: 7,
+};
+
+/**
+ * The parsed command line: the positional arguments, and the flags by name without the leading dashes.
+ */
+export interface CliArguments {
+    positionals: string[];
+    flags: {[name: string]: string | true};
+}
+
+/**
+ * Parses `--name value`, `--name=value` and the given boolean flags (`--name`); everything else is positional.
+ * Everything after `--` is positional as well.
+ */
+export function parseArguments(args: string[], booleanFlags: string[]): CliArguments {
+    const parsed: CliArguments = { positionals: [], flags: {} };
+    for (let i = 0; i < args.length; i += 1) {
+        const arg = args[i];
+        if (arg === '--') {
+            parsed.positionals.push(...args.slice(i + 1));
+            break;
+        }
+        if (arg === '-h') {
+            parsed.flags.help = true;
+        } else if (!arg.startsWith('--')) {
+            parsed.positionals.push(arg);
+        } else if (arg.includes('=')) {
+            parsed.flags[arg.slice(2, arg.indexOf('='))] = arg.slice(arg.indexOf('=') + 1);
+        } else if (booleanFlags.includes(arg.slice(2))) {
+            parsed.flags[arg.slice(2)] = true;
+        } else if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+            parsed.flags[arg.slice(2)] = args[i + 1];
+            i += 1;
+        } else {
+            throw new CliError(`The flag ${arg} requires a value`, EXIT_CODES.usage);
+        }
+    }
+    return parsed;
+}
+
+/**
+ * Gets the value of a flag, or the default value if it was not given.
+ */
+export function getFlag(args: CliArguments, name: string, defaultValue?: string): string | undefined {
+    const value = args.flags[name];
+    if (value === true) {
+        throw new CliError(`The flag --${name} requires a value`, EXIT_CODES.usage);
+    }
+    return value === undefined ? defaultValue : value;
+}
+
+/**
+ * Gets the value of a flag that must be given.
+ */
+export function getRequiredFlag(args: CliArguments, name: string, defaultValue?: string): string {
+    const value = getFlag(args, name, defaultValue);
+    if (value === undefined) {
+        throw new CliError(`The flag --${name} is required`, EXIT_CODES.usage);
+    }
+    return value;
+}
+
+export function getNumberFlag(args: CliArguments, name: string, defaultValue?: number): number | undefined {
+    const value = getFlag(args, name);
+    if (value === undefined) {
+        return defaultValue;
+    }
+    if (Number.isNaN(Number(value))) {
+        throw new CliError(`The flag --${name} must be a number`, EXIT_CODES.usage);
+    }
+    return Number(value);
+}
+
+/**
+ * Gets the value of a flag that must be a number above zero, such as an interval.
+ */
+export function getPositiveNumberFlag(args: CliArguments, name: string, defaultValue?: number): number | undefined {
+    const value = getNumberFlag(args, name, defaultValue);
+    if (value !== undefined && !(value > 0)) {
+        throw new CliError(`The flag --${name} must be a number above zero`, EXIT_CODES.usage);
+    }
+    return value;
+}
+
+export function getDateFlag(args: CliArguments, name: string): Date | undefined {
+    const value = getFlag(args, name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new CliError(`The flag --${name} must be a date, e.g. 2021-11-22 or 2021-11-22T10:00:00Z`, EXIT_CODES.usage);
+    }
+    return date;
+}
+
+/**
+ * Gets the positional argument at the given index, which must be given.
+ */
+export function getPositional(args: CliArguments, index: number, name: string): string {
+    const value = args.positionals[index];
+    if (value === undefined) {
+        throw new CliError(`The ${name} is required`, EXIT_CODES.usage);
+    }
+    return value;
+}
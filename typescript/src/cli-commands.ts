@@ -0,0 +1,624 @@
+import { writeFile } from 'fs/promises';
+import * as path from 'path';
+import { ActionFailedError } from './action-failed-error';
+import { ActionTimeoutError } from './action-timeout-error';
+import { DigitalFactoryApiError } from './api-error';
+import { OAuthError } from './authenticator';
+import { loadBatchManifest } from './batch-manifest';
+import { BatchManifestError } from './batch-manifest-error';
+import { BatchRunner } from './batch-runner';
+import {
+    CliArguments, EXIT_CODES, getDateFlag, getFlag, getNumberFlag, getPositional, getPositiveNumberFlag, getRequiredFlag,
+} from './cli-arguments';
+import { CliError } from './cli-error';
+import type { DigitalFactoryClientOptions } from './client-options';
+import { monitorClusters } from './cluster-monitor';
+import type { DigitalFactoryDemo } from './digital-factory';
+import type { PrintJob, PrintJobActionResult } from './models';
+import { createDispatchStrategy, DISPATCH_STRATEGY_NAMES } from './dispatch-strategies';
+import { DispatchError } from './dispatch-error';
+import { DEFAULT_GATEWAY_PORT, GatewayServer } from './gateway-server';
+import { DEFAULT_METRICS_PORT } from './metrics-exporter';
+import { prettyJSON, print } from './print';
+import { parseReportRecords } from './reports';
+import { getJobRequirements, PrintDispatcher } from './print-dispatcher';
+import { PrinterOfflineError } from './printer-offline-error';
+import { ResponseValidationError } from './response-validation-error';
+import { readUfpMetadata } from './ufp-reader';
+import type { UploadOptions } from './upload';
+
+/**
+ * What a command gets to work with.
+ */
+export interface CliContext {
+    demo: DigitalFactoryDemo;
+    clientOptions: DigitalFactoryClientOptions;
+    args: CliArguments;
+}
+
+/**
+ * The outcome of a command: the data that is written with `--json`, and otherwise the text if there is any.
+ */
+export interface CliResult {
+    data: unknown;
+    text?: string;
+    // a non-zero exit code for a command that ran, but had an unsuccessful outcome
+    exitCode?: number;
+}
+
+/**
+ * A subcommand of the command-line tool, e.g. `jobs upload`.
+ */
+export interface CliCommand {
+    name: string;
+    usage: string;
+    description: string;
+    // whether the command needs a signed in client, which may start the interactive sign-in
+    requiresSignIn: boolean;
+    run: (context: CliContext) => Promise<CliResult>;
+}
+
+// The flags that have no value.
+export const BOOLEAN_FLAGS = ['json', 'help', 'mock', 'shared', 'no-validate', 'device-code', 'metrics', 'dry-run', 'private', 'verbose', 'no-browser', 'wait'];
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export const COMMANDS: CliCommand[] = [
+    {
+        name: 'auth login',
+        usage: '[--device-code]',
+        description: 'Signs in, in the browser or with a device code, unless there are usable stored tokens.',
+        requiresSignIn: true,
+        run: async ({ demo }) => ({ data: await demo.getSignInStatus(), text: 'Signed in.' }),
+    },
+    {
+        name: 'auth logout',
+        usage: '',
+        description: 'Forgets the stored tokens.',
+        requiresSignIn: false,
+        run: async ({ demo }) => {
+            await demo.signOut();
+            return { data: { signedIn: false }, text: 'Signed out.' };
+        },
+    },
+    {
+        name: 'auth status',
+        usage: '',
+        description: `Shows whether there are stored tokens, exits with ${EXIT_CODES.notSignedIn} if not.`,
+        requiresSignIn: false,
+        run: async ({ demo }) => {
+            const status = await demo.getSignInStatus();
+            return {
+                data: status,
+                text: status.signedIn
+                    ? `Signed in with scopes ${status.scopes}, the access token expires at ${status.accessTokenExpiresAt}.`
+                    : 'Not signed in.',
+                exitCode: status.signedIn ? EXIT_CODES.success : EXIT_CODES.notSignedIn,
+            };
+        },
+    },
+    {
+        name: 'projects list',
+        usage: '[--search <text>] [--shared] [--limit <count>]',
+        description: 'Lists the library projects.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projects = await demo.listProjects({
+                search: getFlag(args, 'search'),
+                shared: args.flags.shared ? true : undefined,
+            }).toArray(getNumberFlag(args, 'limit', DEFAULT_LIST_LIMIT));
+            return { data: projects, text: formatTable(projects, ['library_project_id', 'display_name', 'is_shared']) };
+        },
+    },
+    {
+        name: 'projects create',
+        usage: '<name>',
+        description: 'Creates a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const project = await demo.createProject(getPositional(args, 0, 'project name'));
+            return { data: project, text: `Created project ${project.library_project_id}` };
+        },
+    },
+    {
+        name: 'projects comment',
+        usage: '<project-id> <comment>',
+        description: 'Adds a comment to a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projectId = getPositional(args, 0, 'project ID');
+            const comment = args.positionals.slice(1).join(' ') || getPositional(args, 1, 'comment');
+            await demo.addCommentToProject(projectId, comment);
+            return { data: { library_project_id: projectId, comment }, text: 'Comment added.' };
+        },
+    },
+    {
+        name: 'projects comments',
+        usage: '<project-id> [--limit <count>]',
+        description: 'Lists the comments on a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const comments = await demo.listProjectComments(getPositional(args, 0, 'project ID'))
+                .toArray(getNumberFlag(args, 'limit', DEFAULT_LIST_LIMIT));
+            return { data: comments, text: formatTable(comments, ['comment_id', 'created_at', 'body']) };
+        },
+    },
+    {
+        name: 'projects delete-comment',
+        usage: '<project-id> <comment-id>',
+        description: 'Deletes a comment from a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projectId = getPositional(args, 0, 'project ID');
+            const commentId = getPositional(args, 1, 'comment ID');
+            await demo.deleteComment(projectId, commentId);
+            return { data: { library_project_id: projectId, comment_id: commentId, deleted: true }, text: 'Comment deleted.' };
+        },
+    },
+    {
+        name: 'projects get',
+        usage: '<project-id>',
+        description: 'Shows a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const project = await demo.getProject(getPositional(args, 0, 'project ID'));
+            return { data: project, text: prettyJSON(project) };
+        },
+    },
+    {
+        name: 'projects rename',
+        usage: '<project-id> <name>',
+        description: 'Renames a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projectId = getPositional(args, 0, 'project ID');
+            const project = await demo.renameProject(projectId, args.positionals.slice(1).join(' ') || getPositional(args, 1, 'project name'));
+            return { data: project, text: `Renamed project ${projectId} to ${project.display_name}` };
+        },
+    },
+    {
+        name: 'projects share',
+        usage: '<project-id> [--private]',
+        description: 'Shares a library project with the organization, or makes it private again.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projectId = getPositional(args, 0, 'project ID');
+            const project = await demo.setProjectSharing(projectId, !args.flags.private);
+            return { data: project, text: `Project ${projectId} is ${project.is_shared ? 'shared' : 'private'}` };
+        },
+    },
+    {
+        name: 'projects delete',
+        usage: '<project-id>',
+        description: 'Deletes a library project with its files and comments.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projectId = getPositional(args, 0, 'project ID');
+            await demo.deleteProject(projectId);
+            return { data: { library_project_id: projectId, deleted: true }, text: `Deleted project ${projectId}` };
+        },
+    },
+    {
+        name: 'projects files',
+        usage: '<project-id> [--limit <count>]',
+        description: 'Lists the files stored in a library project.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const files = await demo.listProjectFiles(getPositional(args, 0, 'project ID'))
+                .toArray(getNumberFlag(args, 'limit', DEFAULT_LIST_LIMIT));
+            return { data: files, text: formatTable(files, ['file_id', 'file_name', 'file_size', 'uploaded_at']) };
+        },
+    },
+    {
+        name: 'projects download',
+        usage: '<project-id> <file-id> [--output <file>]',
+        description: 'Downloads a file stored in a library project, by default under its own name.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const projectId = getPositional(args, 0, 'project ID');
+            const fileId = getPositional(args, 1, 'file ID');
+            const output = getFlag(args, 'output') || path.basename((await demo.getProjectFile(projectId, fileId)).file_name);
+            const file = await demo.saveProjectFile(projectId, fileId, output);
+            return { data: { ...file, file: output }, text: `Saved ${file.file_name} to ${output}` };
+        },
+    },
+    {
+        name: 'jobs upload',
+        usage: '<file> --project <project-id> [--name <job-name>] [--no-validate] [--target-machine <machine>]',
+        description: 'Uploads a UFP, MakerBot or G-code file to a library project, checking UFP files first.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const file = getPositional(args, 0, 'file');
+            const targetMachine = getFlag(args, 'target-machine');
+            let validate: UploadOptions['validate'];
+            if (args.flags['no-validate']) {
+                validate = false;
+            } else if (targetMachine) {
+                validate = { targetMachine };
+            }
+            // a line per percent instead of per chunk
+            let lastPercentage = -1;
+            const job = await demo.uploadFileToProject(getRequiredFlag(args, 'project'), file, {
+                fileName: getFlag(args, 'name', path.basename(file)),
+                validate,
+                onProgress: (bytesSent, totalBytes) => {
+                    const percentage = totalBytes > 0 ? Math.floor((100 * bytesSent) / totalBytes) : 100;
+                    if (percentage !== lastPercentage) {
+                        print(`Uploaded ${percentage}%`);
+                        lastPercentage = percentage;
+                    }
+                },
+            });
+            return { data: job, text: `Uploaded job ${job.job_id}` };
+        },
+    },
+    {
+        name: 'jobs submit',
+        usage: '<job-id> --cluster <cluster-id> [--wait] [--interval <seconds>] [--timeout <seconds>]',
+        description: `Prints an uploaded job on a printer group. With --wait, waits until it is finished and exits with ${EXIT_CODES.printJobFailed} if it failed.`,
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const result = await demo.submitPrintJob(getPositional(args, 0, 'job ID'), getClusterFlag(args));
+            if (args.flags.wait) {
+                print(`Submitted print job ${result.job_instance_uuid}`);
+                return followPrintJob(demo, args, result.job_instance_uuid);
+            }
+            return { data: result, text: `Submitted print job ${result.job_instance_uuid}` };
+        },
+    },
+    {
+        name: 'jobs dispatch',
+        usage: '<file> --project <project-id> [--strategy least-queued|round-robin|preferred-group] [--prefer <cluster-id,...>] [--dry-run]',
+        description: `Uploads a file and prints it on the best printer group for it, exits with ${EXIT_CODES.noCompatiblePrinter} if there is none.`,
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const file = getPositional(args, 0, 'file');
+            const prefer = getFlag(args, 'prefer');
+            const strategyName = getFlag(args, 'strategy', prefer ? 'preferred-group' : 'least-queued');
+            if (!DISPATCH_STRATEGY_NAMES.includes(strategyName)) {
+                throw new CliError(`The strategy must be one of ${DISPATCH_STRATEGY_NAMES.join(', ')}`, EXIT_CODES.usage);
+            }
+            const strategy = createDispatchStrategy(strategyName, prefer ? prefer.split(',') : []);
+            const dispatcher = new PrintDispatcher(demo, { strategy });
+            // decide before uploading, so nothing is uploaded for a job that cannot be printed
+            const ufp = path.extname(file).toLowerCase() === '.ufp' ? await readUfpMetadata(file) : null;
+            const decision = await dispatcher.plan(getJobRequirements(ufp));
+            if (!decision.clusterId || args.flags['dry-run']) {
+                return {
+                    data: decision,
+                    text: decision.explanation.join('\n'),
+                    exitCode: decision.clusterId ? EXIT_CODES.success : EXIT_CODES.noCompatiblePrinter,
+                };
+            }
+            const job = await demo.uploadFileToProject(getRequiredFlag(args, 'project'), file, {
+                fileName: getFlag(args, 'name', path.basename(file)),
+            });
+            const result = await dispatcher.dispatch(job);
+            return {
+                data: { job_id: job.job_id, ...result },
+                text: [...result.decision.explanation, `Submitted print job ${result.printJobId}`].join('\n'),
+            };
+        },
+    },
+    {
+        name: 'jobs list',
+        usage: '[--status <status,...>] [--cluster <cluster-id>] [--since <date>] [--until <date>] [--limit <count>]',
+        description: 'Lists the print jobs.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const status = getFlag(args, 'status');
+            const printJobs = await demo.listPrintJobs({
+                status: status && status.split(','),
+                clusterId: getFlag(args, 'cluster'),
+                createdAfter: getDateFlag(args, 'since'),
+                createdBefore: getDateFlag(args, 'until'),
+            }).toArray(getNumberFlag(args, 'limit', DEFAULT_LIST_LIMIT));
+            return { data: printJobs, text: formatTable(printJobs, ['uuid', 'name', 'status', 'cluster_id', 'created_at']) };
+        },
+    },
+    {
+        name: 'jobs watch',
+        usage: '<print-job-id> [--interval <seconds>] [--timeout <seconds>]',
+        description: `Shows the progress of a print job until it is finished, exits with ${EXIT_CODES.printJobFailed} if it failed.`,
+        requiresSignIn: true,
+        run: async ({ demo, args }) => followPrintJob(demo, args, getPositional(args, 0, 'print job ID')),
+    },
+    printJobActionCommand('jobs pause', 'Pauses a printing print job.', (demo, clusterId, printJobId) => demo.pausePrintJob(clusterId, printJobId)),
+    printJobActionCommand('jobs resume', 'Resumes a paused print job.', (demo, clusterId, printJobId) => demo.resumePrintJob(clusterId, printJobId)),
+    printJobActionCommand('jobs abort', 'Aborts a queued or printing print job.', (demo, clusterId, printJobId) => demo.abortPrintJob(clusterId, printJobId)),
+    printJobActionCommand('jobs force', 'Starts a queued print job right away, even if the printer configuration does not match.',
+        (demo, clusterId, printJobId) => demo.forceStartPrintJob(clusterId, printJobId)),
+    printJobActionCommand('jobs remove', 'Removes a print job from the queue.', (demo, clusterId, printJobId) => demo.removePrintJobFromQueue(clusterId, printJobId)),
+    {
+        name: 'jobs move',
+        usage: '<print-job-id> --position <position> [--cluster <cluster-id>]',
+        description: 'Moves a queued print job to a position in the queue, 0 being the next job to print.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const printJobId = getPositional(args, 0, 'print job ID');
+            const position = getNumberFlag(args, 'position');
+            if (position === undefined) {
+                throw new CliError('The flag --position is required', EXIT_CODES.usage);
+            }
+            const result = await demo.movePrintJobInQueue(await getPrintJobCluster(demo, args, printJobId), printJobId, position);
+            return { data: result, text: `Print job ${printJobId} is at position ${result.queue_position} in the queue` };
+        },
+    },
+    {
+        name: 'batch run',
+        usage: '<manifest.yaml|json> [--dry-run] [--state <file>] [--concurrency <count>]',
+        description: 'Uploads and prints the files of a manifest, resuming an interrupted run from its state file.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const manifestFile = getPositional(args, 0, 'manifest file');
+            const runner = new BatchRunner(demo, await loadBatchManifest(manifestFile), manifestFile, {
+                stateFile: getFlag(args, 'state'),
+                concurrency: getNumberFlag(args, 'concurrency'),
+            });
+            if (args.flags['dry-run']) {
+                const plan = await runner.dryRun();
+                const lines = plan.items.map((item) => `${item.name} x${item.copies}: ${item.clusterId || 'cannot be printed'}`);
+                return {
+                    data: plan,
+                    text: [`Project: ${plan.project}`, ...lines, ...plan.problems.map((problem) => `Problem: ${problem}`)].join('\n'),
+                    exitCode: plan.problems.length > 0 ? EXIT_CODES.usage : EXIT_CODES.success,
+                };
+            }
+            runner.on('uploaded', (jobState) => print(`Uploaded ${jobState.name} as job ${jobState.jobId}`));
+            runner.on('submitted', (jobState, copy) => print(`Submitted copy ${copy + 1} of ${jobState.name}: ${jobState.copies[copy].printJobId}`));
+            runner.on('failed', (jobState) => print(`Failed ${jobState.name}: ${jobState.error}`));
+            const summary = await runner.run();
+            const lines = summary.jobs.map((job) => (
+                job.error ? `${job.name}: failed, ${job.error}` : `${job.name}: job ${job.jobId}, print jobs ${job.printJobIds.join(', ')}`
+            ));
+            return {
+                data: summary,
+                text: [`Project ${summary.projectId}: ${summary.submittedCount} print jobs submitted, ${summary.failedCount} files failed`, ...lines].join('\n'),
+                exitCode: summary.failedCount > 0 ? EXIT_CODES.error : EXIT_CODES.success,
+            };
+        },
+    },
+    {
+        name: 'clusters list',
+        usage: '[--limit <count>]',
+        description: 'Lists the printer groups.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const clusters = await demo.listClusters().toArray(getNumberFlag(args, 'limit', DEFAULT_LIST_LIMIT));
+            return { data: clusters, text: formatTable(clusters, ['cluster_id', 'friendly_name', 'is_online']) };
+        },
+    },
+    {
+        name: 'clusters printers',
+        usage: '--cluster <cluster-id>',
+        description: 'Lists the printers of a printer group.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const printers = await demo.getClusterPrinters(getClusterFlag(args));
+            return { data: printers, text: formatTable(printers, ['uuid', 'friendly_name', 'machine_variant', 'status']) };
+        },
+    },
+    {
+        name: 'clusters clear-build-plate',
+        usage: '--cluster <cluster-id> [--printer <printer-id>]',
+        description: 'Confirms that the build plate of a printer, the host printer by default, was cleared.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const clusterId = getClusterFlag(args);
+            const printerId = getFlag(args, 'printer') || await getHostPrinter(demo, clusterId);
+            const result = await demo.confirmBuildPlateCleared(clusterId, printerId);
+            return { data: result, text: `Printer ${printerId} is ${result.status}` };
+        },
+    },
+    {
+        name: 'webcam snapshot',
+        usage: '--cluster <cluster-id> [--printer <printer-id>] [--output <file.jpg>]',
+        description: 'Takes a webcam image, of the host printer by default, and downloads it when an output file is given.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const clusterId = getClusterFlag(args);
+            const printerId = getFlag(args, 'printer') || await getHostPrinter(demo, clusterId);
+            const imageUrl = await demo.getWebcamImage(clusterId, printerId, {
+                timeoutMS: getNumberFlag(args, 'timeout', 60) * 1000,
+                onProgress: (status) => print(`Webcam image status: ${status.status}`),
+            });
+            const output = getFlag(args, 'output');
+            if (output) {
+                await writeFile(output, await demo.downloadFile(imageUrl));
+            }
+            return { data: { image_url: imageUrl, file: output || null }, text: output ? `Saved the image to ${output}` : imageUrl };
+        },
+    },
+    {
+        name: 'reports generate',
+        usage: '[--cluster <cluster-id,...>] [--since <date>] [--until <date>] [--type <report-type>] [--output <file.csv>]',
+        description: 'Generates a report of all printer groups by default, and downloads it when an output file is given.',
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const clusterFlag = getFlag(args, 'cluster');
+            const clusterIds = clusterFlag ? clusterFlag.split(',') : (await demo.getClusters()).map((cluster) => cluster.cluster_id);
+            const downloadUrl = await demo.generateReport(clusterIds, {
+                startDate: getDateFlag(args, 'since'),
+                endDate: getDateFlag(args, 'until'),
+                reportType: getFlag(args, 'type'),
+            }, {
+                timeoutMS: getNumberFlag(args, 'timeout', 300) * 1000,
+                onProgress: (status) => print(`Report status: ${status.status}`),
+            });
+            const output = getFlag(args, 'output');
+            if (output) {
+                await writeFile(output, await demo.downloadReport(downloadUrl));
+            }
+            return { data: { download_url: downloadUrl, file: output || null }, text: output ? `Saved the report to ${output}` : downloadUrl };
+        },
+    },
+    {
+        name: 'reports download',
+        usage: '<download-url> [--output <file.csv>]',
+        description: 'Downloads a generated report; with --json the rows are parsed.',
+        requiresSignIn: false,
+        run: async ({ demo, args }) => {
+            const csv = await demo.downloadReport(getPositional(args, 0, 'download URL'));
+            const output = getFlag(args, 'output');
+            if (output) {
+                await writeFile(output, csv);
+            }
+            return { data: parseReportRecords(csv), text: output ? `Saved the report to ${output}` : csv };
+        },
+    },
+    {
+        name: 'gateway',
+        usage: '[--port <port>] [--host <host>] [--cache-ttl <seconds>]',
+        description: 'Serves a local API for other tools through this sign-in until interrupted, for the GATEWAY_API_KEYS in the env file.',
+        requiresSignIn: true,
+        run: async ({ demo, clientOptions, args }) => {
+            const apiKeys = (process.env.GATEWAY_API_KEYS || '').split(',').map((key) => key.trim()).filter(Boolean);
+            if (apiKeys.length === 0) {
+                throw new CliError('Set GATEWAY_API_KEYS in the env file to the comma separated API keys of the tools', EXIT_CODES.usage);
+            }
+            const gateway = new GatewayServer(demo, {
+                apiKeys,
+                cacheTtlMS: getNumberFlag(args, 'cache-ttl', 5) * 1000,
+                logger: clientOptions.logger,
+            });
+            const host = getFlag(args, 'host', '127.0.0.1');
+            const port = await gateway.listen(getNumberFlag(args, 'port', DEFAULT_GATEWAY_PORT), host);
+            print(`The gateway is listening on http://${host}:${port}, press Ctrl+C to stop`);
+            await new Promise((resolve) => process.once('SIGINT', resolve));
+            await gateway.close();
+            return { data: null };
+        },
+    },
+    {
+        name: 'monitor',
+        usage: '[--interval <seconds>] [--metrics-port <port>] [--status-dir <dir>]',
+        description: 'Monitors the printer groups until interrupted, see monitor-printers.',
+        requiresSignIn: false,
+        run: async ({ clientOptions, args }) => {
+            const statusDir = getFlag(args, 'status-dir');
+            await monitorClusters({
+                clientOptions,
+                waitMS: getPositiveNumberFlag(args, 'interval', 60) * 1000,
+                metricsPort: getNumberFlag(args, 'metrics-port', args.flags.metrics ? DEFAULT_METRICS_PORT : undefined),
+                ...(statusDir && {
+                    statusDir,
+                    comparisonFile: `${statusDir}/cluster-monitoring.csv`,
+                    eventsFile: `${statusDir}/cluster-monitoring-events.jsonl`,
+                }),
+            });
+            return { data: null };
+        },
+    },
+];
+
+/**
+ * Gets the exit code for an error thrown by a command.
+ */
+export function getExitCode(error: unknown): number {
+    if (error instanceof CliError) {
+        return error.exitCode;
+    }
+    if (error instanceof BatchManifestError) {
+        return EXIT_CODES.usage;
+    }
+    if (error instanceof ActionFailedError || error instanceof ActionTimeoutError || error instanceof PrinterOfflineError) {
+        return EXIT_CODES.actionFailed;
+    }
+    if (error instanceof DispatchError) {
+        return EXIT_CODES.noCompatiblePrinter;
+    }
+    if (error instanceof OAuthError) {
+        return EXIT_CODES.notSignedIn;
+    }
+    return error instanceof DigitalFactoryApiError || error instanceof ResponseValidationError ? EXIT_CODES.apiError : EXIT_CODES.error;
+}
+
+/**
+ * Gets the cluster from the `--cluster` flag, or else from the `CLUSTER_ID` in the env file.
+ */
+function getClusterFlag(args: CliArguments): string {
+    const { CLUSTER_ID } = process.env;
+    return getRequiredFlag(args, 'cluster', CLUSTER_ID && CLUSTER_ID !== 'your-cluster-id' ? CLUSTER_ID : undefined);
+}
+
+/**
+ * Gets the cluster of a print job from the `--cluster` flag, or else from the print job itself.
+ */
+async function getPrintJobCluster(demo: DigitalFactoryDemo, args: CliArguments, printJobId: string): Promise<string> {
+    return getFlag(args, 'cluster') || (await demo.getPrintJob(printJobId)).cluster_id;
+}
+
+async function getHostPrinter(demo: DigitalFactoryDemo, clusterId: string): Promise<string> {
+    const cluster = (await demo.getClusters()).find((c) => c.cluster_id === clusterId);
+    if (!cluster) {
+        throw new CliError(`The cluster ${clusterId} was not found`, EXIT_CODES.usage);
+    }
+    return cluster.host_printer.uuid;
+}
+
+/**
+ * Shows the events of a print job until it is finished, for `jobs watch` and `jobs submit --wait`.
+ */
+async function followPrintJob(demo: DigitalFactoryDemo, args: CliArguments, printJobId: string): Promise<CliResult> {
+    const timeoutSeconds = getNumberFlag(args, 'timeout');
+    const watcher = demo.watchPrintJob(printJobId, { intervalMS: getPositiveNumberFlag(args, 'interval', 30) * 1000 });
+    watcher.on('change', ({
+        type, printJob, progress, estimatedFinishAt,
+    }) => {
+        const details = [
+            progress === null ? '' : ` ${Math.floor(progress * 100)}%`,
+            estimatedFinishAt ? `, finishes around ${estimatedFinishAt}` : '',
+        ].join('');
+        print(`${new Date().toISOString()} ${printJob.name}: ${type}${details}`);
+    });
+    try {
+        const printJob = await watcher.waitForCompletion({ timeoutMS: timeoutSeconds === undefined ? undefined : timeoutSeconds * 1000 });
+        return { data: printJob, text: `Print job ${printJob.name} ended with status ${printJob.status}` };
+    } catch (ex) {
+        if (!(ex instanceof ActionFailedError)) {
+            throw ex;
+        }
+        const printJob: PrintJob = ex.lastStatus;
+        return {
+            data: printJob,
+            text: `Print job ${printJob.name} ended with status ${printJob.status}`,
+            exitCode: EXIT_CODES.printJobFailed,
+        };
+    }
+}
+
+/**
+ * Creates a command that performs an action on a print job and shows its status afterwards.
+ */
+function printJobActionCommand(
+    name: string,
+    description: string,
+    action: (demo: DigitalFactoryDemo, clusterId: string, printJobId: string) => Promise<PrintJobActionResult>,
+): CliCommand {
+    return {
+        name,
+        usage: '<print-job-id> [--cluster <cluster-id>]',
+        description,
+        requiresSignIn: true,
+        run: async ({ demo, args }) => {
+            const printJobId = getPositional(args, 0, 'print job ID');
+            const result = await action(demo, await getPrintJobCluster(demo, args, printJobId), printJobId);
+            return { data: result, text: `Print job ${printJobId} is ${result.status}` };
+        },
+    };
+}
+
+/**
+ * Formats the given fields of the items as columns, aligned by padding them with spaces.
+ */
+function formatTable<T extends object>(items: T[], fields: (keyof T & string)[]): string {
+    if (items.length === 0) {
+        return 'Nothing found.';
+    }
+    const rows = [fields, ...items.map((item) => fields.map((field) => {
+        const value: unknown = item[field];
+        return typeof value === 'object' && value !== null ? prettyJSON(value) : `${value === undefined ? '' : value}`;
+    }))];
+    const widths = fields.map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+    return rows.map((row) => row.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
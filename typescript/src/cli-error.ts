@@ -0,0 +1,12 @@
+/**
+ * Thrown by a command of the command-line tool, to exit with the given code after showing the message.
+ */
+export class CliError extends Error {
+    readonly exitCode: number;
+
+    constructor(message: string, exitCode: number) {
+        super(message);
+        this.name = 'CliError';
+        this.exitCode = exitCode;
+    }
+}
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+import { DigitalFactoryApiError } from './api-error';
+import { EXIT_CODES, getFlag, parseArguments } from './cli-arguments';
+import {
+    BOOLEAN_FLAGS, CliCommand, COMMANDS, getExitCode,
+} from './cli-commands';
+import { CallbackAuthenticator, printSignInUrl } from './callback-authenticator';
+import { loadClientOptionsFromEnv } from './client-options';
+import { DeviceCodeAuthenticator, printUserCode } from './device-code-authenticator';
+import { DigitalFactoryDemo } from './digital-factory';
+import { FileTokenStore } from './file-token-store';
+import { MemoryTokenStore } from './memory-token-store';
+import { MockDigitalFactoryServer } from './mock-digital-factory-server';
+import { prettyJSON, print, printToStderr } from './print';
+
+/**
+ * Gets the usage of all commands, or of the commands in the given group, e.g. `jobs`.
+ */
+function getUsage(group?: string): string {
+    const commands = COMMANDS.filter((command) => !group || command.name.split(' ')[0] === group);
+    return [
+        'Usage: df <command> [flags]',
+        '',
+        ...commands.map((command) => `  df ${command.name} ${command.usage}\n      ${command.description}`),
+        '',
+        'Global flags:',
+        '  --json             write the result as JSON, for scripts',
+        '  --config <file>    the env file with the client options (default ../config.env)',
+        '  --mock             run against a local mock of the Digital Factory',
+        '  --verbose          log every API request to stderr',
+        '  --no-browser       do not open the sign-in URL in the browser',
+        '  --help             show this help',
+    ].join('\n');
+}
+
+/**
+ * Finds the command named by the first positional arguments, e.g. `jobs upload`, and removes its name from them.
+ */
+function findCommand(positionals: string[]): CliCommand | null {
+    const command = COMMANDS.find((c) => c.name.split(' ').every((word, i) => positionals[i] === word));
+    if (command) {
+        positionals.splice(0, command.name.split(' ').length);
+    }
+    return command || null;
+}
+
+/**
+ * Runs the command given on the command line and resolves with the exit code.
+ */
+async function main(argv: string[]): Promise<number> {
+    // the results are written to stdout, everything else is printed to stderr
+    printToStderr();
+    const args = parseArguments(argv, BOOLEAN_FLAGS);
+    const group = args.positionals[0];
+    const command = findCommand(args.positionals);
+    if (!command) {
+        process.stdout.write(`${getUsage(COMMANDS.some((c) => c.name.startsWith(`${group} `)) ? group : undefined)}\n`);
+        return args.flags.help ? EXIT_CODES.success : EXIT_CODES.usage;
+    }
+    if (args.flags.help) {
+        process.stdout.write(`Usage: df ${command.name} ${command.usage}\n\n${command.description}\n`);
+        return EXIT_CODES.success;
+    }
+
+    if (args.flags.verbose) {
+        // takes precedence over the LOG_LEVEL in the env file
+        process.env.LOG_LEVEL = 'debug';
+    }
+    const clientOptions = loadClientOptionsFromEnv(getFlag(args, 'config', process.env.DF_CONFIG || '../config.env'));
+    clientOptions.tokenStore = new FileTokenStore();
+    if (args.flags['device-code']) {
+        clientOptions.authenticator = new DeviceCodeAuthenticator({ onUserCode: printUserCode });
+    } else if (!(clientOptions.authenticator instanceof DeviceCodeAuthenticator)) {
+        clientOptions.authenticator = new CallbackAuthenticator({
+            port: clientOptions.callbackPort,
+            openBrowser: !args.flags['no-browser'],
+            onSignInUrl: printSignInUrl,
+        });
+    }
+    let mockServer: MockDigitalFactoryServer = null;
+    if (args.flags.mock) {
+        mockServer = new MockDigitalFactoryServer();
+        const mockUrl = await mockServer.start();
+        clientOptions.apiRootUrl = mockUrl;
+        clientOptions.accountRootUrl = mockUrl;
+        clientOptions.tokenStore = new MemoryTokenStore({ tokenPair: mockServer.issueTokenPair(), timestampMs: Date.now() });
+        print(`Using the mock Digital Factory server at ${mockUrl}`);
+    }
+
+    try {
+        const demo = new DigitalFactoryDemo(clientOptions);
+        if (command.requiresSignIn) {
+            await demo.signIn();
+        }
+        const { data, text, exitCode = EXIT_CODES.success } = await command.run({ demo, clientOptions, args });
+        if (args.flags.json) {
+            process.stdout.write(`${prettyJSON(data)}\n`);
+        } else if (text !== undefined) {
+            process.stdout.write(`${text}\n`);
+        }
+        return exitCode;
+    } finally {
+        await (mockServer && mockServer.stop());
+    }
+}
+
+/**
+ * Exits once everything written to stdout is flushed, which may not have happened yet when it is a pipe.
+ */
+function exit(exitCode: number): void {
+    process.stdout.write('', () => process.exit(exitCode));
+}
+
+main(process.argv.slice(2))
+    .then(exit)
+    .catch((error: unknown) => {
+        // the stack trace is of no use to the user, except for unexpected errors
+        if (error instanceof DigitalFactoryApiError) {
+            console.error(`${error.message} (request ID ${error.requestId})`); // eslint-disable-line no-console
+        } else if (error instanceof Error && getExitCode(error) !== EXIT_CODES.error) {
+            console.error(error.message); // eslint-disable-line no-console
+        } else {
+            console.error(error); // eslint-disable-line no-console
+        }
+        exit(getExitCode(error));
+    });
@@ -0,0 +1,93 @@
+import fetch from 'node-fetch';
+import * as env from 'dotenv';
+import type { Authenticator } from './authenticator';
+import { CallbackAuthenticator, printSignInUrl } from './callback-authenticator';
+import { DeviceCodeAuthenticator, printUserCode } from './device-code-authenticator';
+import {
+    createConsoleLogger, Logger, LogLevel, LOG_LEVELS,
+} from './logger';
+import type { ResponseValidationMode } from './response-schema';
+import type { RetryPolicy } from './retry-policy';
+import type { TokenStore } from './token-store';
+
+export const DEFAULT_API_ROOT_URL = 'https://api.ultimaker.com';
+export const DEFAULT_ACCOUNT_ROOT_URL = 'https://account.ultimaker.com';
+
+/**
+ * The fetch implementation used for all HTTP requests, which may be replaced e.g. to go through a proxy.
+ */
+export type Fetch = typeof fetch;
+
+/**
+ * Describes a single HTTP request to the Digital Factory API, including each retry.
+ */
+export interface RequestInfo {
+    method: string;
+    url: string;
+    // null when the request failed without a response
+    status: number | null;
+    durationMS: number;
+}
+
+/**
+ * Callbacks to observe the client, e.g. to collect metrics.
+ */
+export interface ClientInstrumentation {
+    onRequest?: (request: RequestInfo) => void;
+    onTokenRefresh?: () => void;
+}
+
+/**
+ * The options that may be given to the Digital Factory client.
+ */
+export interface DigitalFactoryClientOptions {
+    clientId: string;
+    scopes: string;
+    // the root URL of the Digital Factory API, e.g. to use a staging environment
+    apiRootUrl?: string;
+    // the root URL of the Ultimaker account (OAuth) server
+    accountRootUrl?: string;
+    // the port of the local callback server of the callback sign-in flow that the demo scripts use
+    callbackPort?: number;
+    fetch?: Fetch;
+    // returns the current time in milliseconds, like Date.now
+    clock?: () => number;
+    tokenStore?: TokenStore;
+    // signs in interactively when there are no usable tokens, e.g. a CallbackAuthenticator; there is no default, so
+    // the client never shows anything itself
+    authenticator?: Authenticator;
+    retryPolicy?: RetryPolicy;
+    instrumentation?: ClientInstrumentation;
+    // how API responses are checked against the models, 'lenient' (log the problems) by default
+    responseValidation?: ResponseValidationMode;
+    // receives the log messages with the secrets redacted, nothing is logged by default
+    logger?: Logger;
+}
+
+/**
+ * Reads the client options from the given env file and the environment variables. The client logs to stderr, at
+ * the `LOG_LEVEL` and in the `LOG_FORMAT` (text or json) of the environment, and signs in with the `AUTH_FLOW`
+ * (callback or device) of the environment, printing the instructions for the user.
+ */
+export function loadClientOptionsFromEnv(envPath = '../config.env'): DigitalFactoryClientOptions {
+    env.config({ path: envPath });
+    const {
+        CLIENT_ID, SCOPES, AUTH_FLOW, API_ROOT_URL, ACCOUNT_ROOT_URL, CALLBACK_SERVER_PORT, RESPONSE_VALIDATION, LOG_LEVEL, LOG_FORMAT,
+    } = process.env;
+    const callbackPort = CALLBACK_SERVER_PORT ? Number(CALLBACK_SERVER_PORT) : undefined;
+    return {
+        clientId: CLIENT_ID,
+        scopes: SCOPES,
+        apiRootUrl: API_ROOT_URL || undefined,
+        accountRootUrl: ACCOUNT_ROOT_URL || undefined,
+        callbackPort,
+        authenticator: AUTH_FLOW === 'device'
+            ? new DeviceCodeAuthenticator({ onUserCode: printUserCode })
+            : new CallbackAuthenticator({ port: callbackPort, onSignInUrl: printSignInUrl }),
+        responseValidation: (RESPONSE_VALIDATION as ResponseValidationMode) || undefined,
+        logger: createConsoleLogger({
+            level: LOG_LEVELS.includes(LOG_LEVEL as LogLevel) ? LOG_LEVEL as LogLevel : 'info',
+            json: LOG_FORMAT === 'json',
+        }),
+    };
+}
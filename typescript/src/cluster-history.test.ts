@@ -0,0 +1,168 @@
+import {
+    mkdtemp, readdir, readFile, rm, writeFile,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import {
+    analyzeUptime, compactSnapshots, DailySummary, DAILY_SUMMARY_DIR, listSnapshots,
+} from './cluster-history';
+
+describe('cluster history', () => {
+    let statusDir: string;
+
+    beforeEach(async () => {
+        statusDir = await mkdtemp(path.join(tmpdir(), 'cluster-history-'));
+    });
+
+    afterEach(() => rm(statusDir, { recursive: true, force: true }));
+
+    /**
+     * Writes a snapshot like the monitor does, with the online status of each cluster.
+     */
+    function writeSnapshot(dateTime: string, clusters: {[clusterId: string]: boolean}): Promise<void> {
+        const file = `${new Date(dateTime).toISOString().replace(/:/g, '-')}-clusters.json`;
+        const statuses = Object.entries(clusters).map(([cluster_id, is_online]) => ({ cluster_id, is_online }));
+        return writeFile(path.join(statusDir, file), JSON.stringify(statuses));
+    }
+
+    /**
+     * Writes a snapshot of a single cluster for each minute from the given time, online or offline.
+     */
+    async function writeMinutes(start: string, statuses: boolean[]): Promise<void> {
+        for (let i = 0; i < statuses.length; i += 1) {
+            await writeSnapshot(new Date(new Date(start).getTime() + i * 60000).toISOString(), { 'cluster-1': statuses[i] });
+        }
+    }
+
+    function analyze(from?: string, to?: string) {
+        return analyzeUptime({ from: from && new Date(from), to: to && new Date(to) }, {
+            statusDir,
+            comparisonFile: path.join(statusDir, 'cluster-monitoring.csv'),
+        });
+    }
+
+    async function readSummary(day: string): Promise<DailySummary> {
+        return JSON.parse(await readFile(path.join(statusDir, DAILY_SUMMARY_DIR, `${day}.json`), 'utf-8'));
+    }
+
+    describe('analyzeUptime', () => {
+        it('calculates the uptime and the mean time to recovery', async () => {
+            await writeMinutes('2021-11-22T10:00:00Z', [true, true, false, false, true, false, false, false, true]);
+            const report = await analyze();
+            expect(report.clusters).toEqual([{
+                clusterId: 'cluster-1',
+                onlineSeconds: 180,
+                offlineSeconds: 300,
+                uptimePercentage: 37.5,
+                outageCount: 2,
+                meanTimeToRecoverySeconds: 150,
+            }]);
+            expect(report.outages).toEqual([
+                {
+                    clusterId: 'cluster-1', start: '2021-11-22T10:02:00.000Z', end: '2021-11-22T10:04:00.000Z', durationSeconds: 120,
+                },
+                {
+                    clusterId: 'cluster-1', start: '2021-11-22T10:05:00.000Z', end: '2021-11-22T10:08:00.000Z', durationSeconds: 180,
+                },
+            ]);
+        });
+
+        it('reports an outage that is still going on without an end', async () => {
+            await writeMinutes('2021-11-22T10:00:00Z', [true, false, false, false]);
+            const report = await analyze();
+            expect(report.outages).toEqual([{
+                clusterId: 'cluster-1', start: '2021-11-22T10:01:00.000Z', end: null, durationSeconds: 120,
+            }]);
+            expect(report.clusters[0].meanTimeToRecoverySeconds).toBeNull();
+        });
+
+        it('ends an outage that is still going on at the end of an earlier period', async () => {
+            await writeMinutes('2021-11-22T10:00:00Z', [true, false, false, false]);
+            const report = await analyze(undefined, '2021-11-22T10:02:00Z');
+            expect(report.outages).toEqual([{
+                clusterId: 'cluster-1', start: '2021-11-22T10:01:00.000Z', end: '2021-11-22T10:02:00.000Z', durationSeconds: 60,
+            }]);
+        });
+
+        it('does not count the time in which the monitor was not running', async () => {
+            await writeMinutes('2021-11-22T10:00:00Z', [true, true]);
+            await writeMinutes('2021-11-22T11:00:00Z', [false, true]);
+            const report = await analyze();
+            // each snapshot is valid for at most five minutes
+            expect(report.clusters[0]).toMatchObject({ onlineSeconds: 360, offlineSeconds: 60, outageCount: 1 });
+        });
+
+        it('clips the intervals to the period, counting an outage that started before it from its start', async () => {
+            await writeMinutes('2021-11-22T10:00:00Z', [true, true, false, false, true, false, false, false, true]);
+            const report = await analyze('2021-11-22T10:03:00Z', '2021-11-22T10:06:00Z');
+            expect(report.clusters[0]).toMatchObject({ onlineSeconds: 60, offlineSeconds: 120, outageCount: 2 });
+            expect(report.outages.map((outage) => [outage.start, outage.end])).toEqual([
+                ['2021-11-22T10:03:00.000Z', '2021-11-22T10:04:00.000Z'],
+                ['2021-11-22T10:05:00.000Z', '2021-11-22T10:06:00.000Z'],
+            ]);
+        });
+
+        it('leaves out the clusters that were not seen in the period', async () => {
+            await writeSnapshot('2021-11-22T10:00:00Z', { 'cluster-1': true, 'cluster-2': true });
+            await writeSnapshot('2021-11-22T10:01:00Z', { 'cluster-1': true, 'cluster-2': true });
+            await writeSnapshot('2021-11-22T10:20:00Z', { 'cluster-1': true });
+            await writeSnapshot('2021-11-22T10:21:00Z', { 'cluster-1': true });
+            const report = await analyze('2021-11-22T10:10:00Z');
+            expect(report.clusters.map((cluster) => cluster.clusterId)).toEqual(['cluster-1']);
+        });
+    });
+
+    describe('compactSnapshots', () => {
+        const now = new Date('2021-11-22T12:00:00Z');
+
+        it('replaces the snapshots before the retention period by a daily summary', async () => {
+            await writeMinutes('2021-11-20T10:00:00Z', [true, false]);
+            await writeMinutes('2021-11-22T10:00:00Z', [false]);
+            const before = await analyze();
+
+            expect(await compactSnapshots({ statusDir, retentionDays: 1, now })).toEqual({ days: ['2021-11-20'], removedSnapshotCount: 2 });
+            expect((await listSnapshots(statusDir)).map((entry) => entry.file)).toEqual(['2021-11-22T10-00-00.000Z-clusters.json']);
+            expect(await readSummary('2021-11-20')).toEqual({
+                date: '2021-11-20',
+                snapshotCount: 2,
+                clusters: {
+                    'cluster-1': {
+                        onlineSeconds: 60,
+                        offlineSeconds: 300,
+                        intervals: [
+                            { start: '2021-11-20T10:00:00.000Z', end: '2021-11-20T10:01:00.000Z', online: true },
+                            { start: '2021-11-20T10:01:00.000Z', end: '2021-11-20T10:06:00.000Z', online: false },
+                        ],
+                    },
+                },
+            });
+            expect(await analyze()).toEqual(before);
+        });
+
+        it('adds snapshots to a day that was compacted before, clipped to the day', async () => {
+            await writeMinutes('2021-11-20T23:58:00Z', [true, false]);
+            await writeMinutes('2021-11-22T10:00:00Z', [true]);
+            await compactSnapshots({ statusDir, retentionDays: 1, now });
+            await writeMinutes('2021-11-20T12:00:00Z', [false, false]);
+
+            expect(await compactSnapshots({ statusDir, retentionDays: 1, now })).toEqual({ days: ['2021-11-20'], removedSnapshotCount: 2 });
+            const summary = await readSummary('2021-11-20');
+            expect(summary.snapshotCount).toBe(4);
+            expect(summary.clusters['cluster-1']).toMatchObject({ onlineSeconds: 60, offlineSeconds: 420 });
+            expect(summary.clusters['cluster-1'].intervals.map(({ start, end, online }) => [start, end, online])).toEqual([
+                ['2021-11-20T12:00:00.000Z', '2021-11-20T12:06:00.000Z', false],
+                ['2021-11-20T23:58:00.000Z', '2021-11-20T23:59:00.000Z', true],
+                ['2021-11-20T23:59:00.000Z', '2021-11-21T00:00:00.000Z', false],
+            ]);
+
+            expect(await compactSnapshots({ statusDir, retentionDays: 1, now })).toEqual({ days: [], removedSnapshotCount: 0 });
+            expect(await readSummary('2021-11-20')).toEqual(summary);
+        });
+
+        it('keeps the newest snapshot, which the monitor compares against', async () => {
+            await writeMinutes('2021-11-20T10:00:00Z', [true, true]);
+            expect(await compactSnapshots({ statusDir, retentionDays: 1, now })).toEqual({ days: ['2021-11-20'], removedSnapshotCount: 1 });
+            expect((await readdir(statusDir)).sort()).toEqual(['2021-11-20T10-01-00.000Z-clusters.json', DAILY_SUMMARY_DIR]);
+        });
+    });
+});
@@ -0,0 +1,412 @@
+import { existsSync } from 'fs';
+import {
+    mkdir, readdir, readFile, unlink, writeFile,
+} from 'fs/promises';
+import type { ClusterStatus } from './monitor-events';
+import { prettyJSON } from './print';
+import { toCsv } from './reports';
+
+/**
+ * A period in which a cluster was continuously online or offline. The times are ISO date strings.
+ */
+export interface StatusInterval {
+    start: string;
+    end: string;
+    online: boolean;
+}
+
+/**
+ * The status of the clusters during one (UTC) day, which replaces the snapshots of that day once they are compacted.
+ */
+export interface DailySummary {
+    date: string;
+    snapshotCount: number;
+    clusters: {[clusterId: string]: {
+        onlineSeconds: number;
+        offlineSeconds: number;
+        intervals: StatusInterval[];
+    }};
+}
+
+/**
+ * A period in which a cluster was offline. Outages that are still going on have no end.
+ */
+export interface OutageWindow {
+    clusterId: string;
+    start: string;
+    end: string | null;
+    durationSeconds: number;
+}
+
+/**
+ * The availability of a single cluster over the analyzed period.
+ */
+export interface ClusterUptime {
+    clusterId: string;
+    onlineSeconds: number;
+    offlineSeconds: number;
+    // between 0 and 100, or null if the cluster was never seen in the period
+    uptimePercentage: number | null;
+    outageCount: number;
+    // the mean duration of the outages that ended, or null if none did
+    meanTimeToRecoverySeconds: number | null;
+}
+
+/**
+ * The number of online clusters per poll, according to the comparison log.
+ */
+export interface FleetSummary {
+    pollCount: number;
+    minOnlineCount: number | null;
+    maxOnlineCount: number | null;
+    averageOnlineCount: number | null;
+}
+
+export interface UptimeReport {
+    from: string | null;
+    to: string | null;
+    clusters: ClusterUptime[];
+    outages: OutageWindow[];
+    fleet: FleetSummary;
+}
+
+/**
+ * The period to analyze. Without a start or end, the period starts at the oldest or ends at the newest data.
+ */
+export interface DateRange {
+    from?: Date;
+    to?: Date;
+}
+
+/**
+ * Where the monitor logs are found and how to interpret them.
+ */
+export interface ClusterHistoryOptions {
+    statusDir?: string;
+    comparisonFile?: string;
+    // a snapshot is assumed to be valid until the next one, but never for longer than this
+    maxSampleGapMS?: number;
+}
+
+/**
+ * The options that may be given when compacting the snapshots.
+ */
+export interface CompactOptions extends ClusterHistoryOptions {
+    // the number of days for which the snapshots are kept, including today
+    retentionDays?: number;
+    now?: Date;
+}
+
+export interface CompactResult {
+    days: string[];
+    removedSnapshotCount: number;
+}
+
+export const DEFAULT_STATUS_DIR = '../cluster-monitoring-logs';
+
+export const DEFAULT_COMPARISON_FILE = '../cluster-monitoring-logs/cluster-monitoring.csv';
+
+export const DEFAULT_MAX_SAMPLE_GAP_MS = 5 * 60000;
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+// The subdirectory of the status directory in which the daily summaries are stored.
+export const DAILY_SUMMARY_DIR = 'daily';
+
+// Matches the snapshot file names written by the monitor, e.g. `2021-11-22T10-15-00.000Z-clusters.json`.
+const SNAPSHOT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2}(?:\.\d+)?)Z-clusters\.json$/;
+
+const DAY_MS = 24 * 60 * 60000;
+
+/**
+ * A snapshot file in the status directory.
+ */
+export interface SnapshotEntry {
+    file: string;
+    dateTime: Date;
+}
+
+/**
+ * Same as a status interval, but with the times in milliseconds to calculate with.
+ */
+interface Interval {
+    startMS: number;
+    endMS: number;
+    online: boolean;
+}
+
+/**
+ * Gets the time a snapshot was taken from its file name, or null if it is not a snapshot.
+ */
+export function parseSnapshotTime(file: string): Date | null {
+    const match = SNAPSHOT_FILE_PATTERN.exec(file);
+    return match && new Date(`${match[1]}T${match[2]}:${match[3]}:${match[4]}Z`);
+}
+
+/**
+ * Lists the snapshot files in the status directory, from old to new.
+ */
+export async function listSnapshots(statusDir = DEFAULT_STATUS_DIR): Promise<SnapshotEntry[]> {
+    if (!existsSync(statusDir)) {
+        return [];
+    }
+    return (await readdir(statusDir))
+        .map((file) => ({ file, dateTime: parseSnapshotTime(file) }))
+        .filter((entry) => entry.dateTime)
+        .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+}
+
+/**
+ * Calculates the uptime, outages and mean time to recovery of each cluster in the given period, from the daily
+ * summaries and the snapshots that were not compacted yet. Outages that started before the period are counted from
+ * its start. The fleet summary is based on the comparison log, which is never compacted.
+ */
+export async function analyzeUptime(range: DateRange = {}, {
+    statusDir = DEFAULT_STATUS_DIR,
+    comparisonFile = DEFAULT_COMPARISON_FILE,
+    maxSampleGapMS = DEFAULT_MAX_SAMPLE_GAP_MS,
+}: ClusterHistoryOptions = {}): Promise<UptimeReport> {
+    const fromMS = range.from ? range.from.getTime() : -Infinity;
+    const toMS = range.to ? range.to.getTime() : Infinity;
+    const intervalsByCluster = new Map<string, Interval[]>();
+    const addIntervals = (clusterId: string, intervals: Interval[]) => {
+        intervalsByCluster.set(clusterId, [...(intervalsByCluster.get(clusterId) || []), ...intervals]);
+    };
+
+    (await readDailySummaries(statusDir, fromMS, toMS)).forEach((summary) => {
+        Object.entries(summary.clusters).forEach(([clusterId, { intervals }]) => addIntervals(clusterId, intervals.map(fromStatusInterval)));
+    });
+    // the snapshot just before and after the period are needed for the intervals at its edges
+    const snapshots = await listSnapshots(statusDir);
+    const firstIndex = Math.max(snapshots.findIndex((entry) => entry.dateTime.getTime() >= fromMS) - 1, 0);
+    const lastIndex = snapshots.findIndex((entry) => entry.dateTime.getTime() > toMS);
+    const snapshotsInRange = snapshots.slice(firstIndex, lastIndex >= 0 ? lastIndex + 1 : snapshots.length);
+    getSnapshotIntervals(await readSnapshots(statusDir, snapshotsInRange), maxSampleGapMS)
+        .forEach((intervals, clusterId) => addIntervals(clusterId, intervals));
+
+    const latestMS = [...intervalsByCluster.values()].flat().reduce((latest, interval) => Math.max(latest, interval.endMS), -Infinity);
+    const clusters: ClusterUptime[] = [];
+    const outages: OutageWindow[] = [];
+    [...intervalsByCluster.keys()].sort().forEach((clusterId) => {
+        const intervals = clipIntervals(mergeIntervals(intervalsByCluster.get(clusterId), maxSampleGapMS), fromMS, toMS);
+        if (intervals.length === 0) {
+            return;
+        }
+        const lastInterval = intervals[intervals.length - 1];
+        const clusterOutages = intervals
+            .filter((interval) => !interval.online)
+            .map((interval) => ({
+                clusterId,
+                start: new Date(interval.startMS).toISOString(),
+                // the cluster is still offline when it did not come back online, it was in the newest data and the
+                // period does not end before that
+                end: interval === lastInterval && interval.endMS >= latestMS && toMS >= latestMS ? null : new Date(interval.endMS).toISOString(),
+                durationSeconds: (interval.endMS - interval.startMS) / 1000,
+            }));
+        const recovered = clusterOutages.filter((outage) => outage.end !== null);
+        const onlineSeconds = sumSeconds(intervals.filter((interval) => interval.online));
+        const offlineSeconds = sumSeconds(intervals.filter((interval) => !interval.online));
+        clusters.push({
+            clusterId,
+            onlineSeconds,
+            offlineSeconds,
+            uptimePercentage: onlineSeconds + offlineSeconds > 0 ? (100 * onlineSeconds) / (onlineSeconds + offlineSeconds) : null,
+            outageCount: clusterOutages.length,
+            meanTimeToRecoverySeconds: recovered.length > 0
+                ? recovered.reduce((total, outage) => total + outage.durationSeconds, 0) / recovered.length
+                : null,
+        });
+        outages.push(...clusterOutages);
+    });
+
+    return {
+        from: range.from ? range.from.toISOString() : null,
+        to: range.to ? range.to.toISOString() : null,
+        clusters,
+        outages: outages.sort((a, b) => a.start.localeCompare(b.start)),
+        fleet: await summarizeComparisonLog(comparisonFile, fromMS, toMS),
+    };
+}
+
+/**
+ * Replaces the snapshots of the days before the retention period by a daily summary per day, so the status
+ * directory does not keep growing. The newest snapshot is always kept, as the monitor compares against it.
+ */
+export async function compactSnapshots({
+    statusDir = DEFAULT_STATUS_DIR,
+    maxSampleGapMS = DEFAULT_MAX_SAMPLE_GAP_MS,
+    retentionDays = DEFAULT_RETENTION_DAYS,
+    now = new Date(),
+}: CompactOptions = {}): Promise<CompactResult> {
+    const cutoffMS = Math.floor(now.getTime() / DAY_MS) * DAY_MS - (retentionDays - 1) * DAY_MS;
+    const snapshots = await listSnapshots(statusDir);
+    const byDay = new Map<string, SnapshotEntry[]>();
+    snapshots
+        .slice(0, -1)
+        .filter((entry) => entry.dateTime.getTime() < cutoffMS)
+        .forEach((entry) => {
+            const day = entry.dateTime.toISOString().slice(0, 10);
+            byDay.set(day, [...(byDay.get(day) || []), entry]);
+        });
+
+    const result: CompactResult = { days: [], removedSnapshotCount: 0 };
+    const days = [...byDay.entries()];
+    for (let i = 0; i < days.length; i += 1) {
+        const [day, entries] = days[i];
+        // the first snapshot of a later day ends the last interval of this day
+        const next = snapshots[snapshots.indexOf(entries[entries.length - 1]) + 1];
+        const dayStartMS = new Date(`${day}T00:00:00Z`).getTime();
+        const intervalsByCluster = getSnapshotIntervals(await readSnapshots(statusDir, [...entries, next]), maxSampleGapMS);
+        const summary = await readDailySummary(statusDir, day) || { date: day, snapshotCount: 0, clusters: {} };
+        summary.snapshotCount += entries.length;
+        intervalsByCluster.forEach((intervals, clusterId) => {
+            const existing = (summary.clusters[clusterId] ? summary.clusters[clusterId].intervals : []).map(fromStatusInterval);
+            const merged = clipIntervals(mergeIntervals([...existing, ...intervals], maxSampleGapMS), dayStartMS, dayStartMS + DAY_MS);
+            summary.clusters[clusterId] = {
+                onlineSeconds: sumSeconds(merged.filter((interval) => interval.online)),
+                offlineSeconds: sumSeconds(merged.filter((interval) => !interval.online)),
+                intervals: merged.map(toStatusInterval),
+            };
+        });
+        await mkdir(`${statusDir}/${DAILY_SUMMARY_DIR}`, { recursive: true });
+        await writeFile(`${statusDir}/${DAILY_SUMMARY_DIR}/${day}.json`, prettyJSON(summary));
+        await Promise.all(entries.map((entry) => unlink(`${statusDir}/${entry.file}`)));
+        result.days.push(day);
+        result.removedSnapshotCount += entries.length;
+    }
+    return result;
+}
+
+/**
+ * Converts the clusters of the report to CSV, with one line per cluster.
+ */
+export function uptimeToCsv(report: UptimeReport, separator = ','): string {
+    return toCsv(report.clusters, separator);
+}
+
+/**
+ * Converts the outages of the report to CSV, with one line per outage.
+ */
+export function outagesToCsv(report: UptimeReport, separator = ','): string {
+    return toCsv(report.outages, separator);
+}
+
+/**
+ * Converts the snapshots to intervals per cluster. Each snapshot is valid until the next snapshot, with a maximum
+ * of the given gap, so periods in which the monitor was not running are left out. The newest snapshot has an empty
+ * interval, which still tells its status.
+ */
+function getSnapshotIntervals(snapshots: { dateTime: Date, clusters: ClusterStatus[] }[], maxSampleGapMS: number): Map<string, Interval[]> {
+    const intervalsByCluster = new Map<string, Interval[]>();
+    snapshots.forEach(({ dateTime, clusters }, i) => {
+        const startMS = dateTime.getTime();
+        const endMS = i + 1 < snapshots.length ? Math.min(snapshots[i + 1].dateTime.getTime(), startMS + maxSampleGapMS) : startMS;
+        clusters.forEach((cluster) => {
+            const interval = { startMS, endMS, online: cluster.is_online };
+            intervalsByCluster.set(cluster.cluster_id, [...(intervalsByCluster.get(cluster.cluster_id) || []), interval]);
+        });
+    });
+    return intervalsByCluster;
+}
+
+/**
+ * Sorts the intervals and joins the neighbouring intervals with the same status, unless there is a larger gap
+ * between them than the given maximum.
+ */
+function mergeIntervals(intervals: Interval[], maxSampleGapMS: number): Interval[] {
+    const merged: Interval[] = [];
+    [...intervals].sort((a, b) => a.startMS - b.startMS).forEach((interval) => {
+        const last = merged[merged.length - 1];
+        if (last && last.online === interval.online && interval.startMS - last.endMS <= maxSampleGapMS) {
+            last.endMS = Math.max(last.endMS, interval.endMS);
+        } else if (last && interval.startMS < last.endMS) {
+            // a status change in an overlapping interval ends the previous one
+            last.endMS = interval.startMS;
+            merged.push({ ...interval });
+        } else {
+            merged.push({ ...interval });
+        }
+    });
+    return merged;
+}
+
+function clipIntervals(intervals: Interval[], fromMS: number, toMS: number): Interval[] {
+    return intervals
+        .filter((interval) => interval.endMS >= fromMS && interval.startMS <= toMS)
+        .map((interval) => ({ ...interval, startMS: Math.max(interval.startMS, fromMS), endMS: Math.min(interval.endMS, toMS) }))
+        .filter((interval, i, all) => interval.endMS > interval.startMS || i === all.length - 1);
+}
+
+function sumSeconds(intervals: Interval[]): number {
+    return intervals.reduce((total, interval) => total + (interval.endMS - interval.startMS), 0) / 1000;
+}
+
+function fromStatusInterval({ start, end, online }: StatusInterval): Interval {
+    return { startMS: new Date(start).getTime(), endMS: new Date(end).getTime(), online };
+}
+
+function toStatusInterval({ startMS, endMS, online }: Interval): StatusInterval {
+    return { start: new Date(startMS).toISOString(), end: new Date(endMS).toISOString(), online };
+}
+
+/**
+ * Reads the snapshots one by one, as there may be many, keeping only the online status of the clusters.
+ */
+async function readSnapshots(statusDir: string, entries: SnapshotEntry[]): Promise<{ dateTime: Date, clusters: ClusterStatus[] }[]> {
+    const snapshots = [];
+    for (let i = 0; i < entries.length; i += 1) {
+        if (entries[i]) {
+            const clusters: ClusterStatus[] = JSON.parse(await readFile(`${statusDir}/${entries[i].file}`, 'utf-8'));
+            snapshots.push({
+                dateTime: entries[i].dateTime,
+                clusters: clusters.map(({ cluster_id, is_online }) => ({ cluster_id, is_online })),
+            });
+        }
+    }
+    return snapshots;
+}
+
+async function readDailySummary(statusDir: string, day: string): Promise<DailySummary | null> {
+    const file = `${statusDir}/${DAILY_SUMMARY_DIR}/${day}.json`;
+    return existsSync(file) ? JSON.parse(await readFile(file, 'utf-8')) : null;
+}
+
+/**
+ * Reads the daily summaries of the days that overlap the period.
+ */
+async function readDailySummaries(statusDir: string, fromMS: number, toMS: number): Promise<DailySummary[]> {
+    const summaryDir = `${statusDir}/${DAILY_SUMMARY_DIR}`;
+    if (!existsSync(summaryDir)) {
+        return [];
+    }
+    const days = (await readdir(summaryDir))
+        .filter((file) => /^\d{4}-\d{2}-\d{2}\.json$/.test(file))
+        .map((file) => file.slice(0, 10))
+        .filter((day) => {
+            const dayStartMS = new Date(`${day}T00:00:00Z`).getTime();
+            return dayStartMS + DAY_MS > fromMS && dayStartMS <= toMS;
+        });
+    return Promise.all(days.map((day) => readDailySummary(statusDir, day)));
+}
+
+/**
+ * Summarizes the online counts of the polls in the comparison log (`dateTime;appeared;gone;onlineCount;offlineCount`).
+ */
+async function summarizeComparisonLog(comparisonFile: string, fromMS: number, toMS: number): Promise<FleetSummary> {
+    const onlineCounts = existsSync(comparisonFile) ? (await readFile(comparisonFile, 'utf-8'))
+        .split('\n')
+        .map((line) => line.split(';'))
+        .filter((fields) => fields.length >= 5)
+        .filter((fields) => {
+            const dateTimeMS = new Date(fields[0]).getTime();
+            return dateTimeMS >= fromMS && dateTimeMS <= toMS;
+        })
+        .map((fields) => Number(fields[3])) : [];
+    // the log may have too many lines to spread them into Math.min() and Math.max()
+    return {
+        pollCount: onlineCounts.length,
+        minOnlineCount: onlineCounts.length > 0 ? onlineCounts.reduce((min, count) => Math.min(min, count)) : null,
+        maxOnlineCount: onlineCounts.length > 0 ? onlineCounts.reduce((max, count) => Math.max(max, count)) : null,
+        averageOnlineCount: onlineCounts.length > 0 ? onlineCounts.reduce((total, count) => total + count, 0) / onlineCounts.length : null,
+    };
+}
@@ -0,0 +1,220 @@
+import { createWriteStream, existsSync } from 'fs';
+import {
+    mkdir, readdir, readFile, writeFile,
+} from 'fs/promises';
+import { DigitalFactoryDemo } from './digital-factory';
+import { DigitalFactoryClientOptions, loadClientOptionsFromEnv } from './client-options';
+import { prettyJSON, print } from './print';
+import { loadAlertManager } from './alert-config';
+import { MetricsExporter } from './metrics-exporter';
+import { compactSnapshots, DEFAULT_RETENTION_DAYS } from './cluster-history';
+import { createRedactingLogger, Logger, silentLogger } from './logger';
+import {
+    ClusterStatus, diffClusterStatus, getEndedPrintJobIds, PrintJobStatus,
+} from './monitor-events';
+
+/**
+ * Describes the comparison between two lists of clusters.
+ */
+interface Comparison {
+    dateTime: string;
+    appeared: string[];
+    gone: string[];
+    onlineCount: number;
+    offlineCount: number;
+}
+
+/**
+ * The options that may be given to the cluster monitor.
+ */
+export interface MonitorClustersOptions {
+    // the options of the client, read from the env file by default
+    clientOptions?: DigitalFactoryClientOptions;
+    comparisonFile?: string;
+    eventsFile?: string;
+    alertConfigFile?: string;
+    statusDir?: string;
+    waitMS?: number;
+    // when given, the metrics are served in Prometheus format on this port
+    metricsPort?: number;
+    // the snapshots of older days are compacted into daily summaries
+    retentionDays?: number;
+}
+
+/**
+ * Gets the previous cluster status from the status log directory. Ensures that the directory actually exists.
+ */
+async function getPreviousClusterStatus(statusDir: string): Promise<ClusterStatus[] | null> {
+    if (!existsSync(statusDir)) {
+        await mkdir(statusDir, { recursive: true });
+        return null;
+    }
+    const existingFiles = await readdir(statusDir);
+    const lastFile = existingFiles.filter((file) => file.endsWith('.json')).sort((a, b) => b.localeCompare(a))[0];
+    return lastFile && JSON.parse(await readFile(`${statusDir}/${lastFile}`, 'utf-8'));
+}
+
+/**
+ * Compares two lists of cluster statuses.
+ */
+function compareResults(previous: ClusterStatus[], current: ClusterStatus[], dateTime: Date): Comparison {
+    const getOnlineClusterIds = (clusters: ClusterStatus[]): Set<string> => new Set<string>(
+        clusters.filter((cluster) => cluster.is_online).map((cluster) => cluster.cluster_id),
+    );
+    const previousOnlineIds = getOnlineClusterIds(previous);
+    const currentOnlineIds = getOnlineClusterIds(current);
+    return {
+        dateTime: dateTime.toISOString(),
+        appeared: [...currentOnlineIds].filter((id) => !previousOnlineIds.has(id)),
+        gone: [...previousOnlineIds].filter((id) => !currentOnlineIds.has(id)),
+        onlineCount: currentOnlineIds.size,
+        offlineCount: current.length - currentOnlineIds.size,
+    };
+}
+
+/**
+ * Adds the printers and active print jobs to each online cluster. When these cannot be fetched for a cluster, they
+ * are left out, so that cluster is skipped when comparing printers and print jobs.
+ */
+async function getClusterStatus(demo: DigitalFactoryDemo, clusters: ClusterStatus[], logger: Logger): Promise<ClusterStatus[]> {
+    return Promise.all(clusters.map(async (cluster) => {
+        if (!cluster.is_online) {
+            return cluster;
+        }
+        try {
+            const [printers, printJobs] = await Promise.all([
+                demo.getClusterPrinters(cluster.cluster_id),
+                demo.listPrintJobs({ clusterId: cluster.cluster_id, status: 'in_progress' }).toArray(),
+            ]);
+            return { ...cluster, printers, print_jobs: printJobs };
+        } catch (ex) {
+            logger.error(`Fetching the printers and print jobs of cluster ${cluster.cluster_id} failed`, { error: ex });
+            return cluster;
+        }
+    }));
+}
+
+/**
+ * Gets the final status of print jobs that are no longer active. Print jobs that cannot be fetched are left out.
+ */
+async function getEndedPrintJobs(demo: DigitalFactoryDemo, printJobIds: string[]): Promise<Map<string, PrintJobStatus>> {
+    const printJobs = await Promise.all(printJobIds.map((id) => demo.getPrintJob(id).catch((): PrintJobStatus => null)));
+    return new Map(printJobs.filter(Boolean).map((printJob) => [printJob.uuid, printJob]));
+}
+
+/**
+ * Creates a CSV line from the given comparison.
+ */
+function csvLine(comparison: Comparison, separator = ';'): string {
+    const fields: (keyof Comparison)[] = ['dateTime', 'appeared', 'gone', 'onlineCount', 'offlineCount'];
+    return fields.map((field) => comparison[field]).join(separator);
+}
+
+/**
+ * Returns a promise that waits for the given amount of milliseconds, with abort support.
+ */
+function awaitAsync(waitMS: number, abortSignal: AbortSignal, logger: Logger): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            logger.info('Aborting the monitoring...');
+            resolve();
+        };
+        abortSignal.addEventListener('abort', onAbort);
+        setTimeout(() => {
+            abortSignal.removeEventListener('abort', onAbort);
+            resolve();
+        }, waitMS);
+    });
+}
+
+/**
+ * Gets all clusters with their printers and print jobs from the API periodically, writing the response to a JSON
+ * file, the comparisons to a CSV file & the detected changes as events to a JSON Lines file. Alerts are sent
+ * according to the alerting configuration file, if it exists, and the metrics are exported when a port is given.
+ */
+export async function monitorClusters({
+    clientOptions = loadClientOptionsFromEnv(),
+    comparisonFile = '../cluster-monitoring-logs/cluster-monitoring.csv',
+    eventsFile = '../cluster-monitoring-logs/cluster-monitoring-events.jsonl',
+    alertConfigFile = '../alerting.json',
+    waitMS = 60000,
+    statusDir = '../cluster-monitoring-logs',
+    metricsPort,
+    retentionDays = DEFAULT_RETENTION_DAYS,
+}: MonitorClustersOptions = {}): Promise<void> {
+    const abort = new AbortController();
+    process.on('SIGINT', () => abort.abort());
+    // the errors of the requests may contain signed URLs, which are redacted like in the messages of the client
+    const logger = createRedactingLogger(clientOptions.logger || silentLogger);
+
+    const exporter = metricsPort === undefined ? null : new MetricsExporter();
+    const demo = new DigitalFactoryDemo({
+        ...clientOptions,
+        ...(exporter && { instrumentation: exporter.instrumentation }),
+    });
+    if (exporter) {
+        print(`Serving metrics on http://localhost:${await exporter.listen(metricsPort)}/metrics\n`);
+    }
+    await demo.signIn();
+    print('Sign in completed.\n');
+
+    let previous = await getPreviousClusterStatus(statusDir);
+    const stream = createWriteStream(comparisonFile, { flags: 'a' });
+    const eventStream = createWriteStream(eventsFile, { flags: 'a' });
+    const alertManager = await loadAlertManager(alertConfigFile, logger);
+    let compactedDay: string = null;
+
+    try {
+        /* eslint-disable no-await-in-loop */
+        while (!abort.signal.aborted) {
+            print('Retrieving clusters...');
+            let clusters: ClusterStatus[] = null;
+            try {
+                clusters = await getClusterStatus(demo, await demo.getClusters(), logger);
+            } catch (ex) {
+                logger.error('Fetching the clusters failed', { error: ex });
+                exporter && exporter.recordPollError(); // eslint-disable-line no-unused-expressions
+            }
+            const dateTime = new Date();
+            if (clusters) {
+                print(`Found ${clusters.length} clusters\n`);
+                exporter && exporter.updateClusters(clusters, dateTime); // eslint-disable-line no-unused-expressions
+                try {
+                    const logFile = `${statusDir}/${dateTime.toISOString().replace(/:/g, '-')}-clusters.json`;
+                    await writeFile(logFile, prettyJSON(clusters));
+                    if (previous) {
+                        const comparison = compareResults(previous, clusters, dateTime);
+                        stream.write(`${csvLine(comparison)}\n`);
+                        print(`Comparison resulted in ${prettyJSON(comparison)}\n`);
+
+                        const endedPrintJobs = await getEndedPrintJobs(demo, getEndedPrintJobIds(previous, clusters));
+                        const events = diffClusterStatus(previous, clusters, dateTime, endedPrintJobs);
+                        events.forEach((event) => eventStream.write(`${JSON.stringify(event)}\n`));
+                        exporter && exporter.recordEvents(events); // eslint-disable-line no-unused-expressions
+                        print(`Detected ${events.length} events\n`);
+                    }
+                } catch (ex) {
+                    logger.error('Storing the cluster data failed', { error: ex });
+                }
+                previous = clusters;
+            }
+            await (alertManager && alertManager.observe({ dateTime, clusters }));
+
+            // compact once a day, so the status directory does not keep growing; a local disk problem is no poll error
+            if (compactedDay !== dateTime.toISOString().slice(0, 10)) {
+                compactedDay = dateTime.toISOString().slice(0, 10);
+                try {
+                    const { removedSnapshotCount } = await compactSnapshots({ statusDir, retentionDays, now: dateTime });
+                    print(`Compacted ${removedSnapshotCount} old snapshots into daily summaries\n`);
+                } catch (ex) {
+                    logger.error('Compacting the old snapshots failed', { error: ex });
+                }
+            }
+            await awaitAsync(waitMS, abort.signal, logger);
+        }
+    } finally {
+        stream.end();
+        eventStream.end();
+        await (exporter && exporter.close());
+    }
+}
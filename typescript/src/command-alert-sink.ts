@@ -0,0 +1,61 @@
+import { spawn } from 'child_process';
+import { AlertNotification, AlertSink, DEFAULT_SINK_TIMEOUT_MS } from './alert';
+
+/**
+ * Runs a command for every notification. The notification is written as JSON to its standard input, and the most
+ * important fields are available as the ALERT_STATE, ALERT_KEY, ALERT_SEVERITY and ALERT_MESSAGE environment variables.
+ * A command that is still running after the timeout is killed.
+ */
+export class CommandAlertSink implements AlertSink {
+    readonly name: string;
+
+    private readonly _command: string;
+
+    private readonly _args: string[];
+
+    private readonly _timeoutMS: number;
+
+    constructor(command: string, args: string[] = [], timeoutMS = DEFAULT_SINK_TIMEOUT_MS) {
+        this.name = `command ${command}`;
+        this._command = command;
+        this._args = args;
+        this._timeoutMS = timeoutMS;
+    }
+
+    send(notification: AlertNotification): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(this._command, this._args, {
+                env: {
+                    ...process.env,
+                    ALERT_STATE: notification.state,
+                    ALERT_KEY: notification.alert.key,
+                    ALERT_SEVERITY: notification.alert.severity,
+                    ALERT_MESSAGE: notification.alert.message,
+                },
+                stdio: ['pipe', 'inherit', 'inherit'],
+            });
+            let timedOut = false;
+            const timeout = setTimeout(() => {
+                timedOut = true;
+                child.kill('SIGKILL');
+            }, this._timeoutMS);
+            child.on('error', (error) => {
+                clearTimeout(timeout);
+                reject(error);
+            });
+            child.on('close', (code) => {
+                clearTimeout(timeout);
+                if (timedOut) {
+                    reject(new Error(`${this._command} did not finish within ${this._timeoutMS}ms and was killed`));
+                } else if (code === 0) {
+                    resolve();
+                } else {
+                    reject(new Error(`${this._command} exited with code ${code}`));
+                }
+            });
+            // commands that don't read the notification may close their input before it is written
+            child.stdin.on('error', () => undefined);
+            child.stdin.end(JSON.stringify(notification));
+        });
+    }
+}
@@ -0,0 +1,58 @@
+import fetch, { Response } from 'node-fetch';
+import { OAuthClientConfig, OAuthError } from './authenticator';
+import type { Fetch } from './client-options';
+import { DeviceAuthorizationResponse, DeviceCodeAuthenticator } from './device-code-authenticator';
+import { MockDigitalFactoryServer } from './mock-digital-factory-server';
+
+describe('DeviceCodeAuthenticator', () => {
+    let server: MockDigitalFactoryServer;
+    let url: string;
+
+    beforeEach(async () => {
+        server = new MockDigitalFactoryServer();
+        url = await server.start();
+    });
+
+    afterEach(() => server.stop());
+
+    /**
+     * Answers the first token requests with the given OAuth errors, as the server does until the user has signed in.
+     */
+    function rejectFirstTokenRequests(...errors: string[]): Fetch {
+        return ((requestUrl, init) => {
+            const error = `${requestUrl}`.endsWith('/token') && errors.shift();
+            return error ? Promise.resolve(new Response(JSON.stringify({ error }), { status: 400 })) : fetch(requestUrl, init);
+        }) as Fetch;
+    }
+
+    function createConfig(configFetch: Fetch = fetch): OAuthClientConfig {
+        return {
+            oauthServerUrl: url,
+            clientId: 'test',
+            scopes: '',
+            fetch: configFetch,
+        };
+    }
+
+    it('shows the user code and signs in once the token is issued', async () => {
+        let authorization: DeviceAuthorizationResponse = null;
+        const authenticator = new DeviceCodeAuthenticator({ onUserCode: (response) => { authorization = response; } });
+        const tokenPair = await authenticator.authenticate(createConfig());
+        expect(authorization.user_code).toBe('MOCK-CODE');
+        expect(tokenPair.access_token).toBeTruthy();
+        expect(tokenPair.refresh_token).toBeTruthy();
+    });
+
+    it('keeps polling while the authorization is pending', async () => {
+        const authenticator = new DeviceCodeAuthenticator({ onUserCode: () => {} });
+        const tokenPair = await authenticator.authenticate(createConfig(rejectFirstTokenRequests('authorization_pending')));
+        expect(tokenPair.access_token).toBeTruthy();
+    });
+
+    it('rejects when the user denies the sign-in', async () => {
+        const authenticator = new DeviceCodeAuthenticator({ onUserCode: () => {} });
+        const error = await authenticator.authenticate(createConfig(rejectFirstTokenRequests('access_denied'))).catch((ex) => ex);
+        expect(error).toBeInstanceOf(OAuthError);
+        expect(error.error).toBe('access_denied');
+    });
+});
@@ -0,0 +1,105 @@
+import {
+    Authenticator, OAuthClientConfig, OAuthError, requestToken,
+} from './authenticator';
+import type { TokenResponse } from './digital-factory';
+import { print } from './print';
+import { sleep } from './sleep';
+
+/**
+ * The response of the device authorization endpoint, see RFC 8628 section 3.2.
+ */
+export interface DeviceAuthorizationResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+}
+
+/**
+ * The options that may be given to the device code authenticator.
+ */
+export interface DeviceCodeAuthenticatorOptions {
+    // the path of the device authorization endpoint on the OAuth server
+    deviceAuthorizationPath?: string;
+    // called with the code the user needs to enter, e.g. printUserCode; the authenticator shows nothing itself
+    onUserCode: (authorization: DeviceAuthorizationResponse) => void;
+}
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// The polling interval in seconds when the server does not specify one.
+const DEFAULT_POLL_INTERVAL = 5;
+
+/**
+ * Signs in with the OAuth device authorization flow, for machines without a browser. The user enters a short code
+ * on any other device while this process polls the token endpoint until the sign-in is finished.
+ */
+export class DeviceCodeAuthenticator implements Authenticator {
+    private readonly _deviceAuthorizationPath: string;
+
+    private readonly _onUserCode: (authorization: DeviceAuthorizationResponse) => void;
+
+    constructor({
+        deviceAuthorizationPath = '/device/code',
+        onUserCode,
+    }: DeviceCodeAuthenticatorOptions) {
+        this._deviceAuthorizationPath = deviceAuthorizationPath;
+        this._onUserCode = onUserCode;
+    }
+
+    async authenticate(config: OAuthClientConfig): Promise<TokenResponse> {
+        const authorization = await this._requestDeviceAuthorization(config);
+        this._onUserCode(authorization);
+
+        const expiresAtMs = Date.now() + authorization.expires_in * 1000;
+        let intervalMs = (authorization.interval || DEFAULT_POLL_INTERVAL) * 1000;
+        while (Date.now() < expiresAtMs) {
+            await sleep(intervalMs);
+            try {
+                return await requestToken(config, {
+                    grant_type: DEVICE_CODE_GRANT_TYPE,
+                    device_code: authorization.device_code,
+                });
+            } catch (ex) {
+                if (!(ex instanceof OAuthError)) {
+                    throw ex;
+                }
+                if (ex.error === 'slow_down') {
+                    intervalMs += DEFAULT_POLL_INTERVAL * 1000;
+                } else if (ex.error !== 'authorization_pending') {
+                    throw ex;
+                }
+            }
+        }
+        throw new OAuthError(400, { error: 'expired_token', error_description: 'The device code expired before the sign-in was completed' });
+    }
+
+    private async _requestDeviceAuthorization(config: OAuthClientConfig): Promise<DeviceAuthorizationResponse> {
+        const response = await config.fetch(`${config.oauthServerUrl}${this._deviceAuthorizationPath}`, {
+            method: 'POST',
+            body: new URLSearchParams({
+                client_id: config.clientId,
+                scope: config.scopes,
+            }),
+        });
+        const body = await response.json();
+        if (!response.ok) {
+            throw new OAuthError(response.status, body.error ? body : { error: `http_${response.status}` });
+        }
+        return body;
+    }
+}
+
+/**
+ * Prints the instructions to enter the user code, for command-line programs.
+ */
+export function printUserCode(authorization: DeviceAuthorizationResponse): void {
+    print('To sign in to Ultimaker Digital Factory, open the following URL on any device:');
+    print('');
+    print(`    ${authorization.verification_uri}`);
+    print('');
+    print(`and enter the code: ${authorization.user_code}`);
+    print('');
+}
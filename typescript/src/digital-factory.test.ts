@@ -0,0 +1,280 @@
+import fetch, { Response } from 'node-fetch';
+import { ActionFailedError } from './action-failed-error';
+import { DigitalFactoryApiError } from './api-error';
+import type { DigitalFactoryClientOptions, Fetch, RequestInfo } from './client-options';
+import { DigitalFactoryDemo } from './digital-factory';
+import { silentLogger } from './logger';
+import { MemoryTokenStore } from './memory-token-store';
+import { MockDigitalFactoryServer } from './mock-digital-factory-server';
+import { PrinterOfflineError } from './printer-offline-error';
+import { ResponseValidationError } from './response-validation-error';
+import { signInToMock } from './test-helpers';
+
+// Retries without waiting, so the tests do not need to wait for the backoff.
+const FAST_RETRY_POLICY = { maxRetries: 2, baseDelayMS: 1, maxDelayMS: 1 };
+
+// Polls the action status without waiting.
+const FAST_POLL_OPTIONS = { backoff: { initialDelayMS: 1, maxDelayMS: 1, factor: 1 } };
+
+describe('DigitalFactoryDemo', () => {
+    let server: MockDigitalFactoryServer;
+    let requests: RequestInfo[];
+    let tokenRefreshes: number;
+
+    beforeEach(async () => {
+        server = new MockDigitalFactoryServer();
+        await server.start();
+        requests = [];
+        tokenRefreshes = 0;
+    });
+
+    afterEach(() => server.stop());
+
+    /**
+     * Creates a client of the mock server that records its requests and token refreshes.
+     */
+    function signIn(options: Partial<DigitalFactoryClientOptions> = {}): Promise<DigitalFactoryDemo> {
+        return signInToMock(server, {
+            retryPolicy: FAST_RETRY_POLICY,
+            instrumentation: {
+                onRequest: (request) => requests.push(request),
+                onTokenRefresh: () => { tokenRefreshes += 1; },
+            },
+            ...options,
+        });
+    }
+
+    /**
+     * Responds to the first requests with the given statuses and a body that is not JSON, like a proxy would, and
+     * passes the other requests on to the mock server.
+     */
+    function failFirstRequests(...statuses: number[]): Fetch {
+        return ((requestUrl, init) => {
+            const status = statuses.shift();
+            return status ? Promise.resolve(new Response('Bad gateway', { status })) : fetch(requestUrl, init);
+        }) as Fetch;
+    }
+
+    describe('retries', () => {
+        it('retries a failed GET request until it succeeds', async () => {
+            const demo = await signIn({ fetch: failFirstRequests(502, 503) });
+            const clusters = await demo.getClusters();
+            expect(clusters.map((cluster) => cluster.cluster_id)).toEqual(['mock-cluster-1', 'mock-cluster-2']);
+            expect(requests.map((request) => request.status)).toEqual([502, 503, 200]);
+        });
+
+        it('gives up after the maximum number of retries', async () => {
+            const demo = await signIn({ fetch: failFirstRequests(500, 500, 500) });
+            const error = await demo.getClusters().catch((ex) => ex);
+            expect(error).toBeInstanceOf(DigitalFactoryApiError);
+            expect(error.status).toBe(500);
+            expect(requests).toHaveLength(3);
+        });
+
+        it('does not retry a failed POST request, which may have been processed', async () => {
+            const demo = await signIn({ fetch: failFirstRequests(502) });
+            await expect(demo.submitPrintJob('job-id', 'mock-cluster-1')).rejects.toThrow(DigitalFactoryApiError);
+            expect(requests).toHaveLength(1);
+            expect(server.printJobs).toHaveLength(0);
+        });
+
+        it('does not retry a failed PUT request, which creates a resource', async () => {
+            const demo = await signIn({ fetch: failFirstRequests(502) });
+            await expect(demo.createProject('Once')).rejects.toThrow(DigitalFactoryApiError);
+            expect(requests).toHaveLength(1);
+            expect(server.projects.size).toBe(0);
+        });
+
+        it('retries a rate limited POST request', async () => {
+            const demo = await signIn();
+            const project = await demo.createProject('Retries');
+            const job = await demo.uploadFileToProject(project.library_project_id, Buffer.from('G28\n'), { fileName: 'cube.gcode' });
+            requests = [];
+            const retrying = await signIn({ fetch: failFirstRequests(429) });
+            await retrying.submitPrintJob(job.job_id, 'mock-cluster-1');
+            expect(requests.map((request) => request.status)).toEqual([429, 200]);
+            expect(server.printJobs).toHaveLength(1);
+        });
+    });
+
+    describe('tokens', () => {
+        it('refreshes the token and retries once when a request is unauthorized', async () => {
+            const demo = await signIn();
+            server.expireAccessTokens();
+            await demo.getClusters();
+            expect(tokenRefreshes).toBe(1);
+            expect(requests.map((request) => request.status)).toEqual([401, 200]);
+        });
+
+        it('shares one refresh between concurrent unauthorized requests', async () => {
+            const demo = await signIn();
+            server.expireAccessTokens();
+            await Promise.all([demo.getClusters(), demo.getRunningPrintJobs(), demo.getClusterPrinters('mock-cluster-1')]);
+            expect(tokenRefreshes).toBe(1);
+        });
+
+        it('shares one refresh between concurrent requests with an expired token', async () => {
+            let nowMS = Date.now();
+            const demo = await signIn({ clock: () => nowMS });
+            nowMS += 2 * 3600 * 1000;
+            await Promise.all([demo.getClusters(), demo.getRunningPrintJobs(), demo.getClusterPrinters('mock-cluster-1')]);
+            expect(tokenRefreshes).toBe(1);
+        });
+
+        it('refreshes an expired token before the request', async () => {
+            const tokenStore = new MemoryTokenStore({ tokenPair: server.issueTokenPair(), timestampMs: Date.now() - 2 * 3600 * 1000 });
+            const demo = await signIn({ tokenStore });
+            await demo.getClusters();
+            expect(tokenRefreshes).toBe(1);
+            expect(requests.map((request) => request.status)).toEqual([200]);
+            expect((await tokenStore.load()).timestampMs).toBeGreaterThan(Date.now() - 60000);
+        });
+
+        it('keeps the stored tokens when the account server fails', async () => {
+            const tokenPair = server.issueTokenPair();
+            const tokenStore = new MemoryTokenStore({ tokenPair, timestampMs: Date.now() - 2 * 3600 * 1000 });
+            const failingFetch = ((requestUrl, init) => (`${requestUrl}`.endsWith('/token')
+                ? Promise.resolve(new Response(JSON.stringify({ error: 'server_error' }), { status: 503 }))
+                : fetch(requestUrl, init))) as Fetch;
+            await expect(signIn({ tokenStore, fetch: failingFetch })).rejects.toMatchObject({ status: 503, error: 'server_error' });
+            expect((await tokenStore.load()).tokenPair).toEqual(tokenPair);
+        });
+
+        it('requires an authenticator to sign in without stored tokens', async () => {
+            await expect(signIn({ tokenStore: new MemoryTokenStore() })).rejects.toMatchObject({ status: 401, error: 'sign_in_required' });
+        });
+
+        it('signs in again when the stored refresh token is rejected', async () => {
+            const tokenStore = new MemoryTokenStore({
+                tokenPair: { ...server.issueTokenPair(), refresh_token: 'unknown' },
+                timestampMs: Date.now() - 2 * 3600 * 1000,
+            });
+            const tokenPair = server.issueTokenPair();
+            const demo = await signIn({ tokenStore, authenticator: { authenticate: async () => tokenPair } });
+            await demo.getClusters();
+            expect((await tokenStore.load()).tokenPair).toEqual(tokenPair);
+        });
+    });
+
+    describe('cluster actions', () => {
+        /**
+         * Submits the given number of print jobs to the first mock cluster, which prints the first and queues the others.
+         */
+        async function submitPrintJobs(demo: DigitalFactoryDemo, count: number): Promise<string[]> {
+            const project = await demo.createProject('Actions');
+            const job = await demo.uploadFileToProject(project.library_project_id, Buffer.from('G28\n'), { fileName: 'cube.gcode' });
+            const printJobIds = [];
+            for (let i = 0; i < count; i += 1) {
+                printJobIds.push((await demo.submitPrintJob(job.job_id, 'mock-cluster-1')).job_instance_uuid);
+            }
+            return printJobIds;
+        }
+
+        it('pauses, resumes and aborts a print job, and confirms the build plate was cleared', async () => {
+            const demo = await signIn();
+            const [printJobId] = await submitPrintJobs(demo, 1);
+            expect(await demo.pausePrintJob('mock-cluster-1', printJobId, FAST_POLL_OPTIONS)).toEqual({ cluster_job_id: printJobId, status: 'paused' });
+            expect((await demo.resumePrintJob('mock-cluster-1', printJobId, FAST_POLL_OPTIONS)).status).toBe('in_progress');
+            expect((await demo.abortPrintJob('mock-cluster-1', printJobId, FAST_POLL_OPTIONS)).status).toBe('aborted');
+            expect(await demo.confirmBuildPlateCleared('mock-cluster-1', 'mock-printer-1', FAST_POLL_OPTIONS))
+                .toEqual({ printer_id: 'mock-printer-1', status: 'idle' });
+        });
+
+        it('moves, starts and removes queued print jobs', async () => {
+            const demo = await signIn();
+            const [, second, third, fourth] = await submitPrintJobs(demo, 4);
+            expect(await demo.movePrintJobInQueue('mock-cluster-1', fourth, 0, FAST_POLL_OPTIONS))
+                .toEqual({ cluster_job_id: fourth, status: 'queued', queue_position: 0 });
+            expect((await demo.removePrintJobFromQueue('mock-cluster-1', third, FAST_POLL_OPTIONS)).status).toBe('deleted');
+            expect((await demo.forceStartPrintJob('mock-cluster-1', second, FAST_POLL_OPTIONS)).status).toBe('in_progress');
+            expect(server.printJobs.filter((printJob) => printJob.status === 'queued').map((printJob) => printJob.uuid)).toEqual([fourth]);
+        });
+
+        it('rejects with the reason when the printer refuses the action', async () => {
+            const demo = await signIn();
+            const [printJobId] = await submitPrintJobs(demo, 1);
+            const error = await demo.resumePrintJob('mock-cluster-1', printJobId, FAST_POLL_OPTIONS).catch((ex) => ex);
+            expect(error).toBeInstanceOf(ActionFailedError);
+            expect(error.message).toBe(`The resume of print job ${printJobId} was rejected: The print job is not paused`);
+            await expect(demo.confirmBuildPlateCleared('mock-cluster-1', 'mock-printer-1', FAST_POLL_OPTIONS))
+                .rejects.toThrow('The build plate confirmation of printer mock-printer-1 was rejected: The printer is not waiting for its build plate to be cleared');
+        });
+
+        it('rejects when the action fails without a reason', async () => {
+            const demo = await signIn();
+            const [printJobId] = await submitPrintJobs(demo, 1);
+            server.failNextActions();
+            const error = await demo.pausePrintJob('mock-cluster-1', printJobId, FAST_POLL_OPTIONS).catch((ex) => ex);
+            expect(error).toBeInstanceOf(ActionFailedError);
+            expect(error.message).toBe(`The pause of print job ${printJobId} did not succeed`);
+            expect(server.printJobs[0].status).toBe('in_progress');
+        });
+
+        it('rejects with a PrinterOfflineError when the cluster or the printer is offline', async () => {
+            const demo = await signIn();
+            const clusterError = await demo.confirmBuildPlateCleared('mock-cluster-2', 'mock-printer-2', FAST_POLL_OPTIONS).catch((ex) => ex);
+            expect(clusterError).toBeInstanceOf(PrinterOfflineError);
+            expect(clusterError).toMatchObject({ clusterId: 'mock-cluster-2', codes: ['CLUSTER_OFFLINE'] });
+
+            server.printers.get('mock-cluster-1')[0].status = 'unreachable';
+            const printerError = await demo.confirmBuildPlateCleared('mock-cluster-1', 'mock-printer-1', FAST_POLL_OPTIONS).catch((ex) => ex);
+            expect(printerError).toBeInstanceOf(PrinterOfflineError);
+            expect(printerError.message).toBe('Cannot start the build plate confirmation of printer mock-printer-1: The printer is offline');
+            expect(server.actions.size).toBe(0);
+        });
+    });
+
+    describe('response validation', () => {
+        const PROBLEMS = ['data[0].is_online must be a boolean, got a string', 'data[0].host_printer.status must be a string, got undefined'];
+
+        beforeEach(() => {
+            server.clusters[0].is_online = 'yes';
+            delete server.clusters[0].host_printer.status;
+        });
+
+        it('throws a ResponseValidationError listing the problems in the strict mode', async () => {
+            const demo = await signIn({ responseValidation: 'strict' });
+            const error = await demo.getClusters().catch((ex) => ex);
+            expect(error).toBeInstanceOf(ResponseValidationError);
+            expect(error).toMatchObject({ method: 'GET', problems: PROBLEMS });
+            expect(error.url).toMatch(/\/connect\/v1\/clusters/);
+        });
+
+        it('logs the problems once and uses the response in the lenient mode', async () => {
+            const warn = jest.fn();
+            const demo = await signIn({ responseValidation: 'lenient', logger: { ...silentLogger, warn } });
+            expect((await demo.getClusters())[0].is_online).toBe('yes');
+            await demo.getClusters();
+            expect(warn).toHaveBeenCalledTimes(1);
+            expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^The response of GET .* does not match the expected schema$/), { problems: PROBLEMS });
+        });
+
+        it('does not check the responses when it is off', async () => {
+            const demo = await signIn({ responseValidation: 'off' });
+            expect(await demo.getClusters()).toHaveLength(2);
+        });
+    });
+
+    describe('pagination', () => {
+        it('follows the links to the next pages', async () => {
+            const demo = await signIn();
+            for (let i = 1; i <= 5; i += 1) {
+                await demo.createProject(`Project ${i}`);
+            }
+            requests = [];
+            const projects = await demo.listProjects({ pageSize: 2 }).toArray();
+            expect(projects.map((project) => project.display_name)).toEqual(['Project 1', 'Project 2', 'Project 3', 'Project 4', 'Project 5']);
+            expect(requests).toHaveLength(3);
+        });
+
+        it('stops at the maximum number of items', async () => {
+            const demo = await signIn();
+            for (let i = 1; i <= 5; i += 1) {
+                await demo.createProject(`Project ${i}`);
+            }
+            requests = [];
+            expect(await demo.listProjects({ pageSize: 2 }).toArray(3)).toHaveLength(3);
+            expect(requests).toHaveLength(2);
+        });
+    });
+});
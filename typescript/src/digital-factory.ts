@@ -1,23 +1,46 @@
-import { createHash, randomBytes } from 'crypto';
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { rename } from 'fs/promises';
+import nodeFetch from 'node-fetch';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { prettyJSON } from './print';
+import { createRedactingLogger, Logger, silentLogger } from './logger';
+import { TokenStore } from './token-store';
+import { FileTokenStore } from './file-token-store';
 import {
-    createServer, IncomingMessage, Server, ServerResponse,
-} from 'http';
-import fetch from 'node-fetch';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as env from 'dotenv';
-import { print, prettyJSON } from './print';
-
-const DEFAULT_CLOUD_ACCOUNT_API_ROOT = 'https://account.ultimaker.com';
-const OAUTH_SERVER_URL = DEFAULT_CLOUD_ACCOUNT_API_ROOT;
-const API_ROOT_URL = 'https://api.ultimaker.com';
-
-const CALLBACK_SERVER_PORT = 32118;
-
-env.config({ path: '../config.env' });
-
-const { CLIENT_ID } = process.env;
-const { SCOPES } = process.env;
+    Authenticator, OAuthClientConfig, OAuthError, requestToken,
+} from './authenticator';
+import {
+    ClientInstrumentation, DEFAULT_ACCOUNT_ROOT_URL, DEFAULT_API_ROOT_URL, DigitalFactoryClientOptions, Fetch,
+} from './client-options';
+import { DigitalFactoryApiError } from './api-error';
+import {
+    DEFAULT_RETRY_POLICY, getRetryDelayMS, isRetryableStatus, RetryPolicy,
+} from './retry-policy';
+import { sleep } from './sleep';
+import { Page, PaginatedList } from './paginated-list';
+import { ActionPoller, PollOptions } from './action-poller';
+import {
+    createUploadSource, inspectUfp, uploadToSignedUrl, UploadOptions, UploadSource,
+} from './upload';
+import type { UfpMetadata } from './ufp-reader';
+import { getReportRowParser, ReportRow } from './reports';
+import { UploadError } from './upload-error';
+import { ActionFailedError } from './action-failed-error';
+import { PrinterOfflineError } from './printer-offline-error';
+import { PrintJobWatcher, PrintJobWatcherOptions } from './print-job-watcher';
+import {
+    actionStatusSchema, ActionStatusResponse, Cluster, CLUSTER_PRINTER_SCHEMA, CLUSTER_SCHEMA, ClusterPrinter, Comment,
+    COMMENT_SCHEMA, JOB_UPLOAD_SCHEMA, JobUpload, PRINT_JOB_ACTION_RESULT_SCHEMA, PRINT_JOB_SCHEMA,
+    PRINT_JOB_SUBMISSION_SCHEMA, PrinterActionResult, PRINTER_ACTION_RESULT_SCHEMA, PrinterActionStatusResponse,
+    PrintJob, PrintJobActionResult, PrintJobActionStatusResponse, PrintJobSubmission, Project, PROJECT_FILE_SCHEMA,
+    PROJECT_SCHEMA, ProjectFile, REPORT_STATUS_SCHEMA, ReportStatus, WEBCAM_SNAPSHOT_SCHEMA, WebcamActionStatusResponse,
+} from './models';
+import {
+    arrayOf, getSchemaProblems, ResponseValidationMode, Schema,
+} from './response-schema';
+import { ResponseValidationError } from './response-validation-error';
 
 export interface TokenResponse {
     access_token: string;
@@ -27,119 +50,129 @@ export interface TokenResponse {
     token_type: string;
 }
 
-export class DigitalFactoryDemo {
-    private _callbackServer: Server = null;
+// The API error codes with which an action is refused because its target is offline.
+const OFFLINE_ERROR_CODES = ['CLUSTER_OFFLINE', 'PRINTER_OFFLINE'];
 
-    private _state: string = null;
+// The amount of times an upload from a file or buffer is tried by default.
+const DEFAULT_UPLOAD_ATTEMPTS = 3;
 
-    private _pkceVerifier: string = null;
+const DEFAULT_REPORT_TYPE = 'print_jobs';
 
+export class DigitalFactoryDemo {
     private _tokenPair: TokenResponse = null;
 
     private _tokenTimestampMs = 0;
 
-    private _token_url: string = null;
+    // the refresh that is in progress, which concurrent requests wait for instead of refreshing again
+    private _refreshPromise: Promise<void> | null = null;
 
-    private _authorizationUrl = `${OAUTH_SERVER_URL}/authorize`;
+    private readonly _tokenStore: TokenStore;
 
-    private _redirectUri: string = null;
+    private readonly _authenticator: Authenticator;
 
-    private _signInCompleteResolve: () => void = null;
+    private readonly _retryPolicy: RetryPolicy;
 
-    signIn(): Promise<void> {
-        this._callbackServer = createServer(this._handleRequest.bind(this));
-        this._callbackServer.listen(CALLBACK_SERVER_PORT);
+    private readonly _oauthConfig: OAuthClientConfig;
 
-        this._token_url = `${OAUTH_SERVER_URL}/token`;
-        this._redirectUri = `http://localhost:${CALLBACK_SERVER_PORT}/callback`;
+    private readonly _apiRootUrl: string;
 
-        this._state = this._generateState();
-        this._pkceVerifier = this._generatePKCEVerifier();
-        const query = new URLSearchParams({
-            client_id: CLIENT_ID,
-            redirect_uri: this._redirectUri,
-            scope: SCOPES,
-            state: this._state,
-            response_type: 'code',
-            code_challenge: this._generatePKCEChallenge(this._pkceVerifier),
-            code_challenge_method: 'S512',
-        });
-        const signInUrl = `${this._authorizationUrl}?${query}`;
-
-        print('Open the following URL in your browser and log in to Ultimaker Digital Factory:');
-        print('');
-        print(`    ${signInUrl}`);
-        print('');
-        return new Promise<void>((resolve, reject) => {
-            this._signInCompleteResolve = resolve;
-            process.on('SIGINT', reject);
-        });
-    }
+    private readonly _fetch: Fetch;
 
-    private async _handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
-        if (!req.url) {
-            return;
-        }
-        if (!this._pkceVerifier) {
-            return;
-        }
+    private readonly _clock: () => number;
 
-        const url = new URL(`http://localhost:${CALLBACK_SERVER_PORT}${req.url}`);
+    private readonly _instrumentation: ClientInstrumentation;
 
-        const code = url.searchParams.get('code');
-        if (!code) {
-            return;
-        }
+    private readonly _responseValidation: ResponseValidationMode;
 
-        const state = url.searchParams.get('state');
-        if (!state || state !== this._state) {
-            return;
-        }
+    private readonly _loggedSchemaProblems = new Set<string>();
 
-        this._tokenPair = await this._requestAccessToken(code, this._pkceVerifier);
-        this._tokenTimestampMs = Date.now();
+    private readonly _logger: Logger;
 
-        print(`Access token: ${prettyJSON(this._tokenPair.access_token)}`);
-        print(`Expires in: ${this._tokenPair.expires_in}s`);
-
-        res.writeHead(200);
-        res.end('Sign in finished, you can now close this window.');
-
-        // reset everything
-        this._callbackServer && this._callbackServer.close(); // eslint-disable-line no-unused-expressions
-        this._callbackServer = null;
-        this._state = null;
-        this._pkceVerifier = null;
-
-        this._signInCompleteResolve();
-    }
-
-    private async _requestAccessToken(code: string, pkceVerifier: string): Promise<TokenResponse> {
-        const tokenResponse = await fetch(this._token_url, {
-            method: 'POST',
-            body: new URLSearchParams({
-                client_id: CLIENT_ID,
-                redirect_uri: this._redirectUri,
-                grant_type: 'authorization_code',
-                scope: SCOPES,
-                code,
-                code_verifier: pkceVerifier,
-            }),
-        });
-
-        return tokenResponse.json();
+    constructor({
+        clientId,
+        scopes,
+        apiRootUrl = DEFAULT_API_ROOT_URL,
+        accountRootUrl = DEFAULT_ACCOUNT_ROOT_URL,
+        fetch = nodeFetch,
+        clock = Date.now,
+        tokenStore = new FileTokenStore(),
+        authenticator = null,
+        retryPolicy = DEFAULT_RETRY_POLICY,
+        instrumentation = {},
+        responseValidation = 'lenient',
+        logger = silentLogger,
+    }: DigitalFactoryClientOptions) {
+        this._oauthConfig = {
+            oauthServerUrl: accountRootUrl,
+            clientId,
+            scopes,
+            fetch,
+        };
+        this._apiRootUrl = apiRootUrl;
+        this._fetch = fetch;
+        this._clock = clock;
+        this._tokenStore = tokenStore;
+        this._authenticator = authenticator;
+        this._retryPolicy = retryPolicy;
+        this._instrumentation = instrumentation;
+        this._responseValidation = responseValidation;
+        // the current tokens are redacted as well, whatever the message or field they appear in
+        this._logger = createRedactingLogger(logger, () => (this._tokenPair ? [this._tokenPair.access_token, this._tokenPair.refresh_token] : []));
     }
 
-    private _generateState(): string {
-        return randomBytes(16).toString('base64');
+    /**
+     * Signs in using the stored tokens when possible, refreshing them if needed.
+     * Falls back to the interactive sign-in of the authenticator when there are no usable tokens, and rejects with
+     * an OAuthError when no authenticator was given.
+     */
+    async signIn(): Promise<void> {
+        const stored = await this._tokenStore.load();
+        if (stored) {
+            this._tokenPair = stored.tokenPair;
+            this._tokenTimestampMs = stored.timestampMs;
+            try {
+                await this._checkTokenExpiration();
+                this._logger.info('Signed in using the stored tokens');
+                return;
+            } catch (ex) {
+                // only a rejected refresh token means signing in again, not e.g. an outage of the account server
+                if (!(ex instanceof OAuthError && (ex.status === 400 || ex.status === 401))) {
+                    throw ex;
+                }
+                this._logger.warn('The stored refresh token was rejected, signing in again', { error: ex });
+                this._tokenPair = null;
+                await this._tokenStore.clear();
+            }
+        }
+        if (!this._authenticator) {
+            throw new OAuthError(401, { error: 'sign_in_required', error_description: 'There are no usable tokens and no authenticator to sign in with' });
+        }
+        await this._storeTokens(await this._authenticator.authenticate(this._oauthConfig));
+        this._logger.info('Signed in', { scopes: this._tokenPair.scope, expiresInSeconds: this._tokenPair.expires_in });
     }
 
-    private _generatePKCEVerifier(): string {
-        return randomBytes(32).toString('base64');
+    /**
+     * Forgets the current tokens, both in memory and in the token store.
+     */
+    async signOut(): Promise<void> {
+        this._tokenPair = null;
+        this._tokenTimestampMs = 0;
+        await this._tokenStore.clear();
     }
 
-    private _generatePKCEChallenge(verifier: string): string {
-        return createHash('sha512').update(verifier).digest().toString('base64');
+    /**
+     * Tells whether there are stored tokens, without refreshing them or signing in.
+     */
+    async getSignInStatus(): Promise<SignInStatus> {
+        const stored = await this._tokenStore.load();
+        if (!stored) {
+            return { signedIn: false, scopes: null, accessTokenExpiresAt: null };
+        }
+        return {
+            signedIn: true,
+            scopes: stored.tokenPair.scope,
+            accessTokenExpiresAt: new Date(stored.timestampMs + stored.tokenPair.expires_in * 1000).toISOString(),
+        };
     }
 
     private _getRequestHeaders(): {[key: string]: string} {
@@ -152,239 +185,667 @@ export class DigitalFactoryDemo {
         if (!this._tokenNeedsRefresh()) {
             return;
         }
-        print('Trying to refresh the token');
-        this._tokenPair = await this._requestTokenRefresh();
-        this._tokenTimestampMs = Date.now();
-
-        print(`New access token: ${prettyJSON(this._tokenPair.access_token)}`);
-        print(`Expires in: ${this._tokenPair.expires_in}s`);
-    }
-
-    private async _requestTokenRefresh(): Promise<TokenResponse> {
-        const tokenResponse = await fetch(this._token_url, {
-            method: 'POST',
-            body: new URLSearchParams({
-                client_id: CLIENT_ID,
-                grant_type: 'refresh_token',
-                refresh_token: this._tokenPair.refresh_token,
-                scope: SCOPES,
-            }),
+        await this._refreshToken();
+    }
+
+    /**
+     * Refreshes the tokens once for all concurrent callers, as the API only accepts each refresh token once.
+     */
+    private _refreshToken(): Promise<void> {
+        if (!this._refreshPromise) {
+            this._refreshPromise = this._storeRefreshedTokens().finally(() => {
+                this._refreshPromise = null;
+            });
+        }
+        return this._refreshPromise;
+    }
+
+    private async _storeRefreshedTokens(): Promise<void> {
+        this._logger.debug('Refreshing the access token');
+        this._instrumentation.onTokenRefresh && this._instrumentation.onTokenRefresh(); // eslint-disable-line no-unused-expressions
+        await this._storeTokens(await this._requestTokenRefresh());
+        this._logger.info('Refreshed the access token', { expiresInSeconds: this._tokenPair.expires_in });
+    }
+
+    private _requestTokenRefresh(): Promise<TokenResponse> {
+        return requestToken(this._oauthConfig, {
+            grant_type: 'refresh_token',
+            refresh_token: this._tokenPair.refresh_token,
         });
+    }
 
-        return tokenResponse.json();
+    /**
+     * Uses the given tokens from now on and writes them back to the token store, so they survive a restart.
+     */
+    private async _storeTokens(tokenPair: TokenResponse): Promise<void> {
+        this._tokenPair = tokenPair;
+        this._tokenTimestampMs = this._clock();
+        await this._tokenStore.save({ tokenPair, timestampMs: this._tokenTimestampMs });
     }
 
     private _tokenNeedsRefresh(): boolean {
         // Refresh 30s before the token expires.
-        return Date.now() > (this._tokenTimestampMs + 1000 * (this._tokenPair.expires_in - 30));
+        return this._clock() > (this._tokenTimestampMs + 1000 * (this._tokenPair.expires_in - 30));
     }
 
     async httpGetDigitalFactory(url: string): Promise<any> {
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: this._getRequestHeaders(),
-        });
-        return response.json();
+        return this._request('GET', url);
     }
 
     async httpPutDigitalFactory(url: string, body: any, additional_headers: any = {}): Promise<any> {
-        const headers = {
-            'Content-Type': 'application/json',
-            ...additional_headers,
-            ...this._getRequestHeaders(),
-        };
-        const response = await fetch(url, {
-            method: 'PUT',
-            headers,
-            body: prettyJSON(body),
-        });
-        return response.json();
+        return this._request('PUT', url, body, additional_headers);
     }
 
     async httpPostDigitalFactory(url: string, body: any = {}, additional_headers: any = {}): Promise<any> {
-        const headers = {
-            'Content-Type': 'application/json',
-            ...additional_headers,
-            ...this._getRequestHeaders(),
-        };
-        const response = await fetch(url, {
-            method: 'POST',
-            headers,
-            body: prettyJSON(body),
-        });
-        return response.json();
+        return this._request('POST', url, body, additional_headers);
+    }
+
+    async httpPatchDigitalFactory(url: string, body: any, additional_headers: any = {}): Promise<any> {
+        return this._request('PATCH', url, body, additional_headers);
+    }
+
+    async httpDeleteDigitalFactory(url: string): Promise<any> {
+        return this._request('DELETE', url);
+    }
+
+    /**
+     * Sends a request to the Digital Factory API and returns the parsed JSON response.
+     * Rate limited (429) and failed (5xx) requests are retried according to the retry policy, failed requests only
+     * when they are idempotent or the server asks for a retry (see isRetryableStatus), and an unauthorized
+     * (401) request is retried once with a refreshed token. Any other non-2xx response throws a DigitalFactoryApiError.
+     * All attempts are logged with the same correlation ID.
+     */
+    private async _request(method: string, url: string, body?: any, additional_headers: any = {}, signal?: AbortSignal): Promise<any> {
+        const correlationId = randomUUID();
+        let attempt = 0;
+        let refreshedToken = false;
+        for (;;) {
+            await this._checkTokenExpiration();
+            const usedAccessToken = this._tokenPair.access_token;
+            const headers = {
+                ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+                ...additional_headers,
+                ...this._getRequestHeaders(),
+            };
+            const response = await this._timeRequest(method, url, correlationId, () => this._fetch(url, {
+                method,
+                headers,
+                body: body === undefined ? undefined : prettyJSON(body),
+                signal,
+            }));
+            const responseText = await response.text();
+            if (response.ok) {
+                return this._parseResponse(method, url, response, responseText);
+            }
+
+            if (response.status === 401 && !refreshedToken) {
+                refreshedToken = true;
+                // another request may have refreshed the token meanwhile, then the request is retried with that one
+                if (this._tokenPair.access_token === usedAccessToken) {
+                    await this._refreshToken();
+                }
+            } else if (isRetryableStatus(response.status, method, response.headers.get('Retry-After')) && attempt < this._retryPolicy.maxRetries) {
+                const delayMS = getRetryDelayMS(this._retryPolicy, attempt, response.headers.get('Retry-After'));
+                this._logger.warn(`${method} ${url} failed with status ${response.status}, retrying in ${delayMS}ms`, {
+                    correlationId, status: response.status, delayMS, attempt: attempt + 1,
+                });
+                await sleep(delayMS, signal);
+                if (signal && signal.aborted) {
+                    throw new Error(`${method} ${url} was aborted`);
+                }
+                attempt += 1;
+            } else {
+                throw new DigitalFactoryApiError(method, url, response.status, responseText, response.headers.get('X-Request-Id'));
+            }
+        }
     }
 
-    async createProject(name: string): Promise<any> {
-        await this._checkTokenExpiration();
-        const response = await this.httpPutDigitalFactory(
-            `${API_ROOT_URL}/cura/v1/projects`,
-            {
-                data: {
-                    display_name: name,
-                },
+    /**
+     * Parses the JSON body of a successful response. A body that is not JSON is an API error like any other, rather
+     * than a syntax error without the request it belongs to.
+     */
+    private _parseResponse(method: string, url: string, response: Awaited<ReturnType<Fetch>>, responseText: string): any {
+        if (!responseText) {
+            return null;
+        }
+        try {
+            return JSON.parse(responseText);
+        } catch (ex) {
+            throw new DigitalFactoryApiError(method, url, response.status, responseText, response.headers.get('X-Request-Id'));
+        }
+    }
+
+    /**
+     * Performs the request, reporting its duration and result to the instrumentation and the logger.
+     */
+    private async _timeRequest(method: string, url: string, correlationId: string, request: () => ReturnType<Fetch>): ReturnType<Fetch> {
+        const { onRequest } = this._instrumentation;
+        const startMS = this._clock();
+        try {
+            const response = await request();
+            const durationMS = this._clock() - startMS;
+            onRequest && onRequest({ // eslint-disable-line no-unused-expressions
+                method, url, status: response.status, durationMS,
+            });
+            this._logger.debug(`${method} ${url} ${response.status}`, {
+                correlationId, method, url, status: response.status, durationMS, requestId: response.headers.get('X-Request-Id'),
+            });
+            return response;
+        } catch (ex) {
+            const durationMS = this._clock() - startMS;
+            onRequest && onRequest({ // eslint-disable-line no-unused-expressions
+                method, url, status: null, durationMS,
+            });
+            this._logger.warn(`${method} ${url} failed without a response`, {
+                correlationId, method, url, durationMS, error: ex,
+            });
+            throw ex;
+        }
+    }
+
+    async createProject(name: string): Promise<Project> {
+        return this._requestData('PUT', `${this._apiRootUrl}/cura/v1/projects`, PROJECT_SCHEMA, {
+            data: {
+                display_name: name,
             },
-        );
-        return response.data;
+        });
     }
 
-    async uploadFileToProject(libraryProjectId: string, filePath: string): Promise<any> {
-        const filename = path.posix.basename(filePath);
-        const fileContents = fs.readFileSync(filePath);
-        const contentLength = fileContents.byteLength;
-        const mimeType = 'application/x-ufp';
+    /**
+     * Uploads a print job file to a library project. The file is streamed from disk, a buffer or a stream while
+     * reporting the progress, and failed uploads are retried, with a new upload URL if the signed URL expired.
+     * UFP files are validated before uploading, and their metadata is returned with the job.
+     */
+    async uploadFileToProject(libraryProjectId: string, file: string | Buffer | Readable, options: UploadOptions = {}): Promise<UploadedJob> {
+        const source = await createUploadSource(file, options);
+        const ufp = await inspectUfp(file, source, options.validate);
+        const maxAttempts = source.reopenable ? options.maxAttempts || DEFAULT_UPLOAD_ATTEMPTS : 1;
+
+        let jobUpload = await this._requestJobUpload(libraryProjectId, source, options);
+        for (let attempt = 1; ; attempt += 1) {
+            try {
+                const checksum = await uploadToSignedUrl(this._fetch, jobUpload.upload_url, source, options.onProgress);
+                this._logger.debug(`Uploaded ${source.fileName}`, { jobId: jobUpload.job_id, url: jobUpload.upload_url, attempt });
+                return { ...jobUpload, checksum, ufp };
+            } catch (ex) {
+                if (!(ex instanceof UploadError) || !ex.retryable || attempt >= maxAttempts) {
+                    throw ex;
+                }
+                this._logger.warn(`${ex.message}, retrying`, { jobId: jobUpload.job_id, attempt });
+                if (ex.uploadUrlRejected) {
+                    jobUpload = await this._requestJobUpload(libraryProjectId, source, options);
+                }
+                await sleep(getRetryDelayMS(this._retryPolicy, attempt - 1, null));
+            }
+        }
+    }
 
-        await this._checkTokenExpiration();
-        const jobUploadResponse = await this.httpPutDigitalFactory(`${API_ROOT_URL}/cura/v1/jobs/upload`, {
+    private async _requestJobUpload(libraryProjectId: string, source: UploadSource, { onUploadRequested }: UploadOptions): Promise<JobUpload> {
+        const jobUpload = await this._requestData<JobUpload>('PUT', `${this._apiRootUrl}/cura/v1/jobs/upload`, JOB_UPLOAD_SCHEMA, {
             data: {
-                job_name: filename,
-                content_type: mimeType,
-                file_size: contentLength,
+                job_name: source.fileName,
+                content_type: source.contentType,
+                file_size: source.size,
                 library_project_id: libraryProjectId,
             },
         });
-        const uploadUrl = jobUploadResponse.data.upload_url;
-        print(`upload url: ${uploadUrl}`);
+        if (onUploadRequested) {
+            await onUploadRequested(jobUpload);
+        }
+        return jobUpload;
+    }
 
-        await fetch(uploadUrl, {
-            method: 'PUT',
-            headers: { 'Content-Type': mimeType },
-            body: fileContents,
+    async addCommentToProject(projectId: string, comment: string): Promise<Comment> {
+        return this._requestData('PUT', `${this._apiRootUrl}/cura/v1/projects/${projectId}/comments`, COMMENT_SCHEMA, {
+            data: {
+                body: comment,
+            },
         });
-        return jobUploadResponse.data;
     }
 
-    async addCommentToProject(projectId: string, comment: string): Promise<void> {
-        await this._checkTokenExpiration();
-        const response = await this.httpPutDigitalFactory(
-            `${API_ROOT_URL}/cura/v1/projects/${projectId}/comments`,
-            {
-                data: {
-                    body: comment,
-                },
+    async getProject(projectId: string): Promise<Project> {
+        return this._requestData('GET', `${this._apiRootUrl}/cura/v1/projects/${projectId}`, PROJECT_SCHEMA);
+    }
+
+    /**
+     * Changes the name and/or the sharing of a project. Properties that are left out stay the same.
+     */
+    async updateProject(projectId: string, { displayName, isShared }: ProjectUpdate): Promise<Project> {
+        return this._requestData('PATCH', `${this._apiRootUrl}/cura/v1/projects/${projectId}`, PROJECT_SCHEMA, {
+            data: {
+                display_name: displayName,
+                is_shared: isShared,
             },
-        );
-        return response.data;
+        });
     }
 
-    async submitPrintJob(jobId: string, clusterId: string): Promise<any> {
-        await this._checkTokenExpiration();
-        const response = await this.httpPostDigitalFactory(
-            `${API_ROOT_URL}/connect/v1/clusters/${clusterId}/print/${jobId}`,
-            { data: {} },
-        );
-        return response.data;
+    async renameProject(projectId: string, name: string): Promise<Project> {
+        return this.updateProject(projectId, { displayName: name });
     }
 
-    async getRunningPrintJobs(): Promise<any> {
-        const query = new URLSearchParams({
-            limit: '20',
-            status: 'in_progress',
-        });
-        await this._checkTokenExpiration();
-        const response = await this.httpGetDigitalFactory(`${API_ROOT_URL}/connect/v1/print_jobs?${query}`);
-        return response.data;
+    /**
+     * Shares the project with the organization, or makes it private to its owner again.
+     */
+    async setProjectSharing(projectId: string, shared: boolean): Promise<Project> {
+        return this.updateProject(projectId, { isShared: shared });
+    }
+
+    /**
+     * Deletes a project, together with its files and comments.
+     */
+    async deleteProject(projectId: string): Promise<void> {
+        await this.httpDeleteDigitalFactory(`${this._apiRootUrl}/cura/v1/projects/${projectId}`);
+    }
+
+    /**
+     * Lists the files stored in a project, which includes the print jobs uploaded to it.
+     */
+    listProjectFiles(projectId: string, { pageSize }: ListOptions = {}): PaginatedList<ProjectFile> {
+        return new PaginatedList((page, limit) => this._getPage(`/cura/v1/projects/${projectId}/files`, PROJECT_FILE_SCHEMA, page, limit), pageSize);
+    }
+
+    async getProjectFile(projectId: string, fileId: string): Promise<ProjectFile> {
+        return this._requestData('GET', `${this._apiRootUrl}/cura/v1/projects/${projectId}/files/${fileId}`, PROJECT_FILE_SCHEMA);
+    }
+
+    /**
+     * Downloads a file stored in a project into memory.
+     */
+    async downloadProjectFile(projectId: string, fileId: string): Promise<Buffer> {
+        const file = await this.getProjectFile(projectId, fileId);
+        return this.downloadFile(file.download_url);
+    }
+
+    /**
+     * Streams a file stored in a project to disk. The output file only appears once the download is complete.
+     */
+    async saveProjectFile(projectId: string, fileId: string, outputFile: string): Promise<ProjectFile> {
+        const file = await this.getProjectFile(projectId, fileId);
+        const response = await this._fetch(file.download_url);
+        if (!response.ok) {
+            throw new Error(`Downloading ${file.file_name} failed with status ${response.status}`);
+        }
+        await pipeline(response.body, createWriteStream(`${outputFile}.part`));
+        await rename(`${outputFile}.part`, outputFile);
+        return file;
+    }
+
+    /**
+     * Lists the comments on a project, oldest first.
+     */
+    listProjectComments(projectId: string, { pageSize }: ListOptions = {}): PaginatedList<Comment> {
+        return new PaginatedList((page, limit) => this._getPage(`/cura/v1/projects/${projectId}/comments`, COMMENT_SCHEMA, page, limit), pageSize);
+    }
+
+    async deleteComment(projectId: string, commentId: string): Promise<void> {
+        await this.httpDeleteDigitalFactory(`${this._apiRootUrl}/cura/v1/projects/${projectId}/comments/${commentId}`);
+    }
+
+    async submitPrintJob(jobId: string, clusterId: string): Promise<PrintJobSubmission> {
+        return this._requestData('POST', `${this._apiRootUrl}/connect/v1/clusters/${clusterId}/print/${jobId}`, PRINT_JOB_SUBMISSION_SCHEMA, { data: {} });
+    }
+
+    /**
+     * Follows a print job, e.g. the `job_instance_uuid` of a submitted one, through its lifecycle until it is finished.
+     */
+    watchPrintJob(printJobId: string, options: PrintJobWatcherOptions = {}): PrintJobWatcher {
+        return new PrintJobWatcher(this, printJobId, options);
+    }
+
+    /**
+     * Lists the projects in the library, optionally filtered by a search text and whether they are shared.
+     */
+    listProjects({ search, shared, pageSize }: ListProjectsOptions = {}): PaginatedList<Project> {
+        return new PaginatedList((page, limit) => this._getPage('/cura/v1/projects', PROJECT_SCHEMA, page, limit, {
+            search,
+            shared: shared === undefined ? undefined : `${shared}`,
+        }), pageSize);
+    }
+
+    /**
+     * Lists the print jobs, optionally filtered by status, cluster and creation date.
+     */
+    listPrintJobs({
+        status, clusterId, createdAfter, createdBefore, pageSize,
+    }: ListPrintJobsOptions = {}): PaginatedList<PrintJob> {
+        return new PaginatedList((page, limit) => this._getPage('/connect/v1/print_jobs', PRINT_JOB_SCHEMA, page, limit, {
+            status: Array.isArray(status) ? status.join(',') : status,
+            cluster_id: clusterId,
+            created_after: createdAfter && createdAfter.toISOString(),
+            created_before: createdBefore && createdBefore.toISOString(),
+        }), pageSize);
+    }
+
+    /**
+     * Lists the clusters (printer groups) the user has access to.
+     */
+    listClusters({ pageSize }: ListOptions = {}): PaginatedList<Cluster> {
+        return new PaginatedList((page, limit) => this._getPage('/connect/v1/clusters', CLUSTER_SCHEMA, page, limit), pageSize);
+    }
+
+    async getClusterPrinters(clusterId: string): Promise<ClusterPrinter[]> {
+        return this._requestData('GET', `${this._apiRootUrl}/connect/v1/clusters/${clusterId}/printers`, arrayOf(CLUSTER_PRINTER_SCHEMA));
+    }
+
+    async getPrintJob(printJobId: string): Promise<PrintJob> {
+        return this._requestData('GET', `${this._apiRootUrl}/connect/v1/print_jobs/${printJobId}`, PRINT_JOB_SCHEMA);
+    }
+
+    async getRunningPrintJobs(): Promise<PrintJob[]> {
+        return this.listPrintJobs({ status: 'in_progress' }).toArray();
     }
 
     async getClusters(): Promise<Cluster[]> {
-        await this._checkTokenExpiration();
-        const response = await this.httpGetDigitalFactory(`${API_ROOT_URL}/connect/v1/clusters`);
-        return response.data;
+        return this.listClusters().toArray();
+    }
+
+    async searchProjects(search: string): Promise<Project[]> {
+        return this.listProjects({ search, shared: false }).toArray();
     }
 
-    async searchProjects(): Promise<any> {
+    /**
+     * Gets a single page of a list endpoint, checking each item against the schema of its model. Filters that are
+     * undefined are left out of the query.
+     */
+    private async _getPage<T>(endpoint: string, schema: Schema, page: number, limit: number, filters: {[key: string]: string} = {}): Promise<Page<T>> {
         const query = new URLSearchParams({
-            limit: '24',
-            page: '1',
-            search: 'demo',
-            shared: 'false',
+            limit: `${limit}`,
+            page: `${page}`,
         });
-        await this._checkTokenExpiration();
-        const response = await this.httpGetDigitalFactory(`${API_ROOT_URL}/cura/v1/projects?${query}`);
-        return response.data;
+        Object.entries(filters)
+            .filter(([, value]) => value !== undefined)
+            .forEach(([key, value]) => query.set(key, value));
+        const url = `${this._apiRootUrl}${endpoint}?${query}`;
+        const response = await this.httpGetDigitalFactory(url);
+        this._validateResponse('GET', url, arrayOf(schema), response.data);
+        return response;
     }
 
-    async generateReport(clusterIds: string[]): Promise<string> {
-        await this._checkTokenExpiration();
-
-        print('Requesting report generation');
-        const today = new Date();
-        const sevenDaysAgoMs = Date.now() - 24 * 60 * 60 * 7 * 1000;
-        const sevenDaysAgo = new Date(sevenDaysAgoMs);
-        const response = <{ data: ReportStatus }> await this.httpPutDigitalFactory(`${API_ROOT_URL}/report/v1/reports`,
-            {
-                data: {
-                    cluster_ids: clusterIds,
-                    start_date: sevenDaysAgo.toISOString(),
-                    end_date: today.toISOString(),
-                    report_type: 'print_jobs',
-                },
-            });
-
-        let status: ReportStatus = response.data;
-        const reportID = status.report_id;
-        while (status.status === 'pending' || status.status === 'processing') {
-            print('Waiting one second');
-            await new Promise((resolve) => setTimeout(resolve, 1000));
+    /**
+     * Sends a request to the Digital Factory API and returns the data of the response, after checking it against
+     * the schema of its model.
+     */
+    private async _requestData<T>(method: string, url: string, schema: Schema, body?: any, signal?: AbortSignal): Promise<T> {
+        const response = await this._request(method, url, body, {}, signal);
+        this._validateResponse(method, url, schema, response.data);
+        return response.data;
+    }
 
-            print('Checking the status of the report');
-            const statusResponse = <{ data: ReportStatus }> await this.httpGetDigitalFactory(`${API_ROOT_URL}/report/v1/reports/${reportID}`);
-            status = statusResponse.data;
+    /**
+     * Checks a response according to the response validation mode. In the lenient mode, the same problems are only
+     * logged once.
+     */
+    private _validateResponse(method: string, url: string, schema: Schema, data: unknown): void {
+        if (this._responseValidation === 'off') {
+            return;
         }
-        if (status.status !== 'success') {
-            print('Something went wrong while generating the report.', status);
-            return null;
+        const problems = getSchemaProblems(schema, data);
+        if (problems.length === 0) {
+            return;
+        }
+        if (this._responseValidation === 'strict') {
+            throw new ResponseValidationError(method, url, problems);
         }
+        const key = problems.join('\n');
+        if (!this._loggedSchemaProblems.has(key)) {
+            this._loggedSchemaProblems.add(key);
+            this._logger.warn(`The response of ${method} ${url} does not match the expected schema`, { problems });
+        }
+    }
 
+    /**
+     * Generates a report for the given clusters and returns its download URL.
+     * By default this is a print jobs report of the last seven days.
+     */
+    async generateReport(clusterIds: string[], reportOptions: ReportOptions = {}, pollOptions: PollOptions<ReportStatus> = {}): Promise<string> {
+        const {
+            endDate = new Date(this._clock()),
+            startDate = new Date(endDate.getTime() - 24 * 60 * 60 * 7 * 1000),
+            reportType = DEFAULT_REPORT_TYPE,
+        } = reportOptions;
+        const report = await this._requestData<ReportStatus>('PUT', `${this._apiRootUrl}/report/v1/reports`, REPORT_STATUS_SCHEMA, {
+            data: {
+                cluster_ids: clusterIds,
+                start_date: startDate.toISOString(),
+                end_date: endDate.toISOString(),
+                report_type: reportType,
+            },
+        });
+
+        const reportID = report.report_id;
+        const poller = new ActionPoller<ReportStatus>({
+            ...pollOptions,
+            description: 'report generation',
+            poll: (signal) => this._requestData('GET', `${this._apiRootUrl}/report/v1/reports/${reportID}`, REPORT_STATUS_SCHEMA, undefined, signal),
+            isFinished: (status) => status.status !== 'pending' && status.status !== 'processing',
+            isSuccessful: (status) => status.status === 'success',
+        });
+        const status = await poller.run(report);
         return status.download_url;
     }
 
-    async getWebcamImage(clusterId: string, clusterPrinterId: string): Promise<string> {
-        await this._checkTokenExpiration();
+    /**
+     * Downloads a generated report from its (signed) download URL.
+     */
+    async downloadReport(downloadUrl: string): Promise<string> {
+        return (await this.downloadFile(downloadUrl)).toString('utf-8');
+    }
+
+    /**
+     * Downloads a file, such as a report or a webcam image, from a signed URL that needs no authorization.
+     */
+    async downloadFile(url: string): Promise<Buffer> {
+        const response = await this._fetch(url);
+        const body = await response.buffer();
+        if (!response.ok) {
+            throw new Error(`Downloading ${new URL(url).pathname} failed with status ${response.status}`);
+        }
+        this._logger.debug(`Downloaded ${new URL(url).pathname}`, { url, size: body.length });
+        return body;
+    }
 
-        print('Requesting webcam image');
-        const response = <{data: WebcamActionStatusResponse}> await this.httpPostDigitalFactory(`${API_ROOT_URL}/connect/v1/clusters/${clusterId}/printers/${clusterPrinterId}/action/get_webcam_snapshot`,
-            { data: {} });
+    /**
+     * Generates a report, a print jobs report by default, downloads it and parses it into typed rows.
+     * Rejects before generating the report when its type cannot be parsed into rows.
+     */
+    async getReportRows(clusterIds: string[], reportOptions: ReportOptions = {}, pollOptions: PollOptions<ReportStatus> = {}): Promise<ReportRow[]> {
+        const parse = getReportRowParser(reportOptions.reportType || DEFAULT_REPORT_TYPE);
+        const downloadUrl = await this.generateReport(clusterIds, reportOptions, pollOptions);
+        return parse(await this.downloadReport(downloadUrl));
+    }
 
-        const actionId = response.data.action_id;
-        let status = response.data;
-        while (status.status === 'pending' || status.status === 'sent') {
-            print('Waiting one second');
-            await new Promise((resolve) => setTimeout(resolve, 1000));
+    async getWebcamImage(clusterId: string, clusterPrinterId: string, pollOptions: PollOptions<WebcamActionStatusResponse> = {}): Promise<string> {
+        const status = await this._runClusterAction<WebcamActionStatusResponse>(
+            clusterId,
+            `printers/${clusterPrinterId}/action/get_webcam_snapshot`,
+            'webcam snapshot',
+            WEBCAM_SNAPSHOT_SCHEMA,
+            pollOptions,
+        );
+        return status.status_details.value.image_url;
+    }
+
+    async pausePrintJob(clusterId: string, printJobId: string, pollOptions: PollOptions<PrintJobActionStatusResponse> = {}): Promise<PrintJobActionResult> {
+        return this._runPrintJobAction(clusterId, printJobId, 'pause', 'pause', pollOptions);
+    }
+
+    async resumePrintJob(clusterId: string, printJobId: string, pollOptions: PollOptions<PrintJobActionStatusResponse> = {}): Promise<PrintJobActionResult> {
+        return this._runPrintJobAction(clusterId, printJobId, 'print', 'resume', pollOptions);
+    }
+
+    async abortPrintJob(clusterId: string, printJobId: string, pollOptions: PollOptions<PrintJobActionStatusResponse> = {}): Promise<PrintJobActionResult> {
+        return this._runPrintJobAction(clusterId, printJobId, 'abort', 'abort', pollOptions);
+    }
+
+    /**
+     * Moves a queued print job to the given position in the queue of its cluster, 0 being the next job to print.
+     */
+    async movePrintJobInQueue(
+        clusterId: string,
+        printJobId: string,
+        position: number,
+        pollOptions: PollOptions<PrintJobActionStatusResponse> = {},
+    ): Promise<PrintJobActionResult> {
+        return this._runPrintJobAction(clusterId, printJobId, 'move', 'move', pollOptions, { list: 'queued', to_position: position });
+    }
+
+    async removePrintJobFromQueue(clusterId: string, printJobId: string, pollOptions: PollOptions<PrintJobActionStatusResponse> = {}): Promise<PrintJobActionResult> {
+        return this._runPrintJobAction(clusterId, printJobId, 'remove', 'removal', pollOptions);
+    }
 
-            print('Checking the status of the webcam image');
-            const statusResponse = <{data: WebcamActionStatusResponse}> await this.httpGetDigitalFactory(`${API_ROOT_URL}/connect/v1/clusters/${clusterId}/action_status/${actionId}`);
-            status = statusResponse.data;
+    /**
+     * Starts a queued print job right away, even when the configuration of the printer does not match the job.
+     */
+    async forceStartPrintJob(clusterId: string, printJobId: string, pollOptions: PollOptions<PrintJobActionStatusResponse> = {}): Promise<PrintJobActionResult> {
+        return this._runPrintJobAction(clusterId, printJobId, 'force', 'forced start', pollOptions);
+    }
+
+    /**
+     * Confirms that the build plate of a printer was cleared after a print, so it can start the next job.
+     */
+    async confirmBuildPlateCleared(
+        clusterId: string,
+        clusterPrinterId: string,
+        pollOptions: PollOptions<PrinterActionStatusResponse> = {},
+    ): Promise<PrinterActionResult> {
+        const status = await this._runClusterAction<PrinterActionStatusResponse>(
+            clusterId,
+            `printers/${clusterPrinterId}/action/confirm_build_plate_cleared`,
+            `build plate confirmation of printer ${clusterPrinterId}`,
+            PRINTER_ACTION_RESULT_SCHEMA,
+            pollOptions,
+        );
+        return status.status_details.value;
+    }
+
+    private async _runPrintJobAction(
+        clusterId: string,
+        printJobId: string,
+        action: string,
+        description: string,
+        pollOptions: PollOptions<PrintJobActionStatusResponse>,
+        body: any = {},
+    ): Promise<PrintJobActionResult> {
+        const status = await this._runClusterAction<PrintJobActionStatusResponse>(
+            clusterId,
+            `print_jobs/${printJobId}/action/${action}`,
+            `${description} of print job ${printJobId}`,
+            PRINT_JOB_ACTION_RESULT_SCHEMA,
+            pollOptions,
+            body,
+        );
+        return status.status_details.value;
+    }
+
+    /**
+     * Starts an action on a cluster or one of its printers and waits until its status is final. Rejects with a
+     * PrinterOfflineError when the target is offline, and with an ActionFailedError when the action is rejected.
+     * The value schema describes the details of a successful action.
+     */
+    private async _runClusterAction<T extends ActionStatusResponse>(
+        clusterId: string,
+        actionPath: string,
+        description: string,
+        valueSchema: Schema,
+        pollOptions: PollOptions<T>,
+        body: any = {},
+    ): Promise<T> {
+        const schema = actionStatusSchema(valueSchema);
+        let initialStatus: T;
+        try {
+            initialStatus = await this._requestData('POST', `${this._apiRootUrl}/connect/v1/clusters/${clusterId}/${actionPath}`, schema, { data: body });
+        } catch (ex) {
+            if (ex instanceof DigitalFactoryApiError && ex.codes.some((code) => OFFLINE_ERROR_CODES.includes(code))) {
+                throw new PrinterOfflineError(`Cannot start the ${description}: ${ex.errors[0].title || 'the printer is offline'}`, clusterId, ex.codes);
+            }
+            throw ex;
         }
-        if (status.status !== 'success') {
-            print('Something went wrong while fetching the webcam image.', status);
-            return null;
+
+        const actionId = initialStatus.action_id;
+        const poller = new ActionPoller<T>({
+            ...pollOptions,
+            description,
+            poll: (signal) => this._requestData(
+                'GET',
+                `${this._apiRootUrl}/connect/v1/clusters/${clusterId}/action_status/${actionId}`,
+                schema,
+                undefined,
+                signal,
+            ),
+            isFinished: (status) => status.status !== 'pending' && status.status !== 'sent',
+            isSuccessful: (status) => status.status === 'success',
+        });
+        try {
+            return await poller.run(initialStatus);
+        } catch (ex) {
+            const reason = ex instanceof ActionFailedError && getActionFailureReason(ex.lastStatus);
+            throw reason ? new ActionFailedError(`The ${description} was rejected: ${reason}`, ex.lastStatus) : ex;
         }
-        return status.status_details.value.image_url;
     }
 }
 
-interface ReportStatus {
-    download_url?: string;
-    report_id: string;
-    status: 'pending' | 'processing' | 'success' | 'failed' | 'unknown';
+/**
+ * Whether there are stored tokens. The refresh token may still be rejected when it is used.
+ */
+export interface SignInStatus {
+    signedIn: boolean;
+    scopes: string | null;
+    // an expired access token is refreshed with the refresh token on the next request
+    accessTokenExpiresAt: string | null;
+}
+
+/**
+ * The options for listing resources with automatic pagination.
+ */
+export interface ListOptions {
+    // the amount of items requested per page
+    pageSize?: number;
+}
+
+export interface ListProjectsOptions extends ListOptions {
+    search?: string;
+    shared?: boolean;
+}
+
+export interface ListPrintJobsOptions extends ListOptions {
+    status?: string | string[];
+    clusterId?: string;
+    createdAfter?: Date;
+    createdBefore?: Date;
+}
+
+/**
+ * The changes to make to a project.
+ */
+export interface ProjectUpdate {
+    displayName?: string;
+    isShared?: boolean;
+}
+
+/**
+ * The job of a finished upload.
+ */
+export interface UploadedJob extends JobUpload {
+    // the SHA-256 checksum of the uploaded contents
+    checksum: string;
+    // the metadata of the UFP package, null when it was not validated
+    ufp: UfpMetadata | null;
 }
 
-interface WebcamActionStatusResponse {
-    action_id: string;
-    status: 'success' | 'failed' | 'pending' | 'sent' | 'unknown';
-    status_details: {
-        type: string;
-        value: {
-            image_url: string
-        }};
+/**
+ * The options for generating a report.
+ */
+export interface ReportOptions {
+    startDate?: Date;
+    endDate?: Date;
+    // the type of report, e.g. 'print_jobs'
+    reportType?: string;
 }
 
-// A minimal Cluster definition
-interface Cluster {
-    cluster_id: string;
-    is_online: boolean;
-    host_printer: {
-        uuid: string;
-    };
+/**
+ * Gets the reason why the API rejected an action from its failed status, if it gave one.
+ */
+function getActionFailureReason(status: ActionStatusResponse): string | null {
+    const value = status && status.status_details && status.status_details.value;
+    return (value && (value.reason || value.message)) || null;
 }
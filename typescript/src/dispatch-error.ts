@@ -0,0 +1,14 @@
+import type { DispatchDecision } from './print-dispatcher';
+
+/**
+ * Thrown when a job cannot be dispatched because no online cluster has a compatible printer.
+ */
+export class DispatchError extends Error {
+    readonly decision: DispatchDecision;
+
+    constructor(message: string, decision: DispatchDecision) {
+        super(`${message}:\n${decision.explanation.join('\n')}`);
+        this.name = 'DispatchError';
+        this.decision = decision;
+    }
+}
@@ -0,0 +1,62 @@
+import {
+    createDispatchStrategy, createPreferredGroupStrategy, createRoundRobinStrategy, DispatchCandidate, leastQueuedStrategy,
+} from './dispatch-strategies';
+
+function candidate(clusterId: string, printerCount: number, queueLength: number): DispatchCandidate {
+    return {
+        clusterId,
+        clusterName: null,
+        compatiblePrinterIds: Array.from({ length: printerCount }, (_, i) => `${clusterId}-printer-${i + 1}`),
+        queueLength,
+    };
+}
+
+describe('dispatch strategies', () => {
+    describe('least-queued', () => {
+        it('chooses the cluster with the fewest jobs per compatible printer', () => {
+            const { candidate: chosen, reason } = leastQueuedStrategy.choose([candidate('a', 1, 2), candidate('b', 4, 4), candidate('c', 2, 3)]);
+            expect(chosen.clusterId).toBe('b');
+            expect(reason).toBe('it has the fewest jobs per compatible printer (4 jobs on 4 printers)');
+        });
+
+        it('chooses the cluster with the most printers, and then the first one, on a tie', () => {
+            expect(leastQueuedStrategy.choose([candidate('a', 1, 0), candidate('b', 2, 0)]).candidate.clusterId).toBe('b');
+            expect(leastQueuedStrategy.choose([candidate('b', 1, 0), candidate('a', 1, 0)]).candidate.clusterId).toBe('a');
+        });
+    });
+
+    describe('round-robin', () => {
+        it('takes the compatible clusters in turn', () => {
+            const strategy = createRoundRobinStrategy();
+            const all = [candidate('c', 1, 0), candidate('a', 1, 0), candidate('b', 1, 0)];
+            expect(strategy.choose(all).candidate.clusterId).toBe('a');
+            expect(strategy.choose(all).candidate.clusterId).toBe('b');
+            // a cluster that cannot print the job is skipped
+            expect(strategy.choose([candidate('a', 1, 0), candidate('b', 1, 0)]).candidate.clusterId).toBe('a');
+            expect(strategy.choose(all).candidate.clusterId).toBe('b');
+            expect(strategy.choose(all).candidate.clusterId).toBe('c');
+        });
+    });
+
+    describe('preferred-group', () => {
+        it('chooses the most preferred cluster that can print the job', () => {
+            const strategy = createPreferredGroupStrategy(['c', 'b']);
+            const { candidate: chosen, reason } = strategy.choose([candidate('a', 1, 0), candidate('b', 1, 9)]);
+            expect(chosen.clusterId).toBe('b');
+            expect(reason).toBe('it is the most preferred group that can print the job (preference 2)');
+        });
+
+        it('falls back to the other strategy when no preferred cluster can print the job', () => {
+            const strategy = createPreferredGroupStrategy(['c']);
+            const { candidate: chosen, reason } = strategy.choose([candidate('a', 1, 1), candidate('b', 1, 0)]);
+            expect(chosen.clusterId).toBe('b');
+            expect(reason).toMatch(/^none of the preferred groups can print the job, and it has the fewest jobs/);
+        });
+    });
+
+    it('creates a strategy by its name', () => {
+        expect(createDispatchStrategy('round-robin').name).toBe('round-robin');
+        expect(createDispatchStrategy('preferred-group', ['a']).name).toBe('preferred-group');
+        expect(() => createDispatchStrategy('random')).toThrow('Unknown dispatch strategy random, use one of least-queued, round-robin, preferred-group');
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * A cluster that can print the job, as evaluated by the dispatcher.
+ */
+export interface DispatchCandidate {
+    clusterId: string;
+    clusterName: string | null;
+    // the printers of the cluster that are available and compatible with the job
+    compatiblePrinterIds: string[];
+    // the number of print jobs that are queued or printing on the cluster
+    queueLength: number;
+}
+
+/**
+ * Chooses the cluster to print on from the candidates, of which there is at least one.
+ */
+export interface DispatchStrategy {
+    name: string;
+    choose(candidates: DispatchCandidate[]): { candidate: DispatchCandidate, reason: string };
+}
+
+/**
+ * The number of queued and printing jobs per compatible printer, so a large cluster can take more jobs.
+ */
+export function getQueueLoad(candidate: DispatchCandidate): number {
+    return candidate.queueLength / candidate.compatiblePrinterIds.length;
+}
+
+/**
+ * Chooses the cluster with the fewest jobs per compatible printer; ties go to the cluster with the most printers.
+ */
+export const leastQueuedStrategy: DispatchStrategy = {
+    name: 'least-queued',
+    choose: (candidates) => {
+        const [candidate] = [...candidates].sort((a, b) => (
+            getQueueLoad(a) - getQueueLoad(b)
+            || b.compatiblePrinterIds.length - a.compatiblePrinterIds.length
+            || a.clusterId.localeCompare(b.clusterId)
+        ));
+        return {
+            candidate,
+            reason: `it has the fewest jobs per compatible printer (${candidate.queueLength} jobs on ${candidate.compatiblePrinterIds.length} printers)`,
+        };
+    },
+};
+
+/**
+ * Spreads the jobs over the compatible clusters in turn, regardless of their queues. The turn is kept by the strategy,
+ * so use the same strategy for all dispatches.
+ */
+export function createRoundRobinStrategy(): DispatchStrategy {
+    let lastClusterId: string | null = null;
+    return {
+        name: 'round-robin',
+        choose: (candidates) => {
+            const sorted = [...candidates].sort((a, b) => a.clusterId.localeCompare(b.clusterId));
+            const candidate = sorted.find((c) => lastClusterId === null || c.clusterId.localeCompare(lastClusterId) > 0) || sorted[0];
+            lastClusterId = candidate.clusterId;
+            return { candidate, reason: 'it is next in turn' };
+        },
+    };
+}
+
+/**
+ * Chooses the first compatible cluster from the preferred ones, in order of preference. Falls back to the given
+ * strategy when none of them is compatible.
+ */
+export function createPreferredGroupStrategy(preferredClusterIds: string[], fallback = leastQueuedStrategy): DispatchStrategy {
+    return {
+        name: 'preferred-group',
+        choose: (candidates) => {
+            const preferredId = preferredClusterIds.find((id) => candidates.some((c) => c.clusterId === id));
+            if (preferredId) {
+                const candidate = candidates.find((c) => c.clusterId === preferredId);
+                return { candidate, reason: `it is the most preferred group that can print the job (preference ${preferredClusterIds.indexOf(preferredId) + 1})` };
+            }
+            const { candidate, reason } = fallback.choose(candidates);
+            return { candidate, reason: `none of the preferred groups can print the job, and ${reason}` };
+        },
+    };
+}
+
+export const DISPATCH_STRATEGY_NAMES = ['least-queued', 'round-robin', 'preferred-group'];
+
+/**
+ * Creates the strategy with the given name, e.g. from a command line flag.
+ */
+export function createDispatchStrategy(name: string, preferredClusterIds: string[] = []): DispatchStrategy {
+    switch (name) {
+    case 'least-queued':
+        return leastQueuedStrategy;
+    case 'round-robin':
+        return createRoundRobinStrategy();
+    case 'preferred-group':
+        return createPreferredGroupStrategy(preferredClusterIds);
+    default:
+        throw new Error(`Unknown dispatch strategy ${name}, use one of ${DISPATCH_STRATEGY_NAMES.join(', ')}`);
+    }
+}
@@ -0,0 +1,56 @@
+import {
+    chmod, mkdtemp, readdir, rm, stat, writeFile,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { FileTokenStore } from './file-token-store';
+import type { StoredTokens } from './token-store';
+
+const TOKENS: StoredTokens = {
+    tokenPair: {
+        access_token: 'access-token',
+        expires_in: 3600,
+        refresh_token: 'refresh-token',
+        scope: '',
+        token_type: 'Bearer',
+    },
+    timestampMs: 1635768000000,
+};
+
+describe('FileTokenStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'file-token-store-'));
+        filePath = path.join(directory, 'tokens', 'digital-factory-tokens.json');
+    });
+
+    afterEach(() => rm(directory, { recursive: true, force: true }));
+
+    it('saves the tokens in a file that only the current user can read', async () => {
+        const store = new FileTokenStore(filePath);
+        await store.save(TOKENS);
+        expect(await store.load()).toEqual(TOKENS);
+        expect((await stat(filePath)).mode & 0o777).toBe(0o600); // eslint-disable-line no-bitwise
+    });
+
+    it('replaces a token file that others could read', async () => {
+        const store = new FileTokenStore(filePath);
+        await store.save(TOKENS);
+        await chmod(filePath, 0o644);
+        await store.save(TOKENS);
+        expect((await stat(filePath)).mode & 0o777).toBe(0o600); // eslint-disable-line no-bitwise
+        expect(await readdir(path.dirname(filePath))).toEqual(['digital-factory-tokens.json']);
+    });
+
+    it('treats a corrupt or missing token file as no tokens', async () => {
+        const store = new FileTokenStore(filePath);
+        expect(await store.load()).toBeNull();
+        await store.save(TOKENS);
+        await writeFile(filePath, 'corrupt');
+        expect(await store.load()).toBeNull();
+        await store.clear();
+        expect(await store.load()).toBeNull();
+    });
+});
@@ -0,0 +1,52 @@
+import { randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import {
+    mkdir, readFile, rename, rm, writeFile,
+} from 'fs/promises';
+import { homedir } from 'os';
+import * as path from 'path';
+import { StoredTokens, TokenStore } from './token-store';
+
+export const DEFAULT_TOKEN_FILE = path.join(homedir(), '.ultimaker', 'digital-factory-tokens.json');
+
+/**
+ * Stores the tokens in a JSON file that is only readable by the current user.
+ */
+export class FileTokenStore implements TokenStore {
+    private readonly _filePath: string;
+
+    constructor(filePath: string = DEFAULT_TOKEN_FILE) {
+        this._filePath = filePath;
+    }
+
+    async load(): Promise<StoredTokens | null> {
+        if (!existsSync(this._filePath)) {
+            return null;
+        }
+        try {
+            const tokens: StoredTokens = JSON.parse(await readFile(this._filePath, 'utf-8'));
+            return tokens.tokenPair && tokens.tokenPair.refresh_token ? tokens : null;
+        } catch (ex) {
+            // a corrupt token file is treated as if there are no tokens at all
+            return null;
+        }
+    }
+
+    async save(tokens: StoredTokens): Promise<void> {
+        await mkdir(path.dirname(this._filePath), { recursive: true, mode: 0o700 });
+        // writeFile only applies the mode when creating a file, so the tokens are written to a new file that replaces
+        // the old one, which is never readable by others, not even for a moment
+        const tempFilePath = `${this._filePath}.${randomBytes(4).toString('hex')}.tmp`;
+        try {
+            await writeFile(tempFilePath, JSON.stringify(tokens), { mode: 0o600, flag: 'wx' });
+            await rename(tempFilePath, this._filePath);
+        } catch (ex) {
+            await rm(tempFilePath, { force: true });
+            throw ex;
+        }
+    }
+
+    async clear(): Promise<void> {
+        await rm(this._filePath, { force: true });
+    }
+}
@@ -0,0 +1,15 @@
+/**
+ * Thrown while handling a request to the gateway, to respond with the given status and error code.
+ */
+export class GatewayRequestError extends Error {
+    readonly status: number;
+
+    readonly code: string;
+
+    constructor(status: number, code: string, message: string) {
+        super(message);
+        this.name = 'GatewayRequestError';
+        this.status = status;
+        this.code = code;
+    }
+}
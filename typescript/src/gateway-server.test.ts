@@ -0,0 +1,111 @@
+import fetch from 'node-fetch';
+import type { RequestInfo } from './client-options';
+import type { DigitalFactoryDemo } from './digital-factory';
+import { GatewayServer } from './gateway-server';
+import type { MockDigitalFactoryServer } from './mock-digital-factory-server';
+import { startMockClient } from './test-helpers';
+
+const API_KEY = 'gateway-test-key';
+
+describe('GatewayServer', () => {
+    let server: MockDigitalFactoryServer;
+    let demo: DigitalFactoryDemo;
+    let gateway: GatewayServer;
+    let gatewayUrl: string;
+    let requests: RequestInfo[];
+
+    beforeEach(async () => {
+        requests = [];
+        ({ server, demo } = await startMockClient({ instrumentation: { onRequest: (request) => requests.push(request) } }));
+        gateway = new GatewayServer(demo, { apiKeys: [API_KEY], maxUploadBytes: 1024 });
+        gatewayUrl = `http://127.0.0.1:${await gateway.listen(0)}`;
+    });
+
+    afterEach(async () => {
+        await gateway.close();
+        await server.stop();
+    });
+
+    function get(pathname: string, headers: {[key: string]: string} = { 'X-Api-Key': API_KEY }) {
+        return fetch(`${gatewayUrl}${pathname}`, { headers });
+    }
+
+    function print(projectId: string, query: string, body: Buffer) {
+        return fetch(`${gatewayUrl}/projects/${projectId}/print?${query}`, { method: 'POST', headers: { 'X-Api-Key': API_KEY }, body });
+    }
+
+    describe('authorization', () => {
+        it('serves the health check without an API key', async () => {
+            const response = await get('/health', {});
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ data: { status: 'ok' } });
+        });
+
+        it('refuses requests without a valid API key', async () => {
+            expect((await get('/clusters', {})).status).toBe(401);
+            expect((await get('/clusters', { 'X-Api-Key': 'other-key' })).status).toBe(401);
+            expect(requests).toHaveLength(0);
+        });
+
+        it('accepts the API key as a bearer token', async () => {
+            expect((await get('/clusters', { Authorization: `Bearer ${API_KEY}` })).status).toBe(200);
+        });
+    });
+
+    describe('caching', () => {
+        it('shares a single API request between concurrent requests for the same data', async () => {
+            const responses = await Promise.all(Array.from({ length: 10 }, () => get('/clusters').then((response) => response.json())));
+            expect(responses.every((response) => response.data.length === 2)).toBe(true);
+            expect(requests).toHaveLength(1);
+        });
+
+        it('caches each search separately', async () => {
+            await demo.createProject('Brackets');
+            await demo.createProject('Hinges');
+            requests = [];
+            const [brackets, hinges] = await Promise.all([
+                get('/projects?search=bracket').then((response) => response.json()),
+                get('/projects?search=hinge').then((response) => response.json()),
+            ]);
+            expect(brackets.data.map((project) => project.display_name)).toEqual(['Brackets']);
+            expect(hinges.data.map((project) => project.display_name)).toEqual(['Hinges']);
+            expect(requests).toHaveLength(2);
+        });
+    });
+
+    describe('printing', () => {
+        it('uploads the file and submits it to the cluster', async () => {
+            const project = await demo.createProject('Gateway');
+            const response = await print(project.library_project_id, 'cluster=mock-cluster-1&name=cube.gcode', Buffer.from('G28\n'));
+            expect(response.status).toBe(201);
+            const { data } = await response.json();
+            expect(data.job_name).toBe('cube.gcode');
+            expect(server.printJobs.map((printJob) => printJob.uuid)).toEqual([data.job_instance_uuid]);
+        });
+
+        it('refuses a file type that cannot be printed', async () => {
+            const project = await demo.createProject('Gateway');
+            const response = await print(project.library_project_id, 'cluster=mock-cluster-1&name=cube.stl', Buffer.from('solid'));
+            expect(response.status).toBe(400);
+            expect((await response.json()).errors[0].code).toBe('BAD_REQUEST');
+            expect(server.jobs.size).toBe(0);
+        });
+
+        it('refuses files larger than the maximum upload size', async () => {
+            const project = await demo.createProject('Gateway');
+            const response = await print(project.library_project_id, 'cluster=mock-cluster-1&name=cube.gcode', Buffer.alloc(2048));
+            expect(response.status).toBe(413);
+            expect(server.jobs.size).toBe(0);
+        });
+
+        it('requires the cluster and the file name', async () => {
+            const project = await demo.createProject('Gateway');
+            expect((await print(project.library_project_id, 'name=cube.gcode', Buffer.from('G28\n'))).status).toBe(400);
+        });
+    });
+
+    it('responds with 404 for unknown paths and 400 for invalid IDs', async () => {
+        expect((await get('/unknown')).status).toBe(404);
+        expect((await get('/clusters/mock%20cluster/printers')).status).toBe(400);
+    });
+});
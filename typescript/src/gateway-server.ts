@@ -0,0 +1,286 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+    createServer, IncomingMessage, Server, ServerResponse,
+} from 'http';
+import { AddressInfo } from 'net';
+import { ActionFailedError } from './action-failed-error';
+import { ActionTimeoutError } from './action-timeout-error';
+import { DigitalFactoryApiError } from './api-error';
+import type { DigitalFactoryDemo } from './digital-factory';
+import { GatewayRequestError } from './gateway-request-error';
+import { Logger, silentLogger } from './logger';
+import { PrinterOfflineError } from './printer-offline-error';
+import { ResponseCache } from './response-cache';
+import { UfpValidationError } from './ufp-validation-error';
+import { getContentType } from './upload';
+
+export const DEFAULT_GATEWAY_PORT = 8420;
+
+const DEFAULT_CACHE_TTL_MS = 5000;
+
+const DEFAULT_MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// The IDs that may be passed on to the API in a path.
+const ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * A request as seen by a route handler of the gateway.
+ */
+interface GatewayRequest {
+    url: URL;
+    params: string[];
+    request: IncomingMessage;
+}
+
+/**
+ * The response a route handler wants to send. Buffers are sent with the given content type, anything else as JSON.
+ */
+interface GatewayResponse {
+    status?: number;
+    contentType?: string;
+    body: unknown;
+}
+
+interface GatewayRoute {
+    method: string;
+    pattern: RegExp;
+    handle: (request: GatewayRequest) => Promise<GatewayResponse>;
+}
+
+/**
+ * The options that may be given to the gateway server.
+ */
+export interface GatewayServerOptions {
+    // the keys the local tools send in the X-Api-Key header, or as a bearer token
+    apiKeys: string[];
+    // how long the responses of the read endpoints are shared between the tools, 5 seconds by default
+    cacheTtlMS?: number;
+    // the most responses that are cached, 1000 by default
+    maxCacheEntries?: number;
+    // the largest file that can be uploaded through the gateway
+    maxUploadBytes?: number;
+    logger?: Logger;
+}
+
+/**
+ * Serves a small HTTP API for local tools, such as dashboards and scripts, through a single signed in client, so
+ * they do not need to sign in themselves. The responses of the read endpoints are cached for a few seconds and
+ * concurrent requests for the same data share a single API request. Every endpoint except `/health` requires one
+ * of the API keys.
+ */
+export class GatewayServer {
+    private readonly _demo: DigitalFactoryDemo;
+
+    private readonly _apiKeyDigests: Buffer[];
+
+    private readonly _cacheTtlMS: number;
+
+    private readonly _maxUploadBytes: number;
+
+    private readonly _logger: Logger;
+
+    private readonly _cache: ResponseCache;
+
+    private readonly _routes: GatewayRoute[];
+
+    private _server: Server | null = null;
+
+    constructor(demo: DigitalFactoryDemo, {
+        apiKeys,
+        cacheTtlMS = DEFAULT_CACHE_TTL_MS,
+        maxCacheEntries,
+        maxUploadBytes = DEFAULT_MAX_UPLOAD_BYTES,
+        logger = silentLogger,
+    }: GatewayServerOptions) {
+        if (apiKeys.filter(Boolean).length === 0) {
+            throw new Error('The gateway needs at least one API key');
+        }
+        this._demo = demo;
+        this._apiKeyDigests = apiKeys.filter(Boolean).map(digest);
+        this._cacheTtlMS = cacheTtlMS;
+        this._cache = new ResponseCache({ maxEntries: maxCacheEntries });
+        this._maxUploadBytes = maxUploadBytes;
+        this._logger = logger;
+        this._routes = [
+            this._route('GET', /^\/clusters$/, () => this._cached('clusters', () => this._demo.getClusters())),
+            this._route('GET', /^\/clusters\/([^/]+)\/printers$/, ({ params: [clusterId] }) => this._cached(
+                `clusters/${clusterId}/printers`,
+                () => this._demo.getClusterPrinters(clusterId),
+            )),
+            this._route('GET', /^\/clusters\/([^/]+)\/printers\/([^/]+)\/webcam$/, (req) => this._webcamSnapshot(req)),
+            this._route('GET', /^\/print-jobs\/running$/, () => this._cached('print-jobs/running', () => this._demo.getRunningPrintJobs())),
+            this._route('GET', /^\/projects$/, ({ url }) => {
+                const search = url.searchParams.get('search') || undefined;
+                return this._cached(`projects?search=${search || ''}`, () => this._demo.listProjects({ search }).toArray());
+            }),
+            this._route('POST', /^\/projects\/([^/]+)\/print$/, (req) => this._uploadAndSubmit(req)),
+        ];
+    }
+
+    /**
+     * Starts serving on the given port, on localhost by default, and resolves with the port that is listened on.
+     */
+    listen(port = DEFAULT_GATEWAY_PORT, host = '127.0.0.1'): Promise<number> {
+        this._server = createServer(this._handleRequest.bind(this));
+        return new Promise((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(port, host, () => resolve((this._server.address() as AddressInfo).port));
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this._server) {
+                resolve();
+                return;
+            }
+            this._server.close(() => resolve());
+            this._server = null;
+        });
+    }
+
+    private _route(method: string, pattern: RegExp, handle: GatewayRoute['handle']): GatewayRoute {
+        return { method, pattern, handle };
+    }
+
+    private async _handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const startMS = Date.now();
+        const url = new URL(request.url, 'http://localhost');
+        let result: GatewayResponse;
+        try {
+            result = await this._dispatch(request, url);
+        } catch (ex) {
+            result = this._getErrorResponse(ex, request.method, url);
+        }
+
+        const { body } = result;
+        const isBinary = Buffer.isBuffer(body);
+        response.writeHead(result.status || 200, { 'Content-Type': isBinary ? result.contentType : 'application/json' });
+        response.end(isBinary ? body : JSON.stringify(body));
+        this._logger.debug(`Gateway ${request.method} ${url.pathname} ${result.status || 200}`, { durationMS: Date.now() - startMS });
+    }
+
+    private async _dispatch(request: IncomingMessage, url: URL): Promise<GatewayResponse> {
+        if (request.method === 'GET' && url.pathname === '/health') {
+            return { body: { data: { status: 'ok' } } };
+        }
+        if (!this._isAuthorized(request)) {
+            throw new GatewayRequestError(401, 'UNAUTHORIZED', 'A valid API key is required');
+        }
+        const route = this._routes.find((r) => r.method === request.method && r.pattern.test(url.pathname));
+        if (!route) {
+            throw new GatewayRequestError(404, 'NOT_FOUND', 'Not found');
+        }
+        const params = route.pattern.exec(url.pathname).slice(1);
+        if (!params.every((param) => ID_PATTERN.test(param))) {
+            throw new GatewayRequestError(400, 'BAD_REQUEST', 'Invalid ID');
+        }
+        return route.handle({ url, params, request });
+    }
+
+    private _isAuthorized(request: IncomingMessage): boolean {
+        const bearer = /^Bearer (.+)$/.exec(request.headers.authorization || '');
+        const apiKey = request.headers['x-api-key'] || (bearer && bearer[1]);
+        if (typeof apiKey !== 'string') {
+            return false;
+        }
+        // comparing digests of the same length in constant time does not reveal how much of a key is right
+        const apiKeyDigest = digest(apiKey);
+        return this._apiKeyDigests.some((keyDigest) => timingSafeEqual(keyDigest, apiKeyDigest));
+    }
+
+    private async _cached(key: string, load: () => Promise<unknown>): Promise<GatewayResponse> {
+        return { body: { data: await this._cache.get(key, this._cacheTtlMS, load) } };
+    }
+
+    private async _webcamSnapshot({ params: [clusterId, printerId] }: GatewayRequest): Promise<GatewayResponse> {
+        const image = await this._cache.get(`clusters/${clusterId}/printers/${printerId}/webcam`, this._cacheTtlMS, async () => {
+            const imageUrl = await this._demo.getWebcamImage(clusterId, printerId, { timeoutMS: 60000 });
+            return this._demo.downloadFile(imageUrl);
+        });
+        return { contentType: 'image/jpeg', body: image };
+    }
+
+    /**
+     * Uploads the request body to the project and prints it on the cluster given in the query. The file name, which
+     * determines the content type, is given in the query as well.
+     */
+    private async _uploadAndSubmit({ url, params: [projectId], request }: GatewayRequest): Promise<GatewayResponse> {
+        const clusterId = url.searchParams.get('cluster');
+        const fileName = url.searchParams.get('name');
+        if (!clusterId || !ID_PATTERN.test(clusterId) || !fileName) {
+            throw new GatewayRequestError(400, 'BAD_REQUEST', 'The cluster and name query parameters are required');
+        }
+        try {
+            getContentType(fileName);
+        } catch (ex) {
+            throw new GatewayRequestError(400, 'BAD_REQUEST', `The file type of ${fileName} cannot be printed`);
+        }
+        const file = await this._readBody(request);
+        const job = await this._demo.uploadFileToProject(projectId, file, { fileName });
+        const { job_instance_uuid } = await this._demo.submitPrintJob(job.job_id, clusterId);
+        this._cache.invalidate('print-jobs/');
+        this._logger.info(`Gateway submitted ${fileName} to cluster ${clusterId}`, { jobId: job.job_id, printJobId: job_instance_uuid });
+        return {
+            status: 201,
+            body: {
+                data: {
+                    job_id: job.job_id,
+                    job_name: job.job_name,
+                    checksum: job.checksum,
+                    job_instance_uuid,
+                },
+            },
+        };
+    }
+
+    private async _readBody(request: IncomingMessage): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        return new Promise((resolve, reject) => {
+            request.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > this._maxUploadBytes) {
+                    request.removeAllListeners('data');
+                    request.resume();
+                    reject(new GatewayRequestError(413, 'PAYLOAD_TOO_LARGE', `Files larger than ${this._maxUploadBytes} bytes cannot be uploaded`));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            request.on('end', () => resolve(Buffer.concat(chunks)));
+            request.on('error', reject);
+        });
+    }
+
+    /**
+     * Responds with the status of the API error where it makes sense to the tool, and otherwise with a bad gateway.
+     */
+    private _getErrorResponse(error: unknown, method: string, url: URL): GatewayResponse {
+        const respond = (status: number, code: string, title: string): GatewayResponse => ({ status, body: { errors: [{ code, title }] } });
+        if (error instanceof GatewayRequestError) {
+            return respond(error.status, error.code, error.message);
+        }
+        if (error instanceof UfpValidationError) {
+            return respond(422, 'INVALID_FILE', error.message);
+        }
+        if (error instanceof PrinterOfflineError) {
+            return respond(409, 'PRINTER_OFFLINE', error.message);
+        }
+        if (error instanceof DigitalFactoryApiError && error.status >= 400 && error.status < 500 && error.status !== 401) {
+            return { status: error.status, body: { errors: error.errors } };
+        }
+        this._logger.error(`Gateway ${method} ${url.pathname} failed`, { error });
+        if (error instanceof ActionTimeoutError) {
+            return respond(504, 'TIMEOUT', error.message);
+        }
+        if (error instanceof DigitalFactoryApiError || error instanceof ActionFailedError) {
+            return respond(502, 'BAD_GATEWAY', error.message);
+        }
+        return respond(500, 'INTERNAL_ERROR', 'The request could not be handled');
+    }
+}
+
+function digest(text: string): Buffer {
+    return createHash('sha256').update(text).digest();
+}
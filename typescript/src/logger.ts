@@ -0,0 +1,82 @@
+import { redactText, redactValue } from './redaction';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = {[name: string]: unknown};
+
+/**
+ * Receives the log messages of the SDK. Implement it to pass them on to the logger of the host application.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Discards all messages. The client logs nothing unless it is given a logger.
+ */
+export const silentLogger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+};
+
+/**
+ * The options that may be given to the console logger.
+ */
+export interface ConsoleLoggerOptions {
+    // the lowest level that is written, 'info' by default
+    level?: LogLevel;
+    // writes a JSON object per line, e.g. for log aggregation, instead of text
+    json?: boolean;
+    stream?: NodeJS.WritableStream;
+}
+
+/**
+ * Creates a logger that writes to stderr by default, so it does not mix with the output of a program.
+ */
+export function createConsoleLogger({ level = 'info', json = false, stream = process.stderr }: ConsoleLoggerOptions = {}): Logger {
+    const minimum = LOG_LEVELS.indexOf(level);
+    const write = (messageLevel: LogLevel) => (message: string, fields: LogFields = {}) => {
+        if (LOG_LEVELS.indexOf(messageLevel) < minimum) {
+            return;
+        }
+        const time = new Date().toISOString();
+        if (json) {
+            stream.write(`${JSON.stringify({
+                time, level: messageLevel, message, ...fields,
+            })}\n`);
+        } else {
+            const hasFields = Object.keys(fields).length > 0;
+            stream.write(`${time} ${messageLevel.toUpperCase()} ${message}${hasFields ? ` ${JSON.stringify(fields)}` : ''}\n`);
+        }
+    };
+    return createRedactingLogger({
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+    });
+}
+
+/**
+ * Wraps a logger so secrets never reach it: tokens, PKCE verifiers and the query strings of signed URLs are removed
+ * from the messages and fields, as are the secrets the given function returns, e.g. the current tokens.
+ */
+export function createRedactingLogger(logger: Logger, getSecrets: () => string[] = () => []): Logger {
+    const redact = (messageLevel: LogLevel) => (message: string, fields?: LogFields) => {
+        const secrets = getSecrets();
+        logger[messageLevel](redactText(message, secrets), fields && redactValue(fields, secrets) as LogFields);
+    };
+    return {
+        debug: redact('debug'),
+        info: redact('info'),
+        warn: redact('warn'),
+        error: redact('error'),
+    };
+}
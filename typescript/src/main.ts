@@ -1,8 +1,37 @@
 import { DigitalFactoryDemo } from './digital-factory';
+import { loadClientOptionsFromEnv } from './client-options';
+import { MemoryTokenStore } from './memory-token-store';
+import { MockDigitalFactoryServer } from './mock-digital-factory-server';
 import { prettyJSON, print } from './print';
+import { aggregateReportRows, parseReportCsv, toJson } from './reports';
 
 async function main(): Promise<void> {
-    const demo = new DigitalFactoryDemo();
+    const options = loadClientOptionsFromEnv();
+    let clusterId = process.env.CLUSTER_ID;
+    const ufpPath = process.env.UFP_PATH;
+
+    // with --mock, everything runs against a local mock server instead of the real Digital Factory
+    let mockServer: MockDigitalFactoryServer = null;
+    if (process.argv.includes('--mock')) {
+        mockServer = new MockDigitalFactoryServer();
+        const mockUrl = await mockServer.start();
+        options.apiRootUrl = mockUrl;
+        options.accountRootUrl = mockUrl;
+        options.tokenStore = new MemoryTokenStore({ tokenPair: mockServer.issueTokenPair(), timestampMs: Date.now() });
+        if (clusterId === 'your-cluster-id') {
+            clusterId = mockServer.clusters[0].cluster_id;
+        }
+        print(`Using the mock Digital Factory server at ${mockUrl}\n`);
+    }
+
+    try {
+        await runDemo(new DigitalFactoryDemo(options), clusterId, ufpPath);
+    } finally {
+        await (mockServer && mockServer.stop());
+    }
+}
+
+async function runDemo(demo: DigitalFactoryDemo, clusterId: string, ufpPath: string): Promise<void> {
     await demo.signIn();
     print('Sign in completed.\n');
 
@@ -14,17 +43,24 @@ async function main(): Promise<void> {
     await demo.addCommentToProject(library_project_id, 'Demo comment');
     print('Comment added.\n');
 
-    const clusterId = process.env.CLUSTER_ID;
-    const ufpPath = process.env.UFP_PATH;
     if (clusterId !== 'your-cluster-id' && ufpPath !== 'path/to/your/file.ufp') {
         print('Uploading file to demo project...');
-        const { job_id } = await demo.uploadFileToProject(library_project_id, ufpPath);
-        print(`Uploaded file with ID: ${job_id}\n`);
+        const { job_id, ufp } = await demo.uploadFileToProject(library_project_id, ufpPath);
+        print(`Uploaded file with ID: ${job_id}`);
+        if (ufp) {
+            print(`Sliced for ${ufp.targetMachine}, estimated print time: ${ufp.estimatedPrintTimeSeconds}s`);
+        }
+        print('');
         print(`Visit https://digitalfactory.ultimaker.com/app/library/project/${library_project_id} to see your project\n`);
 
         print('Submitting a print job');
         const { job_instance_uuid } = await demo.submitPrintJob(job_id, clusterId);
-        print(`Submitted print job with ID: ${job_instance_uuid}\n`);
+        print(`Submitted print job with ID: ${job_instance_uuid}`);
+        // new print jobs take a while to show up, the watcher waits for that
+        for await (const { type } of demo.watchPrintJob(job_instance_uuid, { intervalMS: 2000 })) { // eslint-disable-line no-restricted-syntax
+            print(`The print job is ${type}.\n`);
+            break;
+        }
     } else {
         print('(Skipping print job submission. Configure a cluster ID and UFP in \'config.env\' for this part of the demo.)');
     }
@@ -39,7 +75,7 @@ async function main(): Promise<void> {
     }
 
     print('Searching projects.');
-    const projects = await demo.searchProjects();
+    const projects = await demo.searchProjects('demo');
     if (projects.length > 0) {
         print(`Total projects retrieved: ${projects.length}`);
         print(`First project retrieved: ${prettyJSON(projects[0])}\n`);
@@ -53,14 +89,24 @@ async function main(): Promise<void> {
     if (onlineClusters.length !== 0) {
         const webcamClusterId = onlineClusters[0].cluster_id;
         const webcamPrinterId = onlineClusters[0].host_printer.uuid;
-        const imageUrl = await demo.getWebcamImage(webcamClusterId, webcamPrinterId);
+        print('Requesting webcam image');
+        const imageUrl = await demo.getWebcamImage(webcamClusterId, webcamPrinterId, {
+            timeoutMS: 60000,
+            onProgress: (status) => print(`Webcam image status: ${status.status}`),
+        });
         print(`Received webcam image URL: ${imageUrl}`);
     }
 
     print('');
     const clusterIds = clusters.map((c) => c.cluster_id);
-    const reportUrl = await demo.generateReport(clusterIds);
+    print('Requesting report generation');
+    const reportUrl = await demo.generateReport(clusterIds, {}, {
+        onProgress: (status) => print(`Report status: ${status.status}`),
+    });
     print(`Received report download URL: ${reportUrl}`);
+
+    const reportRows = parseReportCsv(await demo.downloadReport(reportUrl));
+    print(`Print jobs per cluster in the last seven days: ${toJson(aggregateReportRows(reportRows, 'cluster'))}`);
 }
 
 main()
@@ -0,0 +1,24 @@
+import { StoredTokens, TokenStore } from './token-store';
+
+/**
+ * Keeps the tokens in memory only, which is useful for tests and short-lived scripts.
+ */
+export class MemoryTokenStore implements TokenStore {
+    private _tokens: StoredTokens | null;
+
+    constructor(tokens: StoredTokens | null = null) {
+        this._tokens = tokens;
+    }
+
+    async load(): Promise<StoredTokens | null> {
+        return this._tokens;
+    }
+
+    async save(tokens: StoredTokens): Promise<void> {
+        this._tokens = tokens;
+    }
+
+    async clear(): Promise<void> {
+        this._tokens = null;
+    }
+}
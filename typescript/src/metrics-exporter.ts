@@ -0,0 +1,158 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import type { ClientInstrumentation, RequestInfo } from './client-options';
+import { MetricsRegistry } from './metrics-registry';
+import type { ClusterStatus, MonitorEvent } from './monitor-events';
+import { getPrintJobProgress } from './print-job-status';
+
+export const DEFAULT_METRICS_PORT = 9464;
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Exposes the state of the clusters, printers and print jobs found by the monitor, and the requests made by the
+ * client, as Prometheus metrics on `/metrics`.
+ */
+export class MetricsExporter {
+    readonly registry = new MetricsRegistry();
+
+    // pass this to the client options to collect the API request and token refresh metrics
+    readonly instrumentation: ClientInstrumentation = {
+        onRequest: (request) => this.recordRequest(request),
+        onTokenRefresh: () => this.registry.inc('digital_factory_token_refreshes_total'),
+    };
+
+    private _server: Server | null = null;
+
+    constructor() {
+        [
+            { name: 'digital_factory_cluster_online', help: 'Whether the cluster is online (1) or not (0).' },
+            { name: 'digital_factory_printer_state', help: 'The current state of the printer, which is set to 1.' },
+            { name: 'digital_factory_print_job_progress', help: 'The progress of the active print job between 0 and 1.' },
+            { name: 'digital_factory_print_job_remaining_seconds', help: 'The estimated remaining print time of the active print job.' },
+            { name: 'digital_factory_monitor_last_poll_timestamp_seconds', help: 'The time of the last successful poll of the clusters.' },
+        ].forEach((metric) => this.registry.register({ ...metric, type: 'gauge' }));
+        [
+            { name: 'digital_factory_print_jobs_completed_total', help: 'The number of print jobs seen finishing.' },
+            { name: 'digital_factory_print_jobs_failed_total', help: 'The number of print jobs seen failing or being aborted.' },
+            { name: 'digital_factory_monitor_poll_errors_total', help: 'The number of polls of the clusters that failed.' },
+            { name: 'digital_factory_api_request_errors_total', help: 'The number of API requests that failed or returned an error status.' },
+            { name: 'digital_factory_token_refreshes_total', help: 'The number of access token refreshes.' },
+        ].forEach((metric) => this.registry.register({ ...metric, type: 'counter' }));
+        this.registry.register({
+            name: 'digital_factory_api_request_duration_seconds',
+            help: 'The duration of the API requests, including each retry.',
+            type: 'histogram',
+        });
+        // make the counters without labels visible before they are first increased
+        this.registry.inc('digital_factory_monitor_poll_errors_total', {}, 0);
+        this.registry.inc('digital_factory_token_refreshes_total', {}, 0);
+    }
+
+    /**
+     * Replaces the cluster, printer and print job gauges with the state from the latest poll.
+     */
+    updateClusters(clusters: ClusterStatus[], dateTime: Date): void {
+        [
+            'digital_factory_cluster_online',
+            'digital_factory_printer_state',
+            'digital_factory_print_job_progress',
+            'digital_factory_print_job_remaining_seconds',
+        ].forEach((name) => this.registry.clear(name));
+
+        clusters.forEach((cluster) => {
+            const clusterLabels = { cluster_id: cluster.cluster_id };
+            this.registry.set('digital_factory_cluster_online', clusterLabels, cluster.is_online ? 1 : 0);
+            (cluster.printers || []).forEach((printer) => {
+                this.registry.set('digital_factory_printer_state', {
+                    ...clusterLabels,
+                    printer_id: printer.uuid,
+                    printer_name: printer.friendly_name || '',
+                    state: printer.status,
+                }, 1);
+            });
+            (cluster.print_jobs || []).forEach((printJob) => {
+                const jobLabels = {
+                    ...clusterLabels,
+                    print_job_id: printJob.uuid,
+                    print_job_name: printJob.name,
+                    printer_id: printJob.cluster_printer_id || '',
+                };
+                const progress = getPrintJobProgress(printJob);
+                if (progress !== null) {
+                    this.registry.set('digital_factory_print_job_progress', jobLabels, progress);
+                    this.registry.set('digital_factory_print_job_remaining_seconds', jobLabels, printJob.time_total - printJob.time_elapsed);
+                }
+            });
+        });
+        this.registry.set('digital_factory_monitor_last_poll_timestamp_seconds', {}, dateTime.getTime() / 1000);
+    }
+
+    /**
+     * Counts the finished and failed print jobs among the events detected by the monitor.
+     */
+    recordEvents(events: MonitorEvent[]): void {
+        events.forEach((event) => {
+            if (event.type === 'job_finished') {
+                this.registry.inc('digital_factory_print_jobs_completed_total', { cluster_id: event.clusterId });
+            } else if (event.type === 'job_failed') {
+                this.registry.inc('digital_factory_print_jobs_failed_total', { cluster_id: event.clusterId });
+            }
+        });
+    }
+
+    recordPollError(): void {
+        this.registry.inc('digital_factory_monitor_poll_errors_total');
+    }
+
+    recordRequest({
+        method, url, status, durationMS,
+    }: RequestInfo): void {
+        const labels = { method, endpoint: getEndpointLabel(url), status: status === null ? 'error' : `${status}` };
+        this.registry.observe('digital_factory_api_request_duration_seconds', labels, durationMS / 1000);
+        if (status === null || status >= 400) {
+            this.registry.inc('digital_factory_api_request_errors_total', labels);
+        }
+    }
+
+    /**
+     * Starts serving the metrics on the given port, and resolves with the port that is listened on.
+     */
+    listen(port = DEFAULT_METRICS_PORT): Promise<number> {
+        this._server = createServer((request, response) => {
+            if (request.method !== 'GET' || request.url.split('?')[0] !== '/metrics') {
+                response.writeHead(404, { 'Content-Type': 'text/plain' });
+                response.end('Not found, the metrics are served on /metrics\n');
+                return;
+            }
+            response.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+            response.end(this.registry.render());
+        });
+        return new Promise((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(port, () => resolve((this._server.address() as AddressInfo).port));
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this._server) {
+                resolve();
+                return;
+            }
+            this._server.close(() => resolve());
+            this._server = null;
+        });
+    }
+}
+
+/**
+ * Gets the path of the requested URL with the IDs replaced, to keep the number of label values small.
+ */
+function getEndpointLabel(url: string): string {
+    const { pathname } = new URL(url);
+    return pathname
+        .split('/')
+        .map((segment) => (/\d/.test(segment) && segment.length >= 8 ? ':id' : segment))
+        .join('/');
+}
@@ -0,0 +1,75 @@
+import { MetricsRegistry } from './metrics-registry';
+
+describe('MetricsRegistry', () => {
+    let registry: MetricsRegistry;
+
+    beforeEach(() => {
+        registry = new MetricsRegistry();
+    });
+
+    it('renders gauges and counters with their type', () => {
+        registry.register({ name: 'printers_online', help: 'The number of online printers.', type: 'gauge' });
+        registry.register({ name: 'api_requests_total', help: 'The number of API requests.', type: 'counter' });
+        registry.set('printers_online', { cluster: 'cluster-1' }, 2);
+        registry.set('printers_online', { cluster: 'cluster-1' }, 3);
+        registry.inc('api_requests_total');
+        registry.inc('api_requests_total', {}, 2);
+        expect(registry.render()).toBe([
+            '# HELP printers_online The number of online printers.',
+            '# TYPE printers_online gauge',
+            'printers_online{cluster="cluster-1"} 3',
+            '# HELP api_requests_total The number of API requests.',
+            '# TYPE api_requests_total counter',
+            'api_requests_total 3',
+            '',
+        ].join('\n'));
+    });
+
+    it('renders the cumulative histogram buckets up to +Inf, with the sum and count', () => {
+        registry.register({
+            name: 'request_duration_seconds', help: 'The duration of the requests.', type: 'histogram', buckets: [0.1, 1],
+        });
+        [0.05, 0.1, 0.5, 3].forEach((value) => registry.observe('request_duration_seconds', { route: '/clusters' }, value));
+        expect(registry.render()).toBe([
+            '# HELP request_duration_seconds The duration of the requests.',
+            '# TYPE request_duration_seconds histogram',
+            'request_duration_seconds_bucket{le="0.1",route="/clusters"} 2',
+            'request_duration_seconds_bucket{le="1",route="/clusters"} 3',
+            'request_duration_seconds_bucket{le="+Inf",route="/clusters"} 4',
+            'request_duration_seconds_sum{route="/clusters"} 3.65',
+            'request_duration_seconds_count{route="/clusters"} 4',
+            '',
+        ].join('\n'));
+    });
+
+    it('escapes the label values and the help text', () => {
+        registry.register({ name: 'printer_up', help: 'Whether the printer is up,\nas 1 or 0 (see C:\\docs).', type: 'gauge' });
+        registry.set('printer_up', { name: 'Printer "A"\\B\nC' }, 1);
+        expect(registry.render().split('\n')).toEqual([
+            '# HELP printer_up Whether the printer is up,\\nas 1 or 0 (see C:\\\\docs).',
+            '# TYPE printer_up gauge',
+            'printer_up{name="Printer \\"A\\"\\\\B\\nC"} 1',
+            '',
+        ]);
+    });
+
+    it('sorts the labels, so their order does not make another sample', () => {
+        registry.register({ name: 'jobs', help: 'Jobs.', type: 'counter' });
+        registry.inc('jobs', { status: 'queued', cluster: 'cluster-1' });
+        registry.inc('jobs', { cluster: 'cluster-1', status: 'queued' });
+        expect(registry.render()).toContain('\njobs{cluster="cluster-1",status="queued"} 2\n');
+    });
+
+    it('forgets the samples of a cleared metric', () => {
+        registry.register({ name: 'printers_online', help: 'Printers.', type: 'gauge' });
+        registry.set('printers_online', { cluster: 'cluster-1' }, 1);
+        registry.clear('printers_online');
+        expect(registry.render()).toBe('# HELP printers_online Printers.\n# TYPE printers_online gauge\n');
+    });
+
+    it('refuses values of a metric that is not registered as that type', () => {
+        registry.register({ name: 'api_requests_total', help: 'Requests.', type: 'counter' });
+        expect(() => registry.set('api_requests_total', {}, 1)).toThrow('The metric api_requests_total is not registered as a gauge');
+        expect(() => registry.observe('unknown', {}, 1)).toThrow('The metric unknown is not registered as a histogram');
+    });
+});
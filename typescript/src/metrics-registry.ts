@@ -0,0 +1,143 @@
+export type MetricType = 'gauge' | 'counter' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * The definition of a metric, as shown in the HELP and TYPE lines of the exposition format.
+ */
+export interface MetricDefinition {
+    name: string;
+    help: string;
+    type: MetricType;
+    // the upper bounds of the histogram buckets, without the +Inf bucket
+    buckets?: number[];
+}
+
+/**
+ * The value of a metric for one combination of labels.
+ */
+interface MetricSample {
+    labels: MetricLabels;
+    value: number;
+    // for histograms, the number of observations per bucket (not cumulative)
+    bucketCounts?: number[];
+    count?: number;
+}
+
+// The default histogram buckets in seconds, suited for HTTP request durations.
+export const DEFAULT_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Keeps gauges, counters and histograms in memory and renders them in the Prometheus text exposition format.
+ */
+export class MetricsRegistry {
+    private readonly _metrics = new Map<string, { definition: MetricDefinition, samples: Map<string, MetricSample> }>();
+
+    /**
+     * Adds a metric to the registry. Its values can be set once it is registered.
+     */
+    register(definition: MetricDefinition): void {
+        const buckets = definition.type === 'histogram' ? definition.buckets || DEFAULT_DURATION_BUCKETS : undefined;
+        this._metrics.set(definition.name, { definition: { ...definition, buckets }, samples: new Map() });
+    }
+
+    /**
+     * Sets the value of a gauge.
+     */
+    set(name: string, labels: MetricLabels, value: number): void {
+        this._getSample(name, labels, 'gauge').value = value;
+    }
+
+    /**
+     * Increases a counter, or a gauge.
+     */
+    inc(name: string, labels: MetricLabels = {}, amount = 1): void {
+        this._getSample(name, labels, 'counter', 'gauge').value += amount;
+    }
+
+    /**
+     * Adds an observation, e.g. a duration in seconds, to a histogram.
+     */
+    observe(name: string, labels: MetricLabels, value: number): void {
+        const sample = this._getSample(name, labels, 'histogram');
+        const { buckets } = this._metrics.get(name).definition;
+        const bucket = buckets.findIndex((upperBound) => value <= upperBound);
+        sample.bucketCounts[bucket >= 0 ? bucket : buckets.length] += 1;
+        sample.count += 1;
+        sample.value += value;
+    }
+
+    /**
+     * Removes all values of a metric, e.g. to drop the gauges of printers that no longer exist before setting them again.
+     */
+    clear(name: string): void {
+        this._metrics.get(name).samples.clear();
+    }
+
+    /**
+     * Renders all metrics in the Prometheus text exposition format.
+     */
+    render(): string {
+        const lines: string[] = [];
+        this._metrics.forEach(({ definition, samples }) => {
+            lines.push(`# HELP ${definition.name} ${escapeHelp(definition.help)}`);
+            lines.push(`# TYPE ${definition.name} ${definition.type}`);
+            samples.forEach((sample) => {
+                if (definition.type !== 'histogram') {
+                    lines.push(`${definition.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+                    return;
+                }
+                let cumulativeCount = 0;
+                [...definition.buckets, Infinity].forEach((upperBound, i) => {
+                    cumulativeCount += sample.bucketCounts[i];
+                    const labels = formatLabels({ ...sample.labels, le: formatValue(upperBound) });
+                    lines.push(`${definition.name}_bucket${labels} ${cumulativeCount}`);
+                });
+                lines.push(`${definition.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+                lines.push(`${definition.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+            });
+        });
+        return `${lines.join('\n')}\n`;
+    }
+
+    private _getSample(name: string, labels: MetricLabels, ...types: MetricType[]): MetricSample {
+        const metric = this._metrics.get(name);
+        if (!metric || !types.includes(metric.definition.type)) {
+            throw new Error(`The metric ${name} is not registered as a ${types.join(' or ')}`);
+        }
+        const key = formatLabels(labels);
+        if (!metric.samples.has(key)) {
+            const histogram = metric.definition.type === 'histogram';
+            metric.samples.set(key, {
+                labels,
+                value: 0,
+                bucketCounts: histogram ? new Array(metric.definition.buckets.length + 1).fill(0) : undefined,
+                count: histogram ? 0 : undefined,
+            });
+        }
+        return metric.samples.get(key);
+    }
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.keys(labels).sort().map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) {
+        return '+Inf';
+    }
+    if (value === -Infinity) {
+        return '-Inf';
+    }
+    return Number.isNaN(value) ? 'NaN' : `${value}`;
+}
+
+function escapeLabelValue(value: string): string {
+    return `${value}`.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,788 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+    createServer, IncomingMessage, Server, ServerResponse,
+} from 'http';
+import { AddressInfo } from 'net';
+import type { TokenResponse } from './digital-factory';
+import { ACTIVE_PRINT_JOB_STATUSES } from './print-job-status';
+
+/**
+ * A request as seen by a route handler of the mock server.
+ */
+interface MockRequest {
+    method: string;
+    url: URL;
+    params: string[];
+    headers: IncomingMessage['headers'];
+    body: Buffer;
+}
+
+/**
+ * The response a route handler wants to send. Objects are sent as JSON.
+ */
+interface MockResponse {
+    status?: number;
+    headers?: {[key: string]: string};
+    body?: any;
+}
+
+interface MockRoute {
+    method: string;
+    pattern: RegExp;
+    // whether the route requires a valid access token, like the real API does
+    authenticated: boolean;
+    handle: (request: MockRequest) => MockResponse;
+}
+
+/**
+ * The state of a report or action, which moves to 'success' after a number of status requests.
+ */
+interface MockPendingStatus {
+    remainingPolls: number;
+    data: any;
+}
+
+// The amount of status requests before a report or action finishes, to exercise the polling in the client.
+const POLLS_UNTIL_FINISHED = 2;
+
+const ACCESS_TOKEN_LIFETIME_SECONDS = 3600;
+
+const CLUSTER_OFFLINE: MockResponse = { status: 409, body: { errors: [{ code: 'CLUSTER_OFFLINE', title: 'The cluster is offline' }] } };
+
+const PROJECT_NOT_FOUND: MockResponse = { status: 404, body: { errors: [{ code: 'PROJECT_NOT_FOUND', title: 'Project not found' }] } };
+
+// The materials loaded in the mock printers, the GUIDs of the generic PLA and PVA materials.
+export const MOCK_PLA_GUID = '506c9f0d-e3aa-4bd4-b2d2-23e2425b1aa9';
+
+export const MOCK_PVA_GUID = '86a89ceb-4159-47f6-ab97-e9953803d70f';
+
+/**
+ * An in-process HTTP server that emulates the parts of the Digital Factory API and the OAuth server used by the
+ * SDK, so the SDK can be used offline and in tests. All data is kept in memory and lost when the server stops.
+ */
+export class MockDigitalFactoryServer {
+    readonly projects = new Map<string, any>();
+
+    readonly comments = new Map<string, any[]>();
+
+    readonly jobs = new Map<string, any>();
+
+    readonly uploads = new Map<string, Buffer>();
+
+    readonly clusters: any[] = [
+        {
+            cluster_id: 'mock-cluster-1',
+            friendly_name: 'Mock Printer Group 1',
+            is_online: true,
+            printer_count: 1,
+            host_printer: {
+                uuid: 'mock-printer-1',
+                friendly_name: 'Mock Printer 1',
+                machine_variant: 'Ultimaker S5',
+                status: 'idle',
+                configuration: [
+                    { extruder_index: 0, print_core_id: 'AA 0.4', material: { guid: MOCK_PLA_GUID, material: 'PLA' } },
+                    { extruder_index: 1, print_core_id: 'BB 0.4', material: { guid: MOCK_PVA_GUID, material: 'PVA' } },
+                ],
+            },
+        },
+        {
+            cluster_id: 'mock-cluster-2',
+            friendly_name: 'Mock Printer Group 2',
+            is_online: false,
+            printer_count: 1,
+            host_printer: {
+                uuid: 'mock-printer-2',
+                friendly_name: 'Mock Printer 2',
+                machine_variant: 'Ultimaker S3',
+                status: 'unknown',
+                configuration: [
+                    { extruder_index: 0, print_core_id: 'AA 0.4', material: { guid: MOCK_PLA_GUID, material: 'PLA' } },
+                    { extruder_index: 1, print_core_id: 'AA 0.4', material: null },
+                ],
+            },
+        },
+    ];
+
+    // the printers of each cluster, by cluster ID
+    readonly printers = new Map<string, any[]>(this.clusters.map((cluster) => [cluster.cluster_id, [{ ...cluster.host_printer }]]));
+
+    readonly printJobs: any[] = [];
+
+    // how long a submitted print job is not found, like in the API where it takes a while to show up
+    printJobVisibilityDelayMS = 0;
+
+    readonly reports = new Map<string, MockPendingStatus>();
+
+    readonly actions = new Map<string, MockPendingStatus>();
+
+    private readonly _accessTokens = new Set<string>();
+
+    private readonly _refreshTokens = new Set<string>();
+
+    // the PKCE code challenge of each authorization code that was issued
+    private readonly _authorizationCodes = new Map<string, string>();
+
+    // when each print job that is not visible yet shows up, by print job ID
+    private readonly _printJobsVisibleAt = new Map<string, number>();
+
+    private _signInError: string = null;
+
+    private readonly _routes: MockRoute[];
+
+    private _uploadFailures: number[] = [];
+
+    private _actionFailures = 0;
+
+    private _server: Server = null;
+
+    private _baseUrl: string = null;
+
+    constructor() {
+        this._routes = [
+            this._route('GET', /^\/authorize$/, false, (req) => this._authorize(req)),
+            this._route('POST', /^\/device\/code$/, false, () => this._deviceCode()),
+            this._route('POST', /^\/token$/, false, (req) => this._token(req)),
+            this._route('PUT', /^\/cura\/v1\/projects$/, true, (req) => this._createProject(req)),
+            this._route('GET', /^\/cura\/v1\/projects$/, true, (req) => this._listProjects(req)),
+            this._route('GET', /^\/cura\/v1\/projects\/([^/]+)$/, true, (req) => this._getProject(req)),
+            this._route('PATCH', /^\/cura\/v1\/projects\/([^/]+)$/, true, (req) => this._updateProject(req)),
+            this._route('DELETE', /^\/cura\/v1\/projects\/([^/]+)$/, true, (req) => this._deleteProject(req)),
+            this._route('GET', /^\/cura\/v1\/projects\/([^/]+)\/files$/, true, (req) => this._listProjectFiles(req)),
+            this._route('GET', /^\/cura\/v1\/projects\/([^/]+)\/files\/([^/]+)$/, true, (req) => this._getProjectFile(req)),
+            this._route('PUT', /^\/cura\/v1\/projects\/([^/]+)\/comments$/, true, (req) => this._addComment(req)),
+            this._route('GET', /^\/cura\/v1\/projects\/([^/]+)\/comments$/, true, (req) => this._listComments(req)),
+            this._route('DELETE', /^\/cura\/v1\/projects\/([^/]+)\/comments\/([^/]+)$/, true, (req) => this._deleteComment(req)),
+            this._route('PUT', /^\/cura\/v1\/jobs\/upload$/, true, (req) => this._requestUpload(req)),
+            this._route('PUT', /^\/uploads\/([^/]+)$/, false, (req) => this._upload(req)),
+            this._route('GET', /^\/connect\/v1\/clusters$/, true, (req) => this._page(req, this.clusters)),
+            this._route('GET', /^\/connect\/v1\/clusters\/([^/]+)\/printers$/, true, (req) => this._listPrinters(req)),
+            this._route('POST', /^\/connect\/v1\/clusters\/([^/]+)\/print\/([^/]+)$/, true, (req) => this._print(req)),
+            this._route('POST', /^\/connect\/v1\/clusters\/([^/]+)\/printers\/([^/]+)\/action\/([^/]+)$/, true, (req) => this._startAction(req)),
+            this._route('POST', /^\/connect\/v1\/clusters\/([^/]+)\/print_jobs\/([^/]+)\/action\/([^/]+)$/, true, (req) => this._startPrintJobAction(req)),
+            this._route('GET', /^\/connect\/v1\/clusters\/([^/]+)\/action_status\/([^/]+)$/, true, (req) => this._pollStatus(this.actions, req.params[1])),
+            this._route('GET', /^\/connect\/v1\/print_jobs$/, true, (req) => this._listPrintJobs(req)),
+            this._route('GET', /^\/connect\/v1\/print_jobs\/([^/]+)$/, true, (req) => this._getPrintJob(req)),
+            this._route('PUT', /^\/report\/v1\/reports$/, true, (req) => this._createReport(req)),
+            this._route('GET', /^\/report\/v1\/reports\/([^/]+)$/, true, (req) => this._pollStatus(this.reports, req.params[0])),
+            this._route('GET', /^\/downloads\/(.+)$/, false, (req) => this._download(req)),
+        ];
+    }
+
+    /**
+     * The URL the server is listening on, which serves as both the API root and the account root URL.
+     */
+    get baseUrl(): string {
+        return this._baseUrl;
+    }
+
+    /**
+     * Starts listening on the given port, or on a random free port by default. Resolves with the base URL.
+     */
+    start(port = 0): Promise<string> {
+        this._server = createServer(this._handleRequest.bind(this));
+        return new Promise((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(port, '127.0.0.1', () => {
+                const address = this._server.address() as AddressInfo;
+                this._baseUrl = `http://127.0.0.1:${address.port}`;
+                resolve(this._baseUrl);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this._server) {
+                resolve();
+                return;
+            }
+            this._server.close((error) => (error ? reject(error) : resolve()));
+            this._server = null;
+        });
+    }
+
+    /**
+     * Issues a token pair directly, e.g. to seed a token store so no sign-in is needed.
+     */
+    issueTokenPair(): TokenResponse {
+        const tokenPair: TokenResponse = {
+            access_token: randomBytes(16).toString('hex'),
+            expires_in: ACCESS_TOKEN_LIFETIME_SECONDS,
+            refresh_token: randomBytes(16).toString('hex'),
+            scope: '',
+            token_type: 'Bearer',
+        };
+        this._accessTokens.add(tokenPair.access_token);
+        this._refreshTokens.add(tokenPair.refresh_token);
+        return tokenPair;
+    }
+
+    /**
+     * Makes all issued access tokens invalid, so the next API request gets a 401 response.
+     */
+    expireAccessTokens(): void {
+        this._accessTokens.clear();
+    }
+
+    /**
+     * Makes the next uploads to a signed URL fail with the given status codes, e.g. 403 for an expired URL.
+     */
+    failNextUploads(...statuses: number[]): void {
+        this._uploadFailures.push(...statuses);
+    }
+
+    /**
+     * Lets a printing print job progress by the given amount of seconds. Once its total time has passed, it is
+     * finished and its printer waits for the build plate to be cleared.
+     */
+    advancePrintJob(printJobId: string, seconds: number): void {
+        const printJob = this.printJobs.find((job) => job.uuid === printJobId);
+        if (!printJob || printJob.status !== 'in_progress') {
+            throw new Error(`Print job ${printJobId} is not printing`);
+        }
+        printJob.time_elapsed = Math.min(printJob.time_elapsed + seconds, printJob.time_total);
+        if (printJob.time_elapsed === printJob.time_total) {
+            printJob.status = 'finished';
+            const printer = (this.printers.get(printJob.cluster_id) || []).find((p) => p.uuid === printJob.cluster_printer_id);
+            printer && (printer.status = 'wait_cleanup'); // eslint-disable-line no-unused-expressions
+        }
+    }
+
+    /**
+     * Makes the next sign-in in the browser fail with the given OAuth error, as if the user denied access.
+     */
+    rejectNextSignIn(error = 'access_denied'): void {
+        this._signInError = error;
+    }
+
+    /**
+     * Makes the next given amount of printer actions end with the 'failed' status.
+     */
+    failNextActions(count = 1): void {
+        this._actionFailures += count;
+    }
+
+    private _route(method: string, pattern: RegExp, authenticated: boolean, handle: MockRoute['handle']): MockRoute {
+        return {
+            method, pattern, authenticated, handle,
+        };
+    }
+
+    private async _handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        await new Promise((resolve) => req.on('end', resolve));
+
+        const url = new URL(req.url, this._baseUrl);
+        let response: MockResponse = { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Not found' }] } };
+        const route = this._routes.find((r) => r.method === req.method && r.pattern.test(url.pathname));
+        if (route && route.authenticated && !this._isAuthorized(req)) {
+            response = { status: 401, body: { errors: [{ code: 'UNAUTHORIZED', title: 'Invalid or expired token' }] } };
+        } else if (route) {
+            try {
+                response = route.handle({
+                    method: req.method,
+                    url,
+                    params: route.pattern.exec(url.pathname).slice(1),
+                    headers: req.headers,
+                    body: Buffer.concat(chunks),
+                });
+            } catch (ex) {
+                response = { status: 400, body: { errors: [{ code: 'BAD_REQUEST', title: `${ex}` }] } };
+            }
+        }
+
+        const isBinary = Buffer.isBuffer(response.body) || typeof response.body === 'string';
+        res.writeHead(response.status || 200, {
+            'Content-Type': isBinary ? 'application/octet-stream' : 'application/json',
+            'X-Request-Id': randomUUID(),
+            ...response.headers,
+        });
+        res.end(isBinary ? response.body : JSON.stringify(response.body));
+    }
+
+    private _isAuthorized(req: IncomingMessage): boolean {
+        const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+        return !!match && this._accessTokens.has(match[1]);
+    }
+
+    private _json(req: MockRequest): any {
+        return JSON.parse(req.body.toString('utf-8'));
+    }
+
+    /**
+     * Returns a single page of the given items, using the same limit & page query parameters as the API.
+     */
+    private _page(req: MockRequest, items: any[]): MockResponse {
+        const limit = Number(req.url.searchParams.get('limit') || 50);
+        const page = Number(req.url.searchParams.get('page') || 1);
+        const data = items.slice((page - 1) * limit, page * limit);
+        const links: {[key: string]: string} = {};
+        if (page * limit < items.length) {
+            const next = new URL(req.url.toString());
+            next.searchParams.set('page', `${page + 1}`);
+            links.next = next.toString();
+        }
+        return { body: { data, links, meta: { total_count: items.length } } };
+    }
+
+    private _authorize(req: MockRequest): MockResponse {
+        // signs in immediately, as if the user logged in in the browser
+        const redirect = new URL(req.url.searchParams.get('redirect_uri'));
+        if (this._signInError) {
+            redirect.searchParams.set('error', this._signInError);
+            redirect.searchParams.set('error_description', 'The user did not allow access');
+            this._signInError = null;
+        } else if (req.url.searchParams.get('code_challenge_method') !== 'S256') {
+            redirect.searchParams.set('error', 'invalid_request');
+            redirect.searchParams.set('error_description', 'Only the S256 code challenge method is supported');
+        } else {
+            const code = randomBytes(8).toString('hex');
+            this._authorizationCodes.set(code, req.url.searchParams.get('code_challenge'));
+            redirect.searchParams.set('code', code);
+        }
+        redirect.searchParams.set('state', req.url.searchParams.get('state'));
+        return { status: 302, headers: { Location: redirect.toString() }, body: {} };
+    }
+
+    private _deviceCode(): MockResponse {
+        return {
+            body: {
+                device_code: randomBytes(8).toString('hex'),
+                user_code: 'MOCK-CODE',
+                verification_uri: `${this._baseUrl}/device`,
+                expires_in: 600,
+                interval: 1,
+            },
+        };
+    }
+
+    private _token(req: MockRequest): MockResponse {
+        const params = new URLSearchParams(req.body.toString('utf-8'));
+        if (params.get('grant_type') === 'refresh_token') {
+            const refreshToken = params.get('refresh_token');
+            if (!this._refreshTokens.has(refreshToken)) {
+                return { status: 400, body: { error: 'invalid_grant', error_description: 'Unknown refresh token' } };
+            }
+            this._refreshTokens.delete(refreshToken);
+        } else if (params.get('grant_type') === 'authorization_code') {
+            const challenge = this._authorizationCodes.get(params.get('code'));
+            this._authorizationCodes.delete(params.get('code'));
+            const verifier = params.get('code_verifier') || '';
+            if (!challenge || createHash('sha256').update(verifier).digest('base64url') !== challenge) {
+                return { status: 400, body: { error: 'invalid_grant', error_description: 'Unknown code or wrong code verifier' } };
+            }
+        }
+        return { body: this.issueTokenPair() };
+    }
+
+    private _createProject(req: MockRequest): MockResponse {
+        const { data } = this._json(req);
+        const project = {
+            library_project_id: randomUUID(),
+            display_name: data.display_name,
+            created_at: new Date().toISOString(),
+            last_updated: new Date().toISOString(),
+            is_shared: false,
+        };
+        this.projects.set(project.library_project_id, project);
+        return { body: { data: project } };
+    }
+
+    private _listProjects(req: MockRequest): MockResponse {
+        const search = (req.url.searchParams.get('search') || '').toLowerCase();
+        const shared = req.url.searchParams.get('shared');
+        const projects = [...this.projects.values()].filter((project) => (
+            project.display_name.toLowerCase().includes(search)
+            && (shared === null || `${project.is_shared}` === shared)
+        ));
+        return this._page(req, projects);
+    }
+
+    private _getProject(req: MockRequest): MockResponse {
+        const project = this.projects.get(req.params[0]);
+        if (!project) {
+            return PROJECT_NOT_FOUND;
+        }
+        return { body: { data: project } };
+    }
+
+    private _updateProject(req: MockRequest): MockResponse {
+        const project = this.projects.get(req.params[0]);
+        if (!project) {
+            return PROJECT_NOT_FOUND;
+        }
+        const { data } = this._json(req);
+        if (data.display_name !== undefined) {
+            project.display_name = data.display_name;
+        }
+        if (data.is_shared !== undefined) {
+            project.is_shared = data.is_shared;
+        }
+        project.last_updated = new Date().toISOString();
+        return { body: { data: project } };
+    }
+
+    private _deleteProject(req: MockRequest): MockResponse {
+        const [projectId] = req.params;
+        if (!this.projects.delete(projectId)) {
+            return PROJECT_NOT_FOUND;
+        }
+        this.comments.delete(projectId);
+        [...this.jobs.values()].filter((job) => job.library_project_id === projectId).forEach((job) => {
+            this.jobs.delete(job.job_id);
+            this.uploads.delete(job.job_id);
+        });
+        return { status: 204 };
+    }
+
+    private _listProjectFiles(req: MockRequest): MockResponse {
+        const [projectId] = req.params;
+        if (!this.projects.has(projectId)) {
+            return PROJECT_NOT_FOUND;
+        }
+        const files = [...this.jobs.values()]
+            .filter((job) => job.library_project_id === projectId && job.status === 'uploaded')
+            .map((job) => this._toProjectFile(job));
+        return this._page(req, files);
+    }
+
+    private _getProjectFile(req: MockRequest): MockResponse {
+        const [projectId, fileId] = req.params;
+        const job = this.jobs.get(fileId);
+        if (!job || job.library_project_id !== projectId || job.status !== 'uploaded') {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'File not found' }] } };
+        }
+        return { body: { data: this._toProjectFile(job) } };
+    }
+
+    /**
+     * The files of a project are the jobs uploaded to it, downloaded from a URL that needs no authorization.
+     */
+    private _toProjectFile(job: any): any {
+        return {
+            file_id: job.job_id,
+            file_name: job.job_name,
+            content_type: job.content_type,
+            file_size: this.uploads.get(job.job_id).length,
+            library_project_id: job.library_project_id,
+            status: job.status,
+            uploaded_at: job.uploaded_at,
+            download_url: `${this._baseUrl}/downloads/files/${job.job_id}`,
+        };
+    }
+
+    private _addComment(req: MockRequest): MockResponse {
+        const [projectId] = req.params;
+        if (!this.projects.has(projectId)) {
+            return PROJECT_NOT_FOUND;
+        }
+        const { data } = this._json(req);
+        const comment = {
+            comment_id: randomUUID(),
+            body: data.body,
+            created_at: new Date().toISOString(),
+        };
+        this.comments.set(projectId, [...(this.comments.get(projectId) || []), comment]);
+        return { body: { data: comment } };
+    }
+
+    private _listComments(req: MockRequest): MockResponse {
+        const [projectId] = req.params;
+        if (!this.projects.has(projectId)) {
+            return PROJECT_NOT_FOUND;
+        }
+        return this._page(req, this.comments.get(projectId) || []);
+    }
+
+    private _deleteComment(req: MockRequest): MockResponse {
+        const [projectId, commentId] = req.params;
+        const comments = this.comments.get(projectId) || [];
+        if (!comments.some((comment) => comment.comment_id === commentId)) {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Comment not found' }] } };
+        }
+        this.comments.set(projectId, comments.filter((comment) => comment.comment_id !== commentId));
+        return { status: 204 };
+    }
+
+    private _requestUpload(req: MockRequest): MockResponse {
+        const { data } = this._json(req);
+        const jobId = randomUUID();
+        const job = {
+            job_id: jobId,
+            job_name: data.job_name,
+            content_type: data.content_type,
+            file_size: data.file_size,
+            library_project_id: data.library_project_id,
+            status: 'uploading',
+            upload_url: `${this._baseUrl}/uploads/${jobId}`,
+        };
+        this.jobs.set(jobId, job);
+        return { body: { data: job } };
+    }
+
+    private _upload(req: MockRequest): MockResponse {
+        const [jobId] = req.params;
+        const job = this.jobs.get(jobId);
+        if (!job) {
+            return { status: 403, body: 'Request has expired' };
+        }
+        if (this._uploadFailures.length > 0) {
+            return { status: this._uploadFailures.shift(), body: 'Upload failed' };
+        }
+        // like cloud storage, the MD5 digest is checked when it is sent and returned as the ETag
+        const md5 = createHash('md5').update(req.body);
+        const contentMD5 = req.headers['content-md5'];
+        if (contentMD5 && contentMD5 !== md5.copy().digest('base64')) {
+            return { status: 400, body: 'The Content-MD5 you specified did not match what was received' };
+        }
+        this.uploads.set(jobId, req.body);
+        job.status = 'uploaded';
+        job.uploaded_at = new Date().toISOString();
+        return { headers: { ETag: `"${md5.digest('hex')}"` }, body: '' };
+    }
+
+    private _listPrinters(req: MockRequest): MockResponse {
+        const printers = this.printers.get(req.params[0]);
+        if (!printers) {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Cluster not found' }] } };
+        }
+        return { body: { data: printers } };
+    }
+
+    private _print(req: MockRequest): MockResponse {
+        const [clusterId, jobId] = req.params;
+        const cluster = this.clusters.find((c) => c.cluster_id === clusterId);
+        const job = this.jobs.get(jobId);
+        if (!cluster || !job) {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Cluster or job not found' }] } };
+        }
+        // like a real printer group, the mock prints one job at a time and queues the others
+        const printing = this.printJobs.some((printJob) => printJob.cluster_id === clusterId && printJob.status !== 'queued'
+            && ACTIVE_PRINT_JOB_STATUSES.includes(printJob.status));
+        const printJob = {
+            uuid: randomUUID(),
+            name: job.job_name,
+            job_id: jobId,
+            status: printing ? 'queued' : 'in_progress',
+            cluster_id: clusterId,
+            cluster_printer_id: cluster.host_printer.uuid,
+            created_at: new Date().toISOString(),
+            time_elapsed: 0,
+            time_total: 3600,
+        };
+        this.printJobs.push(printJob);
+        if (this.printJobVisibilityDelayMS > 0) {
+            this._printJobsVisibleAt.set(printJob.uuid, Date.now() + this.printJobVisibilityDelayMS);
+        }
+        return { body: { data: { job_instance_uuid: printJob.uuid } } };
+    }
+
+    private _listPrintJobs(req: MockRequest): MockResponse {
+        const { searchParams } = req.url;
+        const statuses = searchParams.has('status') ? searchParams.get('status').split(',') : null;
+        const clusterId = searchParams.get('cluster_id');
+        const createdAfter = searchParams.get('created_after');
+        const createdBefore = searchParams.get('created_before');
+        return this._page(req, this.printJobs.filter((job) => (
+            this._isVisible(job)
+            && (!statuses || statuses.includes(job.status))
+            && (!clusterId || job.cluster_id === clusterId)
+            && (!createdAfter || job.created_at >= createdAfter)
+            && (!createdBefore || job.created_at < createdBefore)
+        )));
+    }
+
+    private _getPrintJob(req: MockRequest): MockResponse {
+        const printJob = this.printJobs.find((job) => job.uuid === req.params[0]);
+        if (!printJob || !this._isVisible(printJob)) {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Print job not found' }] } };
+        }
+        return { body: { data: printJob } };
+    }
+
+    private _isVisible(printJob: any): boolean {
+        return !this._printJobsVisibleAt.has(printJob.uuid) || this._printJobsVisibleAt.get(printJob.uuid) <= Date.now();
+    }
+
+    private _startAction(req: MockRequest): MockResponse {
+        const [clusterId, printerId, action] = req.params;
+        const cluster = this.clusters.find((c) => c.cluster_id === clusterId);
+        if (!cluster || !cluster.is_online) {
+            return CLUSTER_OFFLINE;
+        }
+        const printer = (this.printers.get(clusterId) || []).find((p) => p.uuid === printerId);
+        if (printer && printer.status === 'unreachable') {
+            return { status: 409, body: { errors: [{ code: 'PRINTER_OFFLINE', title: 'The printer is offline' }] } };
+        }
+        if (action === 'get_webcam_snapshot') {
+            return this._addAction({ type: 'webcam_snapshot', value: { image_url: `${this._baseUrl}/downloads/webcam/${printerId}.jpg` } });
+        }
+        if (action === 'confirm_build_plate_cleared' && printer) {
+            const value: any = { printer_id: printerId };
+            return this._addAction({ type: action, value }, () => {
+                const waiting = printer.status === 'wait_cleanup';
+                printer.status = waiting ? 'idle' : printer.status;
+                value.status = printer.status;
+                return waiting ? null : 'The printer is not waiting for its build plate to be cleared';
+            });
+        }
+        return this._addAction({ type: action, value: {} });
+    }
+
+    private _startPrintJobAction(req: MockRequest): MockResponse {
+        const [clusterId, printJobId, action] = req.params;
+        const cluster = this.clusters.find((c) => c.cluster_id === clusterId);
+        if (!cluster || !cluster.is_online) {
+            return CLUSTER_OFFLINE;
+        }
+        const printJob = this.printJobs.find((job) => job.uuid === printJobId && job.cluster_id === clusterId);
+        if (!printJob) {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Print job not found' }] } };
+        }
+        const body = req.body.length > 0 ? this._json(req).data : {};
+        const value: any = { cluster_job_id: printJobId };
+        return this._addAction({ type: action, value }, () => {
+            const rejection = this._applyPrintJobAction(printJob, action, body);
+            value.status = printJob.status;
+            const queue = this._getQueue(clusterId);
+            if (queue.includes(printJob)) {
+                value.queue_position = queue.indexOf(printJob);
+            }
+            return rejection;
+        });
+    }
+
+    /* eslint-disable no-param-reassign */
+    /**
+     * Changes the print job as the action would, or returns why the printer rejects the action.
+     */
+    private _applyPrintJobAction(printJob: any, action: string, body: any): string | null {
+        const queued = printJob.status === 'queued';
+        switch (action) {
+        case 'pause':
+            if (!['in_progress', 'printing'].includes(printJob.status)) {
+                return 'The print job is not printing';
+            }
+            printJob.status = 'paused';
+            return null;
+        case 'print':
+            if (printJob.status !== 'paused') {
+                return 'The print job is not paused';
+            }
+            printJob.status = 'in_progress';
+            return null;
+        case 'abort':
+            if (!ACTIVE_PRINT_JOB_STATUSES.includes(printJob.status)) {
+                return `The print job is already ${printJob.status}`;
+            }
+            printJob.status = 'aborted';
+            if (!queued) {
+                // the printer waits until the operator confirms the build plate is cleared
+                const printer = (this.printers.get(printJob.cluster_id) || []).find((p) => p.uuid === printJob.cluster_printer_id);
+                printer && (printer.status = 'wait_cleanup'); // eslint-disable-line no-unused-expressions
+            }
+            return null;
+        case 'move': {
+            if (!queued) {
+                return 'Only queued print jobs can be moved';
+            }
+            const others = this._getQueue(printJob.cluster_id).filter((job) => job !== printJob);
+            const position = Math.min(Math.max(Number(body.to_position) || 0, 0), others.length);
+            this.printJobs.splice(this.printJobs.indexOf(printJob), 1);
+            const index = position < others.length ? this.printJobs.indexOf(others[position]) : this.printJobs.length;
+            this.printJobs.splice(index, 0, printJob);
+            return null;
+        }
+        case 'remove':
+            if (!queued) {
+                return 'Only queued print jobs can be removed';
+            }
+            this.printJobs.splice(this.printJobs.indexOf(printJob), 1);
+            printJob.status = 'deleted';
+            return null;
+        case 'force':
+            if (!queued) {
+                return 'Only queued print jobs can be started';
+            }
+            printJob.status = 'in_progress';
+            return null;
+        default:
+            return `Unknown action ${action}`;
+        }
+    }
+    /* eslint-enable no-param-reassign */
+
+    /**
+     * The queued print jobs of a cluster, in the order they will be printed.
+     */
+    private _getQueue(clusterId: string): any[] {
+        return this.printJobs.filter((job) => job.cluster_id === clusterId && job.status === 'queued');
+    }
+
+    /**
+     * Registers an action that finishes after a few status requests. The action is performed right away, unless
+     * it was made to fail. It fails with the reason the perform function returns, if any.
+     */
+    private _addAction(statusDetails: { type: string, value: any }, perform: () => string | null = () => null): MockResponse {
+        const actionId = randomUUID();
+        const forcedFailure = this._actionFailures > 0;
+        this._actionFailures -= forcedFailure ? 1 : 0;
+        const reason = forcedFailure ? null : perform();
+        this.actions.set(actionId, {
+            remainingPolls: POLLS_UNTIL_FINISHED,
+            data: {
+                action_id: actionId,
+                status: forcedFailure || reason ? 'failed' : 'success',
+                status_details: reason ? { type: statusDetails.type, value: { reason } } : statusDetails,
+            },
+        });
+        return { body: { data: { action_id: actionId, status: 'pending', status_details: null } } };
+    }
+
+    private _createReport(req: MockRequest): MockResponse {
+        const { data } = this._json(req);
+        const reportId = randomUUID();
+        this.reports.set(reportId, {
+            remainingPolls: POLLS_UNTIL_FINISHED,
+            data: {
+                report_id: reportId,
+                status: 'success',
+                report_type: data.report_type,
+                download_url: `${this._baseUrl}/downloads/reports/${reportId}.csv`,
+            },
+        });
+        return { body: { data: { report_id: reportId, status: 'pending' } } };
+    }
+
+    /**
+     * Returns the pending status until the configured amount of polls has been done, then the final status.
+     */
+    private _pollStatus(statuses: Map<string, MockPendingStatus>, id: string): MockResponse {
+        const pending = statuses.get(id);
+        if (!pending) {
+            return { status: 404, body: { errors: [{ code: 'NOT_FOUND', title: 'Unknown ID' }] } };
+        }
+        if (pending.remainingPolls > 0) {
+            pending.remainingPolls -= 1;
+            return { body: { data: { ...pending.data, status: 'pending', download_url: undefined } } };
+        }
+        return { body: { data: pending.data } };
+    }
+
+    private _download(req: MockRequest): MockResponse {
+        const [file] = req.params;
+        if (file.startsWith('files/')) {
+            const contents = this.uploads.get(file.slice('files/'.length));
+            return contents ? { body: contents } : { status: 404, body: 'File not found' };
+        }
+        if (file.startsWith('reports/')) {
+            const header = 'job_name,cluster_id,cluster_printer_id,status,started_at,duration_seconds,material_usage_grams';
+            const rows = this.printJobs.map((job) => [job.name, job.cluster_id, job.cluster_printer_id, job.status, job.created_at, job.time_elapsed, 0].join(','));
+            return { body: [header, ...rows].join('\n') };
+        }
+        // a 1x1 pixel JPEG as webcam image
+        return { body: Buffer.from('/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=', 'base64') };
+    }
+}
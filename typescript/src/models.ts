@@ -0,0 +1,304 @@
+import {
+    arrayOf, isAnything, isBoolean, isNumber, isOneOf, isString, nullable, objectWith, optional, Schema,
+} from './response-schema';
+
+// The models of the Digital Factory API responses, each with the schema its responses are validated against.
+// Only the properties the SDK relies on are required.
+
+/**
+ * A material loaded in an extruder of a printer.
+ */
+export interface PrinterMaterial {
+    guid?: string;
+    // the type of material, e.g. 'PLA'
+    material?: string;
+    brand?: string;
+    color?: string;
+}
+
+/**
+ * The print core and material of an extruder of a printer.
+ */
+export interface ExtruderConfiguration {
+    extruder_index: number;
+    // e.g. 'AA 0.4'
+    print_core_id?: string | null;
+    material?: PrinterMaterial | null;
+}
+
+/**
+ * A printer in a cluster.
+ */
+export interface ClusterPrinter {
+    uuid: string;
+    friendly_name?: string;
+    // e.g. 'Ultimaker S5'
+    machine_variant?: string;
+    // e.g. 'idle', 'printing', 'wait_cleanup' or 'unreachable'
+    status: string;
+    firmware_version?: string;
+    ip_address?: string;
+    configuration?: ExtruderConfiguration[];
+}
+
+/**
+ * A cluster (printer group), which is controlled through its host printer.
+ */
+export interface Cluster {
+    cluster_id: string;
+    friendly_name?: string;
+    is_online: boolean;
+    printer_count?: number;
+    host_name?: string;
+    host_version?: string;
+    host_printer: ClusterPrinter;
+}
+
+/**
+ * A print job on a cluster, from the moment it is queued.
+ */
+export interface PrintJob {
+    uuid: string;
+    name: string;
+    // see print-job-status.ts for the statuses the SDK knows
+    status: string;
+    cluster_id?: string;
+    // the printer it is assigned to, null while it is waiting in the queue
+    cluster_printer_id?: string | null;
+    created_at: string;
+    owner?: string;
+    // the ID of the uploaded job it was created from
+    job_id?: string;
+    // in seconds
+    time_elapsed?: number;
+    time_total?: number;
+}
+
+/**
+ * The response to submitting a job to a cluster.
+ */
+export interface PrintJobSubmission {
+    // the UUID of the print job that was created
+    job_instance_uuid: string;
+}
+
+/**
+ * A project in the Digital Factory library.
+ */
+export interface Project {
+    library_project_id: string;
+    display_name: string;
+    created_at: string;
+    last_updated?: string;
+    // whether the project is shared with the organization
+    is_shared: boolean;
+    // the user that owns the project
+    username?: string;
+    thumbnail_url?: string;
+}
+
+/**
+ * A file stored in a library project, such as an uploaded print job.
+ */
+export interface ProjectFile {
+    file_id: string;
+    file_name: string;
+    content_type: string;
+    file_size: number;
+    library_project_id: string;
+    status: string;
+    uploaded_at: string;
+    // a signed URL that needs no authorization, it expires after a while
+    download_url: string;
+}
+
+export interface Comment {
+    comment_id: string;
+    body: string;
+    created_at: string;
+    username?: string;
+}
+
+/**
+ * The job created for an upload, with the signed URL to upload the file to.
+ */
+export interface JobUpload {
+    job_id: string;
+    job_name: string;
+    content_type: string;
+    file_size: number;
+    library_project_id?: string;
+    status: string;
+    upload_url: string;
+}
+
+export interface ReportStatus {
+    download_url?: string;
+    report_id: string;
+    status: 'pending' | 'processing' | 'success' | 'failed' | 'unknown';
+}
+
+/**
+ * The status of an action on a cluster, with action specific details once it has finished.
+ */
+export interface ActionStatusResponse<V = any> {
+    action_id: string;
+    status: 'success' | 'failed' | 'pending' | 'sent' | 'unknown';
+    status_details: {
+        type: string;
+        value: V;
+    };
+}
+
+export interface WebcamSnapshot {
+    image_url: string;
+}
+
+export type WebcamActionStatusResponse = ActionStatusResponse<WebcamSnapshot>;
+
+/**
+ * The print job as it is after an action on it.
+ */
+export interface PrintJobActionResult {
+    cluster_job_id: string;
+    status: string;
+    // the position in the queue of the cluster, only for queued print jobs
+    queue_position?: number;
+}
+
+export type PrintJobActionStatusResponse = ActionStatusResponse<PrintJobActionResult>;
+
+export interface PrinterActionResult {
+    printer_id: string;
+    status: string;
+}
+
+export type PrinterActionStatusResponse = ActionStatusResponse<PrinterActionResult>;
+
+export const PRINTER_MATERIAL_SCHEMA = objectWith({
+    guid: optional(isString),
+    material: optional(isString),
+    brand: optional(isString),
+    color: optional(isString),
+});
+
+export const EXTRUDER_CONFIGURATION_SCHEMA = objectWith({
+    extruder_index: isNumber,
+    print_core_id: optional(nullable(isString)),
+    material: optional(nullable(PRINTER_MATERIAL_SCHEMA)),
+});
+
+export const CLUSTER_PRINTER_SCHEMA = objectWith({
+    uuid: isString,
+    friendly_name: optional(isString),
+    machine_variant: optional(isString),
+    status: isString,
+    firmware_version: optional(isString),
+    ip_address: optional(isString),
+    configuration: optional(arrayOf(EXTRUDER_CONFIGURATION_SCHEMA)),
+});
+
+export const CLUSTER_SCHEMA = objectWith({
+    cluster_id: isString,
+    friendly_name: optional(isString),
+    is_online: isBoolean,
+    printer_count: optional(isNumber),
+    host_name: optional(isString),
+    host_version: optional(isString),
+    host_printer: CLUSTER_PRINTER_SCHEMA,
+});
+
+export const PRINT_JOB_SCHEMA = objectWith({
+    uuid: isString,
+    name: isString,
+    status: isString,
+    cluster_id: optional(isString),
+    cluster_printer_id: optional(nullable(isString)),
+    created_at: isString,
+    owner: optional(isString),
+    job_id: optional(isString),
+    time_elapsed: optional(isNumber),
+    time_total: optional(isNumber),
+});
+
+export const PRINT_JOB_SUBMISSION_SCHEMA = objectWith({
+    job_instance_uuid: isString,
+});
+
+export const PROJECT_SCHEMA = objectWith({
+    library_project_id: isString,
+    display_name: isString,
+    created_at: isString,
+    last_updated: optional(isString),
+    is_shared: isBoolean,
+    username: optional(isString),
+    thumbnail_url: optional(isString),
+});
+
+export const PROJECT_FILE_SCHEMA = objectWith({
+    file_id: isString,
+    file_name: isString,
+    content_type: isString,
+    file_size: isNumber,
+    library_project_id: isString,
+    status: isString,
+    uploaded_at: isString,
+    download_url: isString,
+});
+
+export const COMMENT_SCHEMA = objectWith({
+    comment_id: isString,
+    body: isString,
+    created_at: isString,
+    username: optional(isString),
+});
+
+export const JOB_UPLOAD_SCHEMA = objectWith({
+    job_id: isString,
+    job_name: isString,
+    content_type: isString,
+    file_size: isNumber,
+    library_project_id: optional(isString),
+    status: isString,
+    upload_url: isString,
+});
+
+export const REPORT_STATUS_SCHEMA = objectWith({
+    download_url: optional(isString),
+    report_id: isString,
+    status: isOneOf(['pending', 'processing', 'success', 'failed', 'unknown']),
+});
+
+export const WEBCAM_SNAPSHOT_SCHEMA = objectWith({
+    image_url: isString,
+});
+
+export const PRINT_JOB_ACTION_RESULT_SCHEMA = objectWith({
+    cluster_job_id: isString,
+    status: isString,
+    queue_position: optional(isNumber),
+});
+
+export const PRINTER_ACTION_RESULT_SCHEMA = objectWith({
+    printer_id: isString,
+    status: isString,
+});
+
+/**
+ * The schema of an action status. The value of the status details is only checked once the action succeeded, as
+ * it is empty before that and describes the problem when the action failed.
+ */
+export function actionStatusSchema(valueSchema: Schema = isAnything): Schema {
+    const statusSchema = objectWith({
+        action_id: isString,
+        status: isOneOf(['success', 'failed', 'pending', 'sent', 'unknown']),
+        status_details: optional(nullable(objectWith({ type: isString, value: isAnything }))),
+    });
+    return (value, path, problems) => {
+        statusSchema(value, path, problems);
+        const status = value as ActionStatusResponse;
+        if (status && status.status === 'success' && status.status_details) {
+            valueSchema(status.status_details.value, `${path}.status_details.value`, problems);
+        }
+    };
+}
@@ -0,0 +1,86 @@
+import {
+    ClusterStatus, diffClusterStatus, getEndedPrintJobIds, PrintJobStatus,
+} from './monitor-events';
+
+const DATE_TIME = new Date('2021-11-22T12:00:00Z');
+
+function printJob(uuid: string, timeElapsed: number, status = 'printing'): PrintJobStatus {
+    return {
+        uuid, name: `${uuid}.ufp`, status, cluster_printer_id: 'printer-1', time_elapsed: timeElapsed, time_total: 100,
+    };
+}
+
+function cluster(online: boolean, printerStatus = 'idle', printJobs: PrintJobStatus[] = []): ClusterStatus {
+    return online ? {
+        cluster_id: 'cluster-1',
+        is_online: true,
+        printers: [{ uuid: 'printer-1', friendly_name: 'Printer 1', status: printerStatus }],
+        print_jobs: printJobs,
+    } : { cluster_id: 'cluster-1', is_online: false };
+}
+
+describe('diffClusterStatus', () => {
+    it('reports the clusters that came online or went offline', () => {
+        expect(diffClusterStatus([cluster(true)], [cluster(false)], DATE_TIME)).toEqual([
+            { dateTime: '2021-11-22T12:00:00.000Z', clusterId: 'cluster-1', type: 'cluster_offline' },
+        ]);
+        expect(diffClusterStatus([cluster(false)], [cluster(true, 'printing', [printJob('job-1', 50)])], DATE_TIME)).toEqual([
+            { dateTime: '2021-11-22T12:00:00.000Z', clusterId: 'cluster-1', type: 'cluster_online' },
+        ]);
+    });
+
+    it('ignores the clusters that were not in the previous poll', () => {
+        expect(diffClusterStatus([], [cluster(true)], DATE_TIME)).toEqual([]);
+    });
+
+    it('reports the printers that changed state', () => {
+        expect(diffClusterStatus([cluster(true, 'idle')], [cluster(true, 'printing')], DATE_TIME)).toEqual([{
+            dateTime: '2021-11-22T12:00:00.000Z',
+            clusterId: 'cluster-1',
+            type: 'printer_state_changed',
+            printerId: 'printer-1',
+            printerName: 'Printer 1',
+            previousState: 'idle',
+            state: 'printing',
+        }]);
+    });
+
+    it('reports the jobs that started, and the progress of a job for every tenth', () => {
+        const events = diffClusterStatus(
+            [cluster(true, 'printing', [printJob('job-1', 15)])],
+            [cluster(true, 'printing', [printJob('job-1', 19), printJob('job-2', 0, 'queued')])],
+            DATE_TIME,
+        );
+        expect(events).toEqual([{
+            dateTime: '2021-11-22T12:00:00.000Z',
+            clusterId: 'cluster-1',
+            type: 'job_started',
+            printJobId: 'job-2',
+            printJobName: 'job-2.ufp',
+            printerId: 'printer-1',
+            status: 'queued',
+            progress: 0,
+        }]);
+        const progressed = diffClusterStatus([cluster(true, 'printing', [printJob('job-1', 19)])], [cluster(true, 'printing', [printJob('job-1', 21)])], DATE_TIME);
+        expect(progressed).toEqual([expect.objectContaining({ type: 'job_progressed', printJobId: 'job-1', progress: 0.21 })]);
+    });
+
+    it('reports the jobs that ended as finished or failed according to their final status', () => {
+        const previous = [cluster(true, 'printing', [printJob('job-1', 90), printJob('job-2', 10), printJob('job-3', 30)])];
+        const current = [cluster(true, 'idle')];
+        const finishedPrintJobs = new Map([['job-2', printJob('job-2', 12, 'aborted')], ['job-3', printJob('job-3', 100, 'finished')]]);
+        expect(getEndedPrintJobIds(previous, current)).toEqual(['job-1', 'job-2', 'job-3']);
+        expect(diffClusterStatus(previous, current, DATE_TIME, finishedPrintJobs)).toEqual([
+            expect.objectContaining({ type: 'printer_state_changed', state: 'idle' }),
+            expect.objectContaining({ type: 'job_finished', printJobId: 'job-1', status: 'printing' }),
+            expect.objectContaining({ type: 'job_failed', printJobId: 'job-2', status: 'aborted' }),
+            expect.objectContaining({ type: 'job_finished', printJobId: 'job-3', status: 'finished' }),
+        ]);
+    });
+
+    it('does not compare the printers and jobs of a cluster that was offline in either poll', () => {
+        const previous = [cluster(true, 'printing', [printJob('job-1', 50)])];
+        expect(diffClusterStatus(previous, [cluster(false)], DATE_TIME).map((event) => event.type)).toEqual(['cluster_offline']);
+        expect(getEndedPrintJobIds(previous, [cluster(false)])).toEqual([]);
+    });
+});
@@ -0,0 +1,144 @@
+import type { Cluster, ClusterPrinter, PrintJob } from './models';
+import { getPrintJobProgress, FAILED_PRINT_JOB_STATUSES } from './print-job-status';
+
+/**
+ * Contains the used fields of a printer.
+ */
+export type PrinterStatus = Pick<ClusterPrinter, 'uuid' | 'friendly_name' | 'status'>;
+
+/**
+ * Contains the used fields of a print job.
+ */
+export type PrintJobStatus = Pick<PrintJob, 'uuid' | 'name' | 'status' | 'cluster_printer_id' | 'time_elapsed' | 'time_total'>;
+
+/**
+ * The status of a cluster with its printers and active print jobs, as stored in the monitoring logs.
+ * Printers and print jobs are only known for clusters that were online.
+ */
+export interface ClusterStatus extends Pick<Cluster, 'cluster_id' | 'is_online'> {
+    printers?: PrinterStatus[];
+    print_jobs?: PrintJobStatus[];
+}
+
+interface BaseMonitorEvent {
+    dateTime: string;
+    clusterId: string;
+}
+
+export interface ClusterOnlineEvent extends BaseMonitorEvent {
+    type: 'cluster_online' | 'cluster_offline';
+}
+
+export interface PrinterStateChangedEvent extends BaseMonitorEvent {
+    type: 'printer_state_changed';
+    printerId: string;
+    printerName: string | null;
+    previousState: string;
+    state: string;
+}
+
+export interface PrintJobEvent extends BaseMonitorEvent {
+    type: 'job_started' | 'job_progressed' | 'job_finished' | 'job_failed';
+    printJobId: string;
+    printJobName: string;
+    printerId: string | null;
+    status: string;
+    progress: number | null;
+}
+
+/**
+ * A change detected between two polls of the clusters.
+ */
+export type MonitorEvent = ClusterOnlineEvent | PrinterStateChangedEvent | PrintJobEvent;
+
+// A 'job_progressed' event is emitted whenever the progress passes a multiple of this step.
+const PROGRESS_EVENT_STEP = 0.1;
+
+/**
+ * Compares two cluster statuses and returns the events for everything that changed. The final status of print
+ * jobs that are no longer active can be given, to tell finished and failed jobs apart; jobs without a known final
+ * status are considered finished.
+ */
+export function diffClusterStatus(
+    previous: ClusterStatus[],
+    current: ClusterStatus[],
+    dateTime: Date,
+    finishedPrintJobs: Map<string, PrintJobStatus> = new Map(),
+): MonitorEvent[] {
+    const previousById = new Map(previous.map((cluster) => [cluster.cluster_id, cluster]));
+    const base = (clusterId: string) => ({ dateTime: dateTime.toISOString(), clusterId });
+    const events: MonitorEvent[] = [];
+    current.forEach((cluster) => {
+        const before = previousById.get(cluster.cluster_id);
+        if (!before) {
+            return;
+        }
+        if (before.is_online !== cluster.is_online) {
+            events.push({ ...base(cluster.cluster_id), type: cluster.is_online ? 'cluster_online' : 'cluster_offline' });
+        }
+        // printers and jobs cannot be compared when they were not fetched in both polls
+        if (!before.is_online || !cluster.is_online || !before.printers || !cluster.printers) {
+            return;
+        }
+        events.push(...diffPrinters(before.printers, cluster.printers).map((event) => ({ ...base(cluster.cluster_id), ...event })));
+        events.push(...diffPrintJobs(before.print_jobs || [], cluster.print_jobs || [], finishedPrintJobs)
+            .map((event) => ({ ...base(cluster.cluster_id), ...event })));
+    });
+    return events;
+}
+
+/**
+ * Gets the IDs of the print jobs that were active in the previous poll but no longer are.
+ */
+export function getEndedPrintJobIds(previous: ClusterStatus[], current: ClusterStatus[]): string[] {
+    const currentIds = new Set(current.flatMap((cluster) => (cluster.print_jobs || []).map((job) => job.uuid)));
+    const onlineIds = new Set(current.filter((cluster) => cluster.is_online && cluster.print_jobs).map((cluster) => cluster.cluster_id));
+    return previous
+        .filter((cluster) => onlineIds.has(cluster.cluster_id))
+        .flatMap((cluster) => (cluster.print_jobs || []).map((job) => job.uuid))
+        .filter((id) => !currentIds.has(id));
+}
+
+function diffPrinters(previous: PrinterStatus[], current: PrinterStatus[]): Omit<PrinterStateChangedEvent, keyof BaseMonitorEvent>[] {
+    const previousById = new Map(previous.map((printer) => [printer.uuid, printer]));
+    return current
+        .filter((printer) => previousById.has(printer.uuid) && previousById.get(printer.uuid).status !== printer.status)
+        .map((printer) => ({
+            type: 'printer_state_changed',
+            printerId: printer.uuid,
+            printerName: printer.friendly_name || null,
+            previousState: previousById.get(printer.uuid).status,
+            state: printer.status,
+        }));
+}
+
+function diffPrintJobs(
+    previous: PrintJobStatus[],
+    current: PrintJobStatus[],
+    finishedPrintJobs: Map<string, PrintJobStatus>,
+): Omit<PrintJobEvent, keyof BaseMonitorEvent>[] {
+    const previousById = new Map(previous.map((job) => [job.uuid, job]));
+    const currentIds = new Set(current.map((job) => job.uuid));
+    const jobEvent = (type: PrintJobEvent['type'], job: PrintJobStatus): Omit<PrintJobEvent, keyof BaseMonitorEvent> => ({
+        type,
+        printJobId: job.uuid,
+        printJobName: job.name,
+        printerId: job.cluster_printer_id || null,
+        status: job.status,
+        progress: getPrintJobProgress(job),
+    });
+
+    const events = current.flatMap((job) => {
+        const before = previousById.get(job.uuid);
+        if (!before) {
+            return [jobEvent('job_started', job)];
+        }
+        const progressStep = (j: PrintJobStatus) => Math.floor((getPrintJobProgress(j) || 0) / PROGRESS_EVENT_STEP);
+        return progressStep(job) > progressStep(before) ? [jobEvent('job_progressed', job)] : [];
+    });
+    previous.filter((job) => !currentIds.has(job.uuid)).forEach((job) => {
+        const finished = finishedPrintJobs.get(job.uuid) || job;
+        events.push(jobEvent(FAILED_PRINT_JOB_STATUSES.includes(finished.status) ? 'job_failed' : 'job_finished', finished));
+    });
+    return events;
+}
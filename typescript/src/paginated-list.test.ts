@@ -0,0 +1,24 @@
+import { Page, PaginatedList } from './paginated-list';
+
+describe('PaginatedList', () => {
+    it('requests pages without links as long as they are full', async () => {
+        const items = [1, 2, 3, 4, 5];
+        const fetchPage = jest.fn(async (page: number, pageSize: number): Promise<Page<number>> => ({
+            data: items.slice((page - 1) * pageSize, page * pageSize),
+        }));
+        expect(await new PaginatedList(fetchPage, 2).toArray()).toEqual(items);
+        expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops when an endpoint ignores the page and repeats the previous page', async () => {
+        const fetchPage = jest.fn(async (): Promise<Page<number>> => ({ data: [1, 2] }));
+        expect(await new PaginatedList(fetchPage, 2).toArray()).toEqual([1, 2]);
+        expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops after the maximum number of pages', async () => {
+        const fetchPage = jest.fn(async (page: number): Promise<Page<number>> => ({ data: [page * 2 - 1, page * 2] }));
+        expect(await new PaginatedList(fetchPage, 2, 3).toArray()).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+});
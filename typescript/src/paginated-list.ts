@@ -0,0 +1,70 @@
+/**
+ * A single page of a list response of the Digital Factory API.
+ */
+export interface Page<T> {
+    data: T[];
+    links?: {
+        next?: string;
+    };
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+// A safety bound on the number of pages, for endpoints that do not stop returning full pages.
+export const DEFAULT_MAX_PAGES = 1000;
+
+/**
+ * A list of API resources that is fetched page by page while it is being iterated, so all results are returned
+ * instead of only the first page. Each iteration starts again at the first page. Without links, another page is
+ * requested as long as the pages are full, which stops when a page repeats the previous one, e.g. because the
+ * endpoint ignores the page parameter, or after the maximum number of pages.
+ */
+export class PaginatedList<T> implements AsyncIterable<T> {
+    private readonly _fetchPage: (page: number, pageSize: number) => Promise<Page<T>>;
+
+    private readonly _pageSize: number;
+
+    private readonly _maxPages: number;
+
+    constructor(fetchPage: (page: number, pageSize: number) => Promise<Page<T>>, pageSize = DEFAULT_PAGE_SIZE, maxPages = DEFAULT_MAX_PAGES) {
+        this._fetchPage = fetchPage;
+        this._pageSize = pageSize;
+        this._maxPages = maxPages;
+    }
+
+    async* [Symbol.asyncIterator](): AsyncIterator<T> {
+        let page = 1;
+        let hasNext = true;
+        let previousFirstItem: string = null;
+        while (hasNext && page <= this._maxPages) {
+            const response = await this._fetchPage(page, this._pageSize);
+            const items = response.data || [];
+            const firstItem = items.length > 0 ? JSON.stringify(items[0]) : null;
+            if (firstItem !== null && firstItem === previousFirstItem) {
+                return;
+            }
+            yield* items;
+            // prefer the link to the next page, but not all endpoints return links
+            hasNext = response.links ? !!response.links.next : items.length === this._pageSize;
+            previousFirstItem = firstItem;
+            page += 1;
+        }
+    }
+
+    /**
+     * Collects the items of all pages into an array, stopping once the given maximum amount of items is reached.
+     */
+    async toArray(maxItems = Infinity): Promise<T[]> {
+        const items: T[] = [];
+        if (maxItems <= 0) {
+            return items;
+        }
+        for await (const item of this) { // eslint-disable-line no-restricted-syntax
+            items.push(item);
+            if (items.length >= maxItems) {
+                break;
+            }
+        }
+        return items;
+    }
+}
@@ -0,0 +1,130 @@
+import type { DigitalFactoryDemo, UploadedJob } from './digital-factory';
+import { DispatchError } from './dispatch-error';
+import { createRoundRobinStrategy } from './dispatch-strategies';
+import { MockDigitalFactoryServer, MOCK_PLA_GUID, MOCK_PVA_GUID } from './mock-digital-factory-server';
+import { JobRequirements, PrintDispatcher } from './print-dispatcher';
+import { startMockClient } from './test-helpers';
+import type { UfpMetadata } from './ufp-reader';
+
+const NO_REQUIREMENTS: JobRequirements = { targetMachine: null, extruders: [] };
+
+describe('PrintDispatcher', () => {
+    let server: MockDigitalFactoryServer;
+    let demo: DigitalFactoryDemo;
+    let dispatcher: PrintDispatcher;
+
+    beforeEach(async () => {
+        ({ server, demo } = await startMockClient());
+        dispatcher = new PrintDispatcher(demo);
+    });
+
+    afterEach(() => server.stop());
+
+    /**
+     * Brings the second mock cluster online, with its Ultimaker S3 that has PLA and an empty second extruder.
+     */
+    function bringSecondClusterOnline(): void {
+        server.clusters[1].is_online = true;
+        server.printers.get('mock-cluster-2')[0].status = 'idle';
+    }
+
+    /**
+     * Uploads a job of which the UFP metadata requires the given machine.
+     */
+    async function uploadJob(targetMachine: string): Promise<UploadedJob> {
+        const project = await demo.createProject('Dispatch');
+        const job = await demo.uploadFileToProject(project.library_project_id, Buffer.from('G28\n'), { fileName: 'cube.gcode' });
+        return { ...job, ufp: { targetMachine, extruders: [] } as unknown as UfpMetadata };
+    }
+
+    describe('plan', () => {
+        it('leaves out the offline clusters', async () => {
+            const decision = await dispatcher.plan(NO_REQUIREMENTS);
+            expect(decision.clusterId).toBe('mock-cluster-1');
+            expect(decision.evaluations.map((evaluation) => [evaluation.clusterId, evaluation.online])).toEqual([
+                ['mock-cluster-1', true],
+                ['mock-cluster-2', false],
+            ]);
+            expect(decision.explanation).toContain('Mock Printer Group 2 (mock-cluster-2): offline.');
+        });
+
+        it('rejects a printer of another machine type, which has another build volume', async () => {
+            bringSecondClusterOnline();
+            const decision = await dispatcher.plan({ targetMachine: 'Ultimaker S5', extruders: [] });
+            expect(decision.clusterId).toBe('mock-cluster-1');
+            expect(decision.evaluations[1].rejectedPrinters).toEqual({ 'mock-printer-2': 'it is an Ultimaker S3 instead of an Ultimaker S5' });
+        });
+
+        it('rejects a printer with other materials loaded, or none', async () => {
+            bringSecondClusterOnline();
+            const decision = await dispatcher.plan({
+                targetMachine: null,
+                extruders: [{ index: 0, materialGuid: MOCK_PLA_GUID, printCore: null }, { index: 1, materialGuid: MOCK_PLA_GUID, printCore: null }],
+            });
+            expect(decision.clusterId).toBeNull();
+            expect(decision.evaluations.map((evaluation) => evaluation.rejectedPrinters)).toEqual([
+                { 'mock-printer-1': `extruder 2 has PVA loaded instead of material ${MOCK_PLA_GUID}` },
+                { 'mock-printer-2': 'extruder 2 has no material loaded' },
+            ]);
+        });
+
+        it('rejects a printer with another print core', async () => {
+            const decision = await dispatcher.plan({
+                targetMachine: 'Ultimaker S5',
+                extruders: [{ index: 1, materialGuid: MOCK_PVA_GUID, printCore: 'AA 0.4' }],
+            });
+            expect(decision.evaluations[0].rejectedPrinters).toEqual({ 'mock-printer-1': 'extruder 2 has print core BB 0.4 instead of AA 0.4' });
+        });
+
+        it('rejects a printer that is not available', async () => {
+            server.printers.get('mock-cluster-1')[0].status = 'maintenance';
+            const decision = await dispatcher.plan(NO_REQUIREMENTS);
+            expect(decision.clusterId).toBeNull();
+            expect(decision.evaluations[0].rejectedPrinters).toEqual({ 'mock-printer-1': 'it is maintenance' });
+        });
+
+        it('does not let a cluster of which the printers cannot be fetched keep the job from the others', async () => {
+            bringSecondClusterOnline();
+            server.printers.delete('mock-cluster-2');
+            const decision = await dispatcher.plan(NO_REQUIREMENTS);
+            expect(decision.clusterId).toBe('mock-cluster-1');
+            expect(decision.evaluations[1].error).toEqual(expect.any(String));
+        });
+
+        it('chooses the cluster with the fewest jobs per printer by default', async () => {
+            bringSecondClusterOnline();
+            const job = await uploadJob('Ultimaker S5');
+            await demo.submitPrintJob(job.job_id, 'mock-cluster-1');
+            const decision = await dispatcher.plan(NO_REQUIREMENTS);
+            expect(decision.strategy).toBe('least-queued');
+            expect(decision.clusterId).toBe('mock-cluster-2');
+            expect(decision.evaluations.map((evaluation) => evaluation.queueLength)).toEqual([1, 0]);
+        });
+
+        it('chooses with the given strategy', async () => {
+            bringSecondClusterOnline();
+            const roundRobin = new PrintDispatcher(demo, { strategy: createRoundRobinStrategy() });
+            const clusterIds = [];
+            for (let i = 0; i < 3; i += 1) {
+                clusterIds.push((await roundRobin.plan(NO_REQUIREMENTS)).clusterId);
+            }
+            expect(clusterIds).toEqual(['mock-cluster-1', 'mock-cluster-2', 'mock-cluster-1']);
+        });
+    });
+
+    describe('dispatch', () => {
+        it('submits the job to the chosen cluster', async () => {
+            const result = await dispatcher.dispatch(await uploadJob('Ultimaker S5'));
+            expect(result.decision.clusterId).toBe('mock-cluster-1');
+            expect(server.printJobs.map((printJob) => [printJob.uuid, printJob.cluster_id])).toEqual([[result.printJobId, 'mock-cluster-1']]);
+        });
+
+        it('rejects with a DispatchError when no printer can print the job', async () => {
+            const error = await dispatcher.dispatch(await uploadJob('Ultimaker S3')).catch((ex) => ex);
+            expect(error).toBeInstanceOf(DispatchError);
+            expect(error.decision.clusterId).toBeNull();
+            expect(error.message).toContain('No online cluster has a printer that can print the job.');
+            expect(server.printJobs).toHaveLength(0);
+        });
+    });
+});
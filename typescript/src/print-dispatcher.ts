@@ -0,0 +1,250 @@
+import type { DigitalFactoryDemo, UploadedJob } from './digital-factory';
+import { DispatchError } from './dispatch-error';
+import { DispatchCandidate, DispatchStrategy, leastQueuedStrategy } from './dispatch-strategies';
+import type { Cluster, ClusterPrinter, ExtruderConfiguration } from './models';
+import { ACTIVE_PRINT_JOB_STATUSES } from './print-job-status';
+import type { UfpMetadata } from './ufp-reader';
+
+/**
+ * What a printer needs to print the job. Unknown requirements are not checked.
+ */
+export interface JobRequirements {
+    // the machine variant, e.g. 'Ultimaker S5'
+    targetMachine: string | null;
+    // the extruders that are used by the job
+    extruders: { index: number, materialGuid: string | null, printCore: string | null }[];
+}
+
+/**
+ * A cluster with its printers and the number of print jobs in its queue, as fetched by the dispatcher.
+ */
+export interface ClusterState {
+    cluster: Cluster;
+    printers: ClusterPrinter[];
+    // the number of print jobs queued or printing
+    queueLength: number;
+    // why the printers and print jobs of the cluster could not be fetched
+    error: string | null;
+}
+
+/**
+ * How the dispatcher assessed a cluster.
+ */
+export interface ClusterEvaluation extends DispatchCandidate {
+    online: boolean;
+    // why the printers and print jobs of the cluster could not be fetched, which makes it ineligible
+    error: string | null;
+    // why each printer that cannot print the job was left out, by printer ID
+    rejectedPrinters: {[printerId: string]: string};
+}
+
+/**
+ * The cluster chosen for a job, or null if there is none, with an explanation of the choice.
+ */
+export interface DispatchDecision {
+    clusterId: string | null;
+    strategy: string;
+    explanation: string[];
+    evaluations: ClusterEvaluation[];
+}
+
+export interface DispatchResult {
+    decision: DispatchDecision;
+    // the UUID of the print job that was created on the chosen cluster
+    printJobId: string;
+}
+
+/**
+ * The options that may be given to the dispatcher.
+ */
+export interface PrintDispatcherOptions {
+    strategy?: DispatchStrategy;
+}
+
+// The printer statuses in which a printer cannot take new jobs.
+export const UNAVAILABLE_PRINTER_STATUSES = ['unreachable', 'maintenance', 'error', 'disabled'];
+
+/**
+ * Gets the requirements of a job from the metadata of its UFP package. Without metadata, e.g. for a G-code file,
+ * nothing is required.
+ */
+export function getJobRequirements(ufp: UfpMetadata | null): JobRequirements {
+    if (!ufp) {
+        return { targetMachine: null, extruders: [] };
+    }
+    return {
+        targetMachine: ufp.targetMachine,
+        extruders: ufp.extruders
+            // when the material usage is unknown the extruder may be used
+            .filter((extruder) => extruder.materialVolumeUsed === null || extruder.materialVolumeUsed > 0)
+            .map((extruder) => ({ index: extruder.index, materialGuid: extruder.materialGuid, printCore: extruder.nozzleName })),
+    };
+}
+
+/**
+ * Chooses the cluster to print a job on: from the online clusters with a printer of the right machine type with the
+ * right materials and print cores loaded, the strategy picks one, by default the least busy cluster.
+ */
+export class PrintDispatcher {
+    private readonly _demo: DigitalFactoryDemo;
+
+    private readonly _strategy: DispatchStrategy;
+
+    constructor(demo: DigitalFactoryDemo, { strategy = leastQueuedStrategy }: PrintDispatcherOptions = {}) {
+        this._demo = demo;
+        this._strategy = strategy;
+    }
+
+    /**
+     * Fetches the clusters with the printers and print jobs of the online clusters. A cluster that fails to respond
+     * gets an error instead, so it does not keep the job from the others.
+     */
+    async getClusterStates(): Promise<ClusterState[]> {
+        const clusters = await this._demo.getClusters();
+        const results = await Promise.allSettled(clusters.map((cluster) => this._fetchClusterState(cluster)));
+        return results.map((result, i) => (result.status === 'fulfilled' ? result.value : {
+            cluster: clusters[i],
+            printers: [],
+            queueLength: 0,
+            error: result.reason instanceof Error ? result.reason.message : `${result.reason}`,
+        }));
+    }
+
+    /**
+     * Decides where the job with the given requirements would be printed, without submitting it. The state of the
+     * clusters is fetched unless it is given, e.g. to plan several jobs against the same state.
+     */
+    async plan(requirements: JobRequirements, clusterStates?: ClusterState[]): Promise<DispatchDecision> {
+        const evaluations = (clusterStates || await this.getClusterStates()).map((state) => evaluateCluster(state, requirements));
+        const explanation = evaluations.map(explainEvaluation);
+        if (!requirements.targetMachine && requirements.extruders.length === 0) {
+            explanation.unshift('The job has no UFP metadata, so only the availability of the printers was checked.');
+        }
+        const candidates = evaluations.filter((evaluation) => evaluation.compatiblePrinterIds.length > 0);
+        if (candidates.length === 0) {
+            explanation.push('No online cluster has a printer that can print the job.');
+            return {
+                clusterId: null, strategy: this._strategy.name, explanation, evaluations,
+            };
+        }
+        const { candidate, reason } = this._strategy.choose(candidates);
+        explanation.push(`Chose ${describeCluster(candidate)} with the ${this._strategy.name} strategy, because ${reason}.`);
+        return {
+            clusterId: candidate.clusterId, strategy: this._strategy.name, explanation, evaluations,
+        };
+    }
+
+    /**
+     * Submits the uploaded job to the chosen cluster. Rejects with a DispatchError when no cluster can print it.
+     */
+    async dispatch(job: UploadedJob): Promise<DispatchResult> {
+        const decision = await this.plan(getJobRequirements(job.ufp));
+        if (!decision.clusterId) {
+            throw new DispatchError(`Cannot dispatch job ${job.job_name}`, decision);
+        }
+        const { job_instance_uuid } = await this._demo.submitPrintJob(job.job_id, decision.clusterId);
+        return { decision, printJobId: job_instance_uuid };
+    }
+
+    private async _fetchClusterState(cluster: Cluster): Promise<ClusterState> {
+        if (!cluster.is_online) {
+            return {
+                cluster, printers: [], queueLength: 0, error: null,
+            };
+        }
+        const [printers, printJobs] = await Promise.all([
+            this._demo.getClusterPrinters(cluster.cluster_id),
+            this._demo.listPrintJobs({ clusterId: cluster.cluster_id, status: ACTIVE_PRINT_JOB_STATUSES }).toArray(),
+        ]);
+        return {
+            cluster, printers, queueLength: printJobs.length, error: null,
+        };
+    }
+}
+
+/**
+ * Assesses which printers of the cluster can print a job with the given requirements.
+ */
+function evaluateCluster({
+    cluster, printers, queueLength, error,
+}: ClusterState, requirements: JobRequirements): ClusterEvaluation {
+    const evaluation = { ...createEvaluation(cluster), error };
+    if (!cluster.is_online || error) {
+        return evaluation;
+    }
+    printers.forEach((printer) => {
+        const problem = getIncompatibility(printer, requirements);
+        if (problem) {
+            evaluation.rejectedPrinters[printer.uuid] = problem;
+        } else {
+            evaluation.compatiblePrinterIds.push(printer.uuid);
+        }
+    });
+    evaluation.queueLength = queueLength;
+    return evaluation;
+}
+
+/**
+ * Creates the evaluation of a cluster in which no printer can print the job (yet).
+ */
+function createEvaluation(cluster: Cluster): ClusterEvaluation {
+    return {
+        clusterId: cluster.cluster_id,
+        clusterName: cluster.friendly_name || null,
+        online: cluster.is_online,
+        error: null,
+        compatiblePrinterIds: [],
+        queueLength: 0,
+        rejectedPrinters: {},
+    };
+}
+
+/**
+ * Tells why the printer cannot print a job with the given requirements, or returns null if it can.
+ */
+function getIncompatibility(printer: ClusterPrinter, { targetMachine, extruders }: JobRequirements): string | null {
+    if (UNAVAILABLE_PRINTER_STATUSES.includes(printer.status)) {
+        return `it is ${printer.status}`;
+    }
+    if (targetMachine && printer.machine_variant && printer.machine_variant.toLowerCase() !== targetMachine.toLowerCase()) {
+        return `it is an ${printer.machine_variant} instead of an ${targetMachine}`;
+    }
+    const configuration: ExtruderConfiguration[] = printer.configuration || [];
+    for (let i = 0; i < extruders.length; i += 1) {
+        const { index, materialGuid, printCore } = extruders[i];
+        const loaded = configuration.find((extruder) => extruder.extruder_index === index);
+        if (!loaded && configuration.length > 0) {
+            return `it has no extruder ${index + 1}`;
+        }
+        if (loaded && materialGuid && !loaded.material) {
+            return `extruder ${index + 1} has no material loaded`;
+        }
+        if (loaded && materialGuid && loaded.material.guid && loaded.material.guid !== materialGuid) {
+            return `extruder ${index + 1} has ${loaded.material.material || loaded.material.guid} loaded instead of material ${materialGuid}`;
+        }
+        if (loaded && printCore && loaded.print_core_id && loaded.print_core_id !== printCore) {
+            return `extruder ${index + 1} has print core ${loaded.print_core_id} instead of ${printCore}`;
+        }
+    }
+    return null;
+}
+
+function describeCluster(cluster: DispatchCandidate): string {
+    return cluster.clusterName ? `${cluster.clusterName} (${cluster.clusterId})` : cluster.clusterId;
+}
+
+function explainEvaluation(evaluation: ClusterEvaluation): string {
+    if (!evaluation.online) {
+        return `${describeCluster(evaluation)}: offline.`;
+    }
+    if (evaluation.error) {
+        return `${describeCluster(evaluation)}: its printers could not be checked, ${evaluation.error}.`;
+    }
+    const rejected = Object.entries(evaluation.rejectedPrinters).map(([printerId, problem]) => `printer ${printerId} cannot print the job, ${problem}`);
+    const total = evaluation.compatiblePrinterIds.length + rejected.length;
+    return [
+        `${describeCluster(evaluation)}: ${evaluation.compatiblePrinterIds.length} of ${total} printers can print the job`,
+        `${evaluation.queueLength} jobs queued or printing`,
+        ...rejected,
+    ].join('; ').concat('.');
+}
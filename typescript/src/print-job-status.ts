@@ -0,0 +1,31 @@
+/**
+ * The statuses of a print job after which it will not continue printing.
+ */
+export const FINISHED_PRINT_JOB_STATUSES = ['finished', 'failed', 'aborted', 'wait_cleanup', 'completed'];
+
+/**
+ * The statuses of a print job that failed or was stopped before completing.
+ */
+export const FAILED_PRINT_JOB_STATUSES = ['failed', 'aborted'];
+
+/**
+ * The statuses of a print job that is waiting in the queue of a cluster or printing.
+ */
+export const ACTIVE_PRINT_JOB_STATUSES = ['queued', 'pre_print', 'in_progress', 'printing', 'pausing', 'paused', 'resuming'];
+
+/**
+ * Whether a print job with the given status is done, successfully or not.
+ */
+export function isPrintJobFinished(status: string): boolean {
+    return FINISHED_PRINT_JOB_STATUSES.includes(status);
+}
+
+/**
+ * The progress of a print job between 0 and 1, based on its elapsed and total time.
+ */
+export function getPrintJobProgress(printJob: { time_elapsed?: number, time_total?: number }): number | null {
+    if (!printJob.time_total) {
+        return null;
+    }
+    return Math.min(Math.max((printJob.time_elapsed || 0) / printJob.time_total, 0), 1);
+}
@@ -0,0 +1,83 @@
+import { ActionAbortedError } from './action-aborted-error';
+import { ActionFailedError } from './action-failed-error';
+import { ActionTimeoutError } from './action-timeout-error';
+import { DigitalFactoryApiError } from './api-error';
+import type { DigitalFactoryDemo } from './digital-factory';
+import type { MockDigitalFactoryServer } from './mock-digital-factory-server';
+import type { PrintJobEvent } from './print-job-watcher';
+import { startMockClient } from './test-helpers';
+
+describe('PrintJobWatcher', () => {
+    let server: MockDigitalFactoryServer;
+    let demo: DigitalFactoryDemo;
+
+    beforeEach(async () => {
+        ({ server, demo } = await startMockClient());
+    });
+
+    afterEach(() => server.stop());
+
+    async function submitPrintJob(): Promise<string> {
+        const project = await demo.createProject('Watcher');
+        const job = await demo.uploadFileToProject(project.library_project_id, Buffer.from('G28\n'), { fileName: 'cube.gcode' });
+        return (await demo.submitPrintJob(job.job_id, 'mock-cluster-1')).job_instance_uuid;
+    }
+
+    it('follows a print job until it is finished', async () => {
+        const printJobId = await submitPrintJob();
+        const watcher = demo.watchPrintJob(printJobId, { intervalMS: 1 });
+        const events: PrintJobEvent[] = [];
+        for await (const event of watcher) { // eslint-disable-line no-restricted-syntax
+            events.push(event);
+            event.type === 'printing' && server.advancePrintJob(printJobId, 1800); // eslint-disable-line no-unused-expressions
+        }
+        expect(events.map((event) => [event.type, event.progress])).toEqual([['printing', 0], ['printing', 0.5], ['finished', 1]]);
+    });
+
+    it('waits for a new print job to show up', async () => {
+        server.printJobVisibilityDelayMS = 50;
+        const printJobId = await submitPrintJob();
+        const watcher = demo.watchPrintJob(printJobId, { intervalMS: 5, visibilityTimeoutMS: 1000 });
+        watcher.on('printing', () => server.advancePrintJob(printJobId, 3600));
+        expect(await watcher.waitForCompletion()).toMatchObject({ uuid: printJobId, status: 'finished' });
+    });
+
+    it('fails with the not found error when the print job does not show up in time', async () => {
+        server.printJobVisibilityDelayMS = 1000;
+        const printJobId = await submitPrintJob();
+        const error = await demo.watchPrintJob(printJobId, { intervalMS: 5, visibilityTimeoutMS: 20 }).waitForCompletion().catch((ex) => ex);
+        expect(error).toBeInstanceOf(DigitalFactoryApiError);
+        expect(error.status).toBe(404);
+    });
+
+    it('ends with an aborted event when the print job disappears after it was seen', async () => {
+        const printJobId = await submitPrintJob();
+        const watcher = demo.watchPrintJob(printJobId, { intervalMS: 1 });
+        const aborted = jest.fn();
+        watcher.on('aborted', aborted);
+        watcher.on('printing', () => {
+            server.printJobs.splice(server.printJobs.findIndex((printJob) => printJob.uuid === printJobId), 1);
+        });
+        const error = await watcher.waitForCompletion().catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionFailedError);
+        expect(error.lastStatus.uuid).toBe(printJobId);
+        expect(aborted).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails with the last print job when waiting times out', async () => {
+        const printJobId = await submitPrintJob();
+        const error = await demo.watchPrintJob(printJobId, { intervalMS: 5 }).waitForCompletion({ timeoutMS: 30 }).catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionTimeoutError);
+        expect(error.lastStatus).toMatchObject({ uuid: printJobId, status: 'in_progress' });
+    });
+
+    it('fails with the last print job when waiting is aborted', async () => {
+        const printJobId = await submitPrintJob();
+        const abort = new AbortController();
+        const watcher = demo.watchPrintJob(printJobId, { intervalMS: 5, signal: abort.signal });
+        watcher.on('printing', () => abort.abort());
+        const error = await watcher.waitForCompletion({ timeoutMS: 1000 }).catch((ex) => ex);
+        expect(error).toBeInstanceOf(ActionAbortedError);
+        expect(error.lastStatus).toMatchObject({ uuid: printJobId, status: 'in_progress' });
+    });
+});
@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+import { ActionAbortedError } from './action-aborted-error';
+import { ActionFailedError } from './action-failed-error';
+import { ActionTimeoutError } from './action-timeout-error';
+import { DigitalFactoryApiError } from './api-error';
+import type { DigitalFactoryDemo } from './digital-factory';
+import type { PrintJob } from './models';
+import { getPrintJobProgress, isPrintJobFinished } from './print-job-status';
+import { sleep } from './sleep';
+
+export type PrintJobEventType = 'queued' | 'printing' | 'paused' | 'finished' | 'failed' | 'aborted';
+
+/**
+ * A change in the lifecycle of a watched print job, or new progress while it is printing.
+ */
+export interface PrintJobEvent {
+    type: PrintJobEventType;
+    printJob: PrintJob;
+    // between 0 and 1, or null if it is unknown
+    progress: number | null;
+    // when the print job is expected to finish, only known while it is printing
+    estimatedFinishAt: string | null;
+}
+
+/**
+ * The options that may be given to the print job watcher.
+ */
+export interface PrintJobWatcherOptions {
+    // how often the print job is requested
+    intervalMS?: number;
+    // how long a new print job may take to show up in the API, it can take several seconds after submitting it
+    visibilityTimeoutMS?: number;
+    // stops the watching
+    signal?: AbortSignal;
+}
+
+export interface WaitForCompletionOptions {
+    // the maximum total time to wait for the print job to finish
+    timeoutMS?: number;
+}
+
+// The event type of each print job status. Print jobs with another status do not cause events.
+const EVENT_TYPES: {[status: string]: PrintJobEventType} = {
+    queued: 'queued',
+    pre_print: 'printing',
+    in_progress: 'printing',
+    printing: 'printing',
+    resuming: 'printing',
+    pausing: 'paused',
+    paused: 'paused',
+    finished: 'finished',
+    completed: 'finished',
+    wait_cleanup: 'finished',
+    failed: 'failed',
+    aborted: 'aborted',
+};
+
+/**
+ * Follows a print job, e.g. one that was just submitted, until it is finished. Its events can be iterated with
+ * `for await`, which ends with the 'finished', 'failed' or 'aborted' event. Every event is emitted as well, by its
+ * type and as a 'change' event, while the print job is iterated or waited for.
+ */
+export class PrintJobWatcher extends EventEmitter implements AsyncIterable<PrintJobEvent> {
+    readonly printJobId: string;
+
+    private readonly _demo: DigitalFactoryDemo;
+
+    private readonly _intervalMS: number;
+
+    private readonly _visibilityTimeoutMS: number;
+
+    private readonly _signal: AbortSignal;
+
+    constructor(demo: DigitalFactoryDemo, printJobId: string, {
+        intervalMS = 10000,
+        visibilityTimeoutMS = 60000,
+        signal,
+    }: PrintJobWatcherOptions = {}) {
+        super();
+        this._demo = demo;
+        this.printJobId = printJobId;
+        this._intervalMS = intervalMS;
+        this._visibilityTimeoutMS = visibilityTimeoutMS;
+        this._signal = signal;
+    }
+
+    on(eventType: PrintJobEventType | 'change', listener: (event: PrintJobEvent) => void): this {
+        return super.on(eventType, listener);
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<PrintJobEvent> {
+        return this._watch(this._signal);
+    }
+
+    /**
+     * Waits until the print job is finished and resolves with it. Rejects with an ActionFailedError when the print
+     * job failed or was aborted, or with an ActionTimeoutError or ActionAbortedError carrying the last print job.
+     */
+    async waitForCompletion({ timeoutMS }: WaitForCompletionOptions = {}): Promise<PrintJob> {
+        const abort = new AbortController();
+        const onAbort = () => abort.abort();
+        this._signal && this._signal.addEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+        const timeout = timeoutMS === undefined ? null : setTimeout(onAbort, timeoutMS);
+
+        let lastEvent: PrintJobEvent = null;
+        try {
+            for await (const event of this._watch(abort.signal)) { // eslint-disable-line no-restricted-syntax
+                lastEvent = event;
+            }
+        } finally {
+            clearTimeout(timeout);
+            this._signal && this._signal.removeEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+        }
+
+        const lastPrintJob = lastEvent && lastEvent.printJob;
+        if (this._signal && this._signal.aborted) {
+            throw new ActionAbortedError(`Aborted waiting for print job ${this.printJobId}`, lastPrintJob);
+        }
+        if (abort.signal.aborted) {
+            throw new ActionTimeoutError(`Timed out after ${timeoutMS}ms waiting for print job ${this.printJobId}`, lastPrintJob);
+        }
+        if (!lastEvent) {
+            throw new ActionFailedError(`The print job ${this.printJobId} ended without a known status`, lastPrintJob);
+        }
+        if (lastEvent.type !== 'finished') {
+            throw new ActionFailedError(`The print job ${lastPrintJob.name} ended with status ${lastPrintJob.status}`, lastPrintJob);
+        }
+        return lastPrintJob;
+    }
+
+    /**
+     * Polls the print job until it is finished or the signal is aborted. A print job that is not found is retried
+     * until the visibility timeout, as new print jobs take a while to show up. A print job that disappears once it
+     * was found, e.g. because it was removed from the queue, ends with an 'aborted' event.
+     */
+    private async* _watch(signal: AbortSignal): AsyncGenerator<PrintJobEvent> {
+        const visibleBeforeMS = Date.now() + this._visibilityTimeoutMS;
+        let lastPrintJob: PrintJob = null;
+        let lastUpdate = '';
+        while (!(signal && signal.aborted)) {
+            let printJob: PrintJob = null;
+            try {
+                printJob = await this._demo.getPrintJob(this.printJobId);
+            } catch (ex) {
+                if (!(ex instanceof DigitalFactoryApiError && ex.status === 404)) {
+                    throw ex;
+                }
+                if (lastPrintJob) {
+                    yield this._emit(createEvent('aborted', lastPrintJob));
+                    return;
+                }
+                if (Date.now() >= visibleBeforeMS) {
+                    throw ex;
+                }
+            }
+
+            const type = printJob && EVENT_TYPES[printJob.status];
+            if (type) {
+                // while printing, every change in progress is an event as well
+                const update = type === 'printing' ? `${type}:${printJob.time_elapsed}` : type;
+                if (update !== lastUpdate) {
+                    yield this._emit(createEvent(type, printJob));
+                    lastUpdate = update;
+                }
+            }
+            if (printJob && isPrintJobFinished(printJob.status)) {
+                return;
+            }
+            lastPrintJob = printJob || lastPrintJob;
+            await sleep(this._intervalMS, signal);
+        }
+    }
+
+    private _emit(event: PrintJobEvent): PrintJobEvent {
+        this.emit(event.type, event);
+        this.emit('change', event);
+        return event;
+    }
+}
+
+function createEvent(type: PrintJobEventType, printJob: PrintJob): PrintJobEvent {
+    const progress = getPrintJobProgress(printJob);
+    const remainingSeconds = printJob.time_total ? printJob.time_total - (printJob.time_elapsed || 0) : null;
+    return {
+        type,
+        printJob,
+        progress,
+        estimatedFinishAt: type === 'printing' && remainingSeconds !== null
+            ? new Date(Date.now() + Math.max(remainingSeconds, 0) * 1000).toISOString()
+            : null,
+    };
+}
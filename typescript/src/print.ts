@@ -1,4 +1,15 @@
-export const print = console.log.bind(console); // eslint-disable-line no-console
+let output: (...args: any[]) => void = console.log.bind(console); // eslint-disable-line no-console
+
+export function print(...args: any[]): void {
+    output(...args);
+}
+
+/**
+ * Sends everything printed to stderr instead of stdout, e.g. to keep stdout for the results of a command.
+ */
+export function printToStderr(): void {
+    output = console.error.bind(console); // eslint-disable-line no-console
+}
 
 export function prettyJSON(jsonObject: any): string {
     return JSON.stringify(jsonObject, null, 4);
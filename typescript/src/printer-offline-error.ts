@@ -0,0 +1,16 @@
+/**
+ * Thrown when an action cannot be started because the cluster or the printer it targets is offline.
+ */
+export class PrinterOfflineError extends Error {
+    readonly clusterId: string;
+
+    // the API error codes, e.g. `CLUSTER_OFFLINE`
+    readonly codes: string[];
+
+    constructor(message: string, clusterId: string, codes: string[]) {
+        super(message);
+        this.name = 'PrinterOfflineError';
+        this.clusterId = clusterId;
+        this.codes = codes;
+    }
+}
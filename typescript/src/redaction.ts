@@ -0,0 +1,67 @@
+export const REDACTED = '[REDACTED]';
+
+// The query parameters of the Digital Factory API, which are kept in logged URLs. The query strings of all other
+// URLs, e.g. signed upload and download URLs, are redacted as a whole.
+const SAFE_QUERY_PARAMETERS = ['limit', 'page', 'search', 'shared', 'status', 'cluster_id', 'created_after', 'created_before'];
+
+// The names of OAuth parameters that carry a secret, in form bodies and JSON.
+const SECRET_PARAMETERS = ['access_token', 'refresh_token', 'id_token', 'code_verifier', 'client_secret', 'device_code'];
+
+const URL_WITH_QUERY = /(https?:\/\/[^\s?#"'<>]+)\?([^\s#"'<>]*)/g;
+
+const BEARER_TOKEN = /Bearer\s+[^\s"',]+/gi;
+
+// JSON web tokens, such as access tokens
+const JWT = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+const SECRET_FORM_PARAMETER = new RegExp(`\\b(${SECRET_PARAMETERS.join('|')})=[^&\\s"']+`, 'g');
+
+const SECRET_JSON_PROPERTY = new RegExp(`"(${SECRET_PARAMETERS.join('|')})"\\s*:\\s*"[^"]*"`, 'g');
+
+/**
+ * Whether a property holds a secret, judging by its name, e.g. `access_token`, `refreshToken` or `Authorization`.
+ */
+export function isSecretName(name: string): boolean {
+    const normalized = name.toLowerCase().replace(/[_-]/g, '');
+    return ['token', 'secret', 'verifier', 'password'].some((word) => normalized.includes(word)) || normalized === 'authorization';
+}
+
+/**
+ * Removes tokens, PKCE verifiers and the query strings of signed URLs from a text, as well as the given secrets.
+ */
+export function redactText(text: string, secrets: string[] = []): string {
+    const redacted = secrets
+        .filter((secret) => secret && secret.length >= 8)
+        .reduce((result, secret) => result.split(secret).join(REDACTED), text);
+    return redacted
+        .replace(BEARER_TOKEN, `Bearer ${REDACTED}`)
+        .replace(JWT, REDACTED)
+        .replace(SECRET_JSON_PROPERTY, `"$1": "${REDACTED}"`)
+        .replace(SECRET_FORM_PARAMETER, `$1=${REDACTED}`)
+        .replace(URL_WITH_QUERY, (url: string, base: string, query: string) => {
+            const names = [...new URLSearchParams(query).keys()];
+            return names.every((name) => SAFE_QUERY_PARAMETERS.includes(name)) ? url : `${base}?${REDACTED}`;
+        });
+}
+
+/**
+ * Redacts a value to log: texts are redacted, properties with a secret name are replaced, and errors are reduced
+ * to their name and message.
+ */
+export function redactValue(value: unknown, secrets: string[] = []): unknown {
+    if (typeof value === 'string') {
+        return redactText(value, secrets);
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: redactText(value.message, secrets) };
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, secrets));
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([name, property]) => (
+            [name, isSecretName(name) && property !== null && property !== undefined ? REDACTED : redactValue(property, secrets)]
+        )));
+    }
+    return value;
+}
@@ -0,0 +1,105 @@
+import {
+    aggregateReportRows, getReportRowParser, parseReportCsv, parseReportRecords, ReportRow, toCsv,
+} from './reports';
+
+const HEADER = 'job_name,cluster_id,cluster_printer_id,status,started_at,duration_seconds,material_usage_grams';
+
+function row(overrides: Partial<ReportRow>): ReportRow {
+    return {
+        jobName: 'cube',
+        clusterId: 'cluster-1',
+        printerId: 'printer-1',
+        status: 'finished',
+        startedAt: new Date('2021-11-22T10:00:00Z'),
+        durationSeconds: 3600,
+        materialUsageGrams: 10,
+        ...overrides,
+    };
+}
+
+describe('reports', () => {
+    describe('parseReportRecords', () => {
+        it('reads quoted values with separators, quotes and line breaks', () => {
+            const csv = 'name,comment\r\n"Bracket, left","Printed with ""care"""\r\n"Hinge","two\r\nlines"\r\n';
+            expect(parseReportRecords(csv)).toEqual([
+                { name: 'Bracket, left', comment: 'Printed with "care"' },
+                { name: 'Hinge', comment: 'two\r\nlines' },
+            ]);
+        });
+
+        it('names the columns after the header in lowercase, and skips empty rows', () => {
+            expect(parseReportRecords(' Name ,Status\n\ncube\n,\n')).toEqual([{ name: 'cube', status: '' }]);
+            expect(parseReportRecords('')).toEqual([]);
+        });
+    });
+
+    describe('parseReportCsv', () => {
+        it('parses the print jobs into typed rows', () => {
+            const csv = `${HEADER}\n"cube, large",cluster-1,printer-1,finished,2021-11-22T10:00:00Z,3600,12.5\nsphere,cluster-1,printer-2,failed,,,n/a\n`;
+            expect(parseReportCsv(csv)).toEqual([
+                row({ jobName: 'cube, large', materialUsageGrams: 12.5 }),
+                row({
+                    jobName: 'sphere', printerId: 'printer-2', status: 'failed', startedAt: null, durationSeconds: null, materialUsageGrams: null,
+                }),
+            ]);
+        });
+
+        it('refuses a report without the print job columns', () => {
+            expect(() => parseReportCsv('job_name,status\ncube,finished')).toThrow(
+                'The report is not a print jobs report, it has no cluster_id, cluster_printer_id, started_at, duration_seconds, material_usage_grams columns',
+            );
+        });
+
+        it('is the parser of print jobs reports only', () => {
+            expect(getReportRowParser('print_jobs')).toBe(parseReportCsv);
+            expect(() => getReportRowParser('materials')).toThrow('Reports of type materials cannot be parsed into rows, only print_jobs reports can');
+        });
+    });
+
+    describe('aggregateReportRows', () => {
+        const rows = [
+            row({ printerId: 'printer-2', status: 'Finished', durationSeconds: 100 }),
+            row({ status: 'aborted', durationSeconds: null, materialUsageGrams: null }),
+            row({ clusterId: 'cluster-2', status: 'queued', startedAt: null }),
+            row({ status: 'completed', startedAt: new Date('2021-11-21T23:59:59Z'), materialUsageGrams: 2.5 }),
+        ];
+
+        it('totals the rows per cluster', () => {
+            expect(aggregateReportRows(rows, 'cluster')).toEqual([
+                {
+                    key: 'cluster-1', jobCount: 3, finishedCount: 2, failedCount: 1, totalDurationSeconds: 3700, totalMaterialUsageGrams: 12.5,
+                },
+                {
+                    key: 'cluster-2', jobCount: 1, finishedCount: 0, failedCount: 0, totalDurationSeconds: 3600, totalMaterialUsageGrams: 10,
+                },
+            ]);
+        });
+
+        it('totals the rows per printer and per day', () => {
+            expect(aggregateReportRows(rows, 'printer').map(({ key, jobCount }) => [key, jobCount])).toEqual([['printer-1', 3], ['printer-2', 1]]);
+            expect(aggregateReportRows(rows, 'day').map(({ key, jobCount }) => [key, jobCount])).toEqual([
+                ['2021-11-21', 1], ['2021-11-22', 2], ['unknown', 1],
+            ]);
+        });
+    });
+
+    describe('toCsv', () => {
+        it('writes the field names as header and quotes the values that need it', () => {
+            expect(toCsv([row({ jobName: 'cube, "large"' }), row({ jobName: 'two\r\nlines', startedAt: null, durationSeconds: null })])).toBe([
+                'jobName,clusterId,printerId,status,startedAt,durationSeconds,materialUsageGrams',
+                '"cube, ""large""",cluster-1,printer-1,finished,2021-11-22T10:00:00.000Z,3600,10',
+                '"two\r\nlines",cluster-1,printer-1,finished,,,10',
+            ].join('\n'));
+        });
+
+        it('quotes the values with the given separator', () => {
+            expect(toCsv([{ name: 'a;b', count: 1 }], ';')).toBe('name;count\n"a;b";1');
+            expect(toCsv([])).toBe('');
+        });
+
+        it('writes what the parser reads back', () => {
+            const records = [{ name: 'Bracket, left', comment: 'Printed with "care"\r\non two lines' }];
+            expect(parseReportRecords(toCsv(records))).toEqual(records);
+        });
+    });
+});
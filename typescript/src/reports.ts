@@ -0,0 +1,212 @@
+/**
+ * A single print job in a downloaded report.
+ */
+export interface ReportRow {
+    jobName: string;
+    clusterId: string;
+    printerId: string;
+    status: string;
+    startedAt: Date | null;
+    durationSeconds: number | null;
+    materialUsageGrams: number | null;
+}
+
+/**
+ * The totals of a group of report rows, e.g. all print jobs of one printer.
+ */
+export interface ReportAggregate {
+    key: string;
+    jobCount: number;
+    finishedCount: number;
+    failedCount: number;
+    totalDurationSeconds: number;
+    totalMaterialUsageGrams: number;
+}
+
+export type ReportGrouping = 'cluster' | 'printer' | 'day';
+
+/**
+ * A record of a report of any type, with its values by the column names in the header of the report.
+ */
+export type ReportRecord = {[column: string]: string};
+
+// The column of a print jobs report that each field is read from.
+const PRINT_JOB_COLUMNS: {[field in keyof ReportRow]: string} = {
+    jobName: 'job_name',
+    clusterId: 'cluster_id',
+    printerId: 'cluster_printer_id',
+    status: 'status',
+    startedAt: 'started_at',
+    durationSeconds: 'duration_seconds',
+    materialUsageGrams: 'material_usage_grams',
+};
+
+// The report types that can be parsed into typed rows.
+const ROW_PARSERS: {[reportType: string]: (csv: string) => ReportRow[]} = {
+    print_jobs: parseReportCsv,
+};
+
+const FINISHED_STATUSES = ['finished', 'completed', 'success'];
+
+const FAILED_STATUSES = ['failed', 'aborted', 'error'];
+
+/**
+ * Gets the parser of the rows of a report type, throwing when reports of the type cannot be parsed into rows.
+ */
+export function getReportRowParser(reportType: string): (csv: string) => ReportRow[] {
+    const parse = ROW_PARSERS[reportType];
+    if (!parse) {
+        throw new Error(`Reports of type ${reportType} cannot be parsed into rows, only ${Object.keys(ROW_PARSERS).join(', ')} reports can`);
+    }
+    return parse;
+}
+
+/**
+ * Parses a report of any type in CSV format into records with the columns named in its header row.
+ */
+export function parseReportRecords(csv: string): ReportRecord[] {
+    return parseReportTable(csv).records;
+}
+
+/**
+ * Parses a print jobs report in CSV format into typed rows, throwing when its header lacks any of the columns.
+ */
+export function parseReportCsv(csv: string): ReportRow[] {
+    const { columns, records } = parseReportTable(csv);
+    const missingColumns = Object.values(PRINT_JOB_COLUMNS).filter((column) => !columns.includes(column));
+    if (records.length > 0 && missingColumns.length > 0) {
+        throw new Error(`The report is not a print jobs report, it has no ${missingColumns.join(', ')} columns`);
+    }
+
+    const text = (record: ReportRecord, field: keyof ReportRow): string => record[PRINT_JOB_COLUMNS[field]] || '';
+    const number = (record: ReportRecord, field: keyof ReportRow): number | null => {
+        const value = text(record, field);
+        return value === '' || Number.isNaN(Number(value)) ? null : Number(value);
+    };
+    return records.map((record) => {
+        const startedAt = text(record, 'startedAt');
+        return {
+            jobName: text(record, 'jobName'),
+            clusterId: text(record, 'clusterId'),
+            printerId: text(record, 'printerId'),
+            status: text(record, 'status'),
+            startedAt: startedAt ? new Date(startedAt) : null,
+            durationSeconds: number(record, 'durationSeconds'),
+            materialUsageGrams: number(record, 'materialUsageGrams'),
+        };
+    });
+}
+
+/**
+ * Totals the rows per cluster, printer or (UTC) day on which the job started, sorted by key.
+ */
+export function aggregateReportRows(rows: ReportRow[], groupBy: ReportGrouping): ReportAggregate[] {
+    const groups = new Map<string, ReportAggregate>();
+    rows.forEach((row) => {
+        const key = getGroupKey(row, groupBy);
+        const aggregate = groups.get(key) || {
+            key, jobCount: 0, finishedCount: 0, failedCount: 0, totalDurationSeconds: 0, totalMaterialUsageGrams: 0,
+        };
+        const status = row.status.toLowerCase();
+        aggregate.jobCount += 1;
+        aggregate.finishedCount += FINISHED_STATUSES.includes(status) ? 1 : 0;
+        aggregate.failedCount += FAILED_STATUSES.includes(status) ? 1 : 0;
+        aggregate.totalDurationSeconds += row.durationSeconds || 0;
+        aggregate.totalMaterialUsageGrams += row.materialUsageGrams || 0;
+        groups.set(key, aggregate);
+    });
+    return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Converts report rows, aggregates or other flat objects to CSV, with the field names as header.
+ */
+export function toCsv<T extends object>(items: T[], separator = ','): string {
+    if (items.length === 0) {
+        return '';
+    }
+    const fields = Object.keys(items[0]) as (keyof T & string)[];
+    const lines = items.map((item) => fields.map((field) => csvValue(item[field], separator)).join(separator));
+    return [fields.join(separator), ...lines].join('\n');
+}
+
+/**
+ * Converts report rows or aggregates to JSON.
+ */
+export function toJson(items: ReportRow[] | ReportAggregate[]): string {
+    return JSON.stringify(items, null, 4);
+}
+
+function getGroupKey(row: ReportRow, groupBy: ReportGrouping): string {
+    switch (groupBy) {
+    case 'cluster':
+        return row.clusterId;
+    case 'printer':
+        return row.printerId;
+    default:
+        return row.startedAt && !Number.isNaN(row.startedAt.getTime()) ? row.startedAt.toISOString().slice(0, 10) : 'unknown';
+    }
+}
+
+function csvValue(value: unknown, separator: string): string {
+    const text = value instanceof Date ? value.toISOString() : `${value === null || value === undefined ? '' : value}`;
+    return text.includes(separator) || text.includes('"') || /[\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Reads the column names from the header row and the records from the other rows, skipping empty rows.
+ */
+function parseReportTable(csv: string): { columns: string[], records: ReportRecord[] } {
+    const [header, ...rows] = parseCsv(csv);
+    if (!header) {
+        return { columns: [], records: [] };
+    }
+    const columns = header.map((name) => name.trim().toLowerCase());
+    const records = rows
+        .filter((row) => row.some((value) => value !== ''))
+        .map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] || ''])));
+    return { columns, records };
+}
+
+/**
+ * Splits CSV text into records, supporting quoted values containing separators, quotes and newlines.
+ */
+function parseCsv(csv: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let value = '';
+    let quoted = false;
+    for (let i = 0; i < csv.length; i += 1) {
+        const char = csv[i];
+        if (quoted) {
+            if (char === '"' && csv[i + 1] === '"') {
+                value += '"';
+                i += 1;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') {
+                i += 1;
+            }
+            record.push(value);
+            records.push(record);
+            record = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+    if (value !== '' || record.length > 0) {
+        record.push(value);
+        records.push(record);
+    }
+    return records;
+}
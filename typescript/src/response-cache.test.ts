@@ -0,0 +1,67 @@
+import { ResponseCache } from './response-cache';
+
+describe('ResponseCache', () => {
+    let nowMS: number;
+    let cache: ResponseCache;
+
+    beforeEach(() => {
+        nowMS = 0;
+        cache = new ResponseCache({ maxEntries: 3, clock: () => nowMS });
+    });
+
+    it('shares a load that is still running', async () => {
+        const load = jest.fn(async () => 'clusters');
+        expect(await Promise.all([cache.get('clusters', 100, load), cache.get('clusters', 100, load)])).toEqual(['clusters', 'clusters']);
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps a value until it expires', async () => {
+        await cache.get('clusters', 100, async () => 'first');
+        nowMS = 99;
+        expect(await cache.get('clusters', 100, async () => 'second')).toBe('first');
+        nowMS = 100;
+        expect(await cache.get('clusters', 100, async () => 'second')).toBe('second');
+    });
+
+    it('does not keep a failed load', async () => {
+        await expect(cache.get('clusters', 100, async () => { throw new Error('Bad gateway'); })).rejects.toThrow('Bad gateway');
+        expect(await cache.get('clusters', 100, async () => 'clusters')).toBe('clusters');
+    });
+
+    it('forgets the values with the given prefix', async () => {
+        await cache.get('print-jobs/running', 100, async () => 'running');
+        await cache.get('clusters', 100, async () => 'clusters');
+        cache.invalidate('print-jobs/');
+        expect(await cache.get('print-jobs/running', 100, async () => 'changed')).toBe('changed');
+        expect(await cache.get('clusters', 100, async () => 'changed')).toBe('clusters');
+    });
+
+    it('does not keep or share a load that was running when it was invalidated', async () => {
+        let finishStaleLoad: (value: string) => void;
+        const stale = cache.get('print-jobs/running', 100, () => new Promise<string>((resolve) => { finishStaleLoad = resolve; }));
+        const coalesced = cache.get('print-jobs/running', 100, async () => 'unused');
+        cache.invalidate('print-jobs/');
+        const fresh = cache.get('print-jobs/running', 100, async () => 'submitted');
+        finishStaleLoad('running');
+        expect(await Promise.all([stale, coalesced, fresh])).toEqual(['running', 'running', 'submitted']);
+        expect(await cache.get('print-jobs/running', 100, async () => 'changed')).toBe('submitted');
+    });
+
+    it('forgets the expired values', async () => {
+        await cache.get('projects?search=a', 100, async () => 'a');
+        await cache.get('projects?search=b', 100, async () => 'b');
+        nowMS = 100;
+        await cache.get('projects?search=c', 100, async () => 'c');
+        expect(cache.size).toBe(1);
+    });
+
+    it('forgets the oldest values when it is full', async () => {
+        await cache.get('a', 100, async () => 'a');
+        await cache.get('b', 100, async () => 'b');
+        await cache.get('c', 100, async () => 'c');
+        await cache.get('d', 100, async () => 'd');
+        expect(cache.size).toBe(3);
+        expect(await cache.get('a', 100, async () => 'reloaded')).toBe('reloaded');
+        expect(await cache.get('d', 100, async () => 'reloaded')).toBe('d');
+    });
+});
@@ -0,0 +1,94 @@
+interface CacheEntry {
+    value: unknown;
+    expiresAtMS: number;
+}
+
+/**
+ * The options that may be given to the response cache.
+ */
+export interface ResponseCacheOptions {
+    // the most values that are kept, the oldest are forgotten first
+    maxEntries?: number;
+    clock?: () => number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Keeps loaded values for a short time, and shares a load that is still running with everyone asking for the same
+ * key meanwhile, so many clients polling the same data cause a single request. Failed loads are not kept, and
+ * expired values are forgotten when a new value is kept.
+ */
+export class ResponseCache {
+    private readonly _entries = new Map<string, CacheEntry>();
+
+    private readonly _loading = new Map<string, Promise<unknown>>();
+
+    private readonly _maxEntries: number;
+
+    private readonly _clock: () => number;
+
+    constructor({ maxEntries = DEFAULT_MAX_ENTRIES, clock = Date.now }: ResponseCacheOptions = {}) {
+        this._maxEntries = maxEntries;
+        this._clock = clock;
+    }
+
+    /**
+     * Gets the value of the key if it was loaded less than the given time ago, and loads it otherwise.
+     */
+    async get<T>(key: string, ttlMS: number, load: () => Promise<T>): Promise<T> {
+        const entry = this._entries.get(key);
+        if (entry && entry.expiresAtMS > this._clock()) {
+            return entry.value as T;
+        }
+        this._entries.delete(key);
+        if (!this._loading.has(key)) {
+            // a load that was invalidated while it was running is no longer the current one, and its value is not kept
+            const loading: Promise<T> = load().then((value) => {
+                if (this._loading.get(key) === loading) {
+                    this._set(key, { value, expiresAtMS: this._clock() + ttlMS });
+                }
+                return value;
+            }).finally(() => {
+                if (this._loading.get(key) === loading) {
+                    this._loading.delete(key);
+                }
+            });
+            this._loading.set(key, loading);
+        }
+        return this._loading.get(key) as Promise<T>;
+    }
+
+    /**
+     * Forgets the values of the keys that start with the given prefix, e.g. after a change, or all values. Loads of
+     * those keys that are still running are not shared anymore and their values are not kept, as they may have been
+     * loaded before the change.
+     */
+    invalidate(prefix = ''): void {
+        [...this._entries.keys()].filter((key) => key.startsWith(prefix)).forEach((key) => this._entries.delete(key));
+        [...this._loading.keys()].filter((key) => key.startsWith(prefix)).forEach((key) => this._loading.delete(key));
+    }
+
+    /**
+     * The number of values that are kept, including expired ones that were not forgotten yet.
+     */
+    get size(): number {
+        return this._entries.size;
+    }
+
+    /**
+     * Keeps the value after forgetting the expired ones, and the oldest ones while there are too many.
+     */
+    private _set(key: string, entry: CacheEntry): void {
+        const nowMS = this._clock();
+        this._entries.forEach(({ expiresAtMS }, entryKey) => {
+            expiresAtMS <= nowMS && this._entries.delete(entryKey); // eslint-disable-line no-unused-expressions
+        });
+        // the map keeps its keys in the order they were set, so the first ones are the oldest
+        const keys = this._entries.keys();
+        while (this._entries.size > 0 && this._entries.size >= this._maxEntries) {
+            this._entries.delete(keys.next().value);
+        }
+        this._entries.set(key, entry);
+    }
+}
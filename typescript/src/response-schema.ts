@@ -0,0 +1,87 @@
+/**
+ * Checks a value from an API response at the given path, e.g. `data[0].host_printer`, and adds a problem for
+ * everything that does not match. Properties that are not in a schema are ignored, so new API fields are no problem.
+ */
+export type Schema = (value: unknown, path: string, problems: string[]) => void;
+
+/**
+ * How API responses are checked against the schemas of the models: 'strict' throws a ResponseValidationError,
+ * 'lenient' logs the problems and continues, and 'off' skips the checks.
+ */
+export type ResponseValidationMode = 'strict' | 'lenient' | 'off';
+
+export const isString: Schema = (value, path, problems) => {
+    typeof value !== 'string' && problems.push(`${path} must be a string, got ${describe(value)}`); // eslint-disable-line no-unused-expressions
+};
+
+export const isNumber: Schema = (value, path, problems) => {
+    typeof value !== 'number' && problems.push(`${path} must be a number, got ${describe(value)}`); // eslint-disable-line no-unused-expressions
+};
+
+export const isBoolean: Schema = (value, path, problems) => {
+    typeof value !== 'boolean' && problems.push(`${path} must be a boolean, got ${describe(value)}`); // eslint-disable-line no-unused-expressions
+};
+
+/**
+ * Accepts any value, for properties of which the contents differ per case.
+ */
+export const isAnything: Schema = () => {};
+
+/**
+ * Accepts one of the given texts, for statuses the client acts upon.
+ */
+export function isOneOf(values: string[]): Schema {
+    return (value, path, problems) => {
+        !values.includes(value as string) && problems.push(`${path} must be one of ${values.join(', ')}, got ${describe(value)}`); // eslint-disable-line no-unused-expressions
+    };
+}
+
+/**
+ * Accepts a missing property as well.
+ */
+export function optional(schema: Schema): Schema {
+    return (value, path, problems) => value !== undefined && schema(value, path, problems);
+}
+
+/**
+ * Accepts null as well.
+ */
+export function nullable(schema: Schema): Schema {
+    return (value, path, problems) => value !== null && schema(value, path, problems);
+}
+
+export function arrayOf(schema: Schema): Schema {
+    return (value, path, problems) => {
+        if (!Array.isArray(value)) {
+            problems.push(`${path} must be a list, got ${describe(value)}`);
+            return;
+        }
+        value.forEach((item, i) => schema(item, `${path}[${i}]`, problems));
+    };
+}
+
+export function objectWith(properties: {[name: string]: Schema}): Schema {
+    return (value, path, problems) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            problems.push(`${path} must be an object, got ${describe(value)}`);
+            return;
+        }
+        Object.entries(properties).forEach(([name, schema]) => schema((value as Record<string, unknown>)[name], `${path}.${name}`, problems));
+    };
+}
+
+/**
+ * Checks a value against a schema and returns the problems, if any.
+ */
+export function getSchemaProblems(schema: Schema, value: unknown, path = 'data'): string[] {
+    const problems: string[] = [];
+    schema(value, path, problems);
+    return problems;
+}
+
+function describe(value: unknown): string {
+    if (value === null || value === undefined) {
+        return `${value}`;
+    }
+    return Array.isArray(value) ? 'a list' : `a ${typeof value}`;
+}
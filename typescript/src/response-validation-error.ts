@@ -0,0 +1,18 @@
+/**
+ * Thrown in the strict response validation mode when an API response does not match the schema of its model.
+ */
+export class ResponseValidationError extends Error {
+    readonly method: string;
+
+    readonly url: string;
+
+    readonly problems: string[];
+
+    constructor(method: string, url: string, problems: string[]) {
+        super(`The response of ${method} ${url} does not match the expected schema:\n${problems.map((problem) => `- ${problem}`).join('\n')}`);
+        this.name = 'ResponseValidationError';
+        this.method = method;
+        this.url = url;
+        this.problems = problems;
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Determines how often and how long to wait before retrying rate limited (429) and failed (5xx) API requests.
+ */
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMS: number;
+    maxDelayMS: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMS: 500,
+    maxDelayMS: 30000,
+};
+
+// The methods that can be sent again without changing the outcome, even when the server did process them. PUT is
+// not one of them, as the API creates projects, comments, uploads and reports with it.
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'DELETE'];
+
+/**
+ * Whether a request that failed with the given status code may succeed when trying again. A rate limited request
+ * was not processed, so it can always be retried. Other requests, such as creating a project or submitting a print
+ * job, may have been processed despite a 5xx response, so they are only retried when the server asks for it with a
+ * 503 and a `Retry-After` header.
+ */
+export function isRetryableStatus(status: number, method = 'GET', retryAfter: string | null = null): boolean {
+    if (status === 429) {
+        return true;
+    }
+    if (IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+        return status >= 500;
+    }
+    return status === 503 && !!retryAfter;
+}
+
+/**
+ * Calculates the delay before the given retry attempt (starting at 0) with exponential backoff and jitter.
+ * A `Retry-After` header sent by the server takes precedence, either as seconds or as an HTTP date.
+ */
+export function getRetryDelayMS(policy: RetryPolicy, attempt: number, retryAfter: string | null, nowMS = Date.now()): number {
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const delayMS = Number.isNaN(seconds) ? Date.parse(retryAfter) - nowMS : seconds * 1000;
+        if (!Number.isNaN(delayMS)) {
+            return Math.min(Math.max(delayMS, 0), policy.maxDelayMS);
+        }
+    }
+    const exponentialMS = policy.baseDelayMS * 2 ** attempt;
+    return Math.min(exponentialMS / 2 + Math.random() * (exponentialMS / 2), policy.maxDelayMS);
+}
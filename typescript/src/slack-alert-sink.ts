@@ -0,0 +1,46 @@
+import nodeFetch from 'node-fetch';
+import {
+    AlertNotification, AlertSink, DEFAULT_SINK_TIMEOUT_MS, formatNotification,
+} from './alert';
+import type { Fetch } from './client-options';
+
+/**
+ * Posts the notifications as messages to a Slack-compatible incoming webhook.
+ */
+export class SlackAlertSink implements AlertSink {
+    readonly name = 'slack';
+
+    private readonly _webhookUrl: string;
+
+    private readonly _timeoutMS: number;
+
+    private readonly _fetch: Fetch;
+
+    constructor(webhookUrl: string, timeoutMS = DEFAULT_SINK_TIMEOUT_MS, fetch: Fetch = nodeFetch) {
+        this._webhookUrl = webhookUrl;
+        this._timeoutMS = timeoutMS;
+        this._fetch = fetch;
+    }
+
+    async send(notification: AlertNotification): Promise<void> {
+        const icon = notification.state === 'resolved' ? ':white_check_mark:' : ':rotating_light:';
+        const abort = new AbortController();
+        const timeout = setTimeout(() => abort.abort(), this._timeoutMS);
+        try {
+            const response = await this._fetch(this._webhookUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text: `${icon} ${formatNotification(notification)}` }),
+                signal: abort.signal,
+            });
+            await response.text();
+            if (!response.ok) {
+                throw new Error(`The Slack webhook responded with status ${response.status}`);
+            }
+        } catch (ex) {
+            throw abort.signal.aborted ? new Error(`The Slack webhook did not respond within ${this._timeoutMS}ms`) : ex;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * Returns a promise that resolves after the given amount of milliseconds, or as soon as the signal is aborted.
+ */
+export function sleep(waitMS: number, abortSignal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (abortSignal && abortSignal.aborted) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            resolve();
+        };
+        const timeout = setTimeout(() => {
+            abortSignal && abortSignal.removeEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+            resolve();
+        }, waitMS);
+        abortSignal && abortSignal.addEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+    });
+}
@@ -0,0 +1,117 @@
+import {
+    AddressInfo, createServer, Server, Socket,
+} from 'net';
+import type { AlertNotification } from './alert';
+import { SmtpAlertSink, SmtpAlertSinkOptions } from './smtp-alert-sink';
+
+const NOTIFICATION: AlertNotification = {
+    state: 'resolved',
+    dateTime: '2021-11-01T12:00:00.000Z',
+    alert: {
+        key: 'cluster_offline:mock-cluster-2',
+        rule: 'cluster_offline',
+        severity: 'critical',
+        message: 'Cluster mock-cluster-2 is offline',
+        clusterId: 'mock-cluster-2',
+        since: '2021-11-01T11:55:00.000Z',
+    },
+};
+
+/**
+ * A stand-in SMTP server without TLS, which accepts every email and records the commands and the message.
+ */
+class StandInSmtpServer {
+    readonly commands: string[] = [];
+
+    readonly messages: string[] = [];
+
+    // stops answering after the greeting, like a server that hangs
+    unresponsive = false;
+
+    private readonly _sockets: Socket[] = [];
+
+    private readonly _server: Server = createServer((socket) => this._handleConnection(socket));
+
+    async start(): Promise<number> {
+        await new Promise<void>((resolve) => this._server.listen(0, '127.0.0.1', resolve));
+        return (this._server.address() as AddressInfo).port;
+    }
+
+    stop(): Promise<void> {
+        this._sockets.forEach((socket) => socket.destroy());
+        return new Promise((resolve) => this._server.close(() => resolve()));
+    }
+
+    private _handleConnection(socket: Socket): void {
+        this._sockets.push(socket);
+        let buffer = '';
+        let message: string[] = null;
+        const reply = (line: string) => !this.unresponsive && socket.write(`${line}\r\n`);
+        socket.write('220 stand-in ESMTP\r\n');
+        socket.on('data', (data: Buffer) => {
+            buffer += data.toString('utf-8');
+            let newline = buffer.indexOf('\r\n');
+            while (newline >= 0) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 2);
+                newline = buffer.indexOf('\r\n');
+                if (message && line === '.') {
+                    this.messages.push(message.join('\n'));
+                    message = null;
+                    reply('250 queued');
+                } else if (message) {
+                    message.push(line);
+                } else {
+                    this.commands.push(line.split(' ')[0]);
+                    if (line.startsWith('EHLO')) {
+                        reply('250-stand-in');
+                        reply('250 AUTH PLAIN');
+                    } else if (line === 'DATA') {
+                        message = [];
+                        reply('354 go ahead');
+                    } else if (line === 'QUIT') {
+                        reply('221 bye');
+                    } else {
+                        reply('250 OK');
+                    }
+                }
+            }
+        });
+    }
+}
+
+describe('SmtpAlertSink', () => {
+    let server: StandInSmtpServer;
+    let options: SmtpAlertSinkOptions;
+
+    beforeEach(async () => {
+        server = new StandInSmtpServer();
+        options = {
+            host: '127.0.0.1',
+            port: await server.start(),
+            from: 'monitor@example.com',
+            to: ['operator@example.com', 'lab@example.com'],
+        };
+    });
+
+    afterEach(() => server.stop());
+
+    it('sends the notification as an email to every recipient', async () => {
+        await new SmtpAlertSink(options).send(NOTIFICATION);
+        expect(server.commands).toEqual(['EHLO', 'MAIL', 'RCPT', 'RCPT', 'DATA', 'QUIT']);
+        expect(server.messages).toHaveLength(1);
+        expect(server.messages[0]).toContain('Subject: [RESOLVED] Cluster mock-cluster-2 is offline');
+        expect(server.messages[0]).toContain('To: operator@example.com, lab@example.com');
+    });
+
+    it('does not send the credentials when the connection cannot be secured', async () => {
+        const sink = new SmtpAlertSink({ ...options, username: 'monitor', password: 'secret' });
+        await expect(sink.send(NOTIFICATION)).rejects.toThrow('does not support STARTTLS');
+        expect(server.commands).toEqual(['EHLO']);
+    });
+
+    it('rejects when the server does not finish in time', async () => {
+        server.unresponsive = true;
+        await expect(new SmtpAlertSink({ ...options, timeoutMS: 100 }).send(NOTIFICATION)).rejects.toThrow('did not finish within 100ms');
+    });
+});
@@ -0,0 +1,171 @@
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import {
+    AlertNotification, AlertSink, DEFAULT_SINK_TIMEOUT_MS, formatNotification,
+} from './alert';
+import { prettyJSON } from './print';
+
+/**
+ * The options of the SMTP server to send the alert emails through.
+ */
+export interface SmtpAlertSinkOptions {
+    host: string;
+    port?: number;
+    // whether to connect with TLS right away (usually port 465), otherwise the connection is upgraded with STARTTLS
+    // when the server supports it, which it must to sign in
+    secure?: boolean;
+    username?: string;
+    password?: string;
+    from: string;
+    to: string[];
+    // the name this client introduces itself with
+    clientName?: string;
+    // how long sending an email may take in total
+    timeoutMS?: number;
+}
+
+/**
+ * A reply of the SMTP server, e.g. `250 OK`.
+ */
+interface SmtpReply {
+    code: number;
+    text: string;
+}
+
+/**
+ * Sends the notifications as plain text emails through an SMTP server. The username and password are only ever
+ * sent over TLS.
+ */
+export class SmtpAlertSink implements AlertSink {
+    readonly name: string;
+
+    private readonly _options: SmtpAlertSinkOptions;
+
+    constructor(options: SmtpAlertSinkOptions) {
+        this.name = `email ${options.to.join(', ')}`;
+        this._options = options;
+    }
+
+    async send(notification: AlertNotification): Promise<void> {
+        const {
+            host, port = 25, secure = false, username, password, from, to, clientName = 'localhost', timeoutMS = DEFAULT_SINK_TIMEOUT_MS,
+        } = this._options;
+        const plainSocket = secure ? null : connectTcp({ host, port });
+        let socket: Socket;
+        let readReply: () => Promise<SmtpReply>;
+        const useSocket = (newSocket: Socket) => {
+            socket = newSocket;
+            readReply = createReplyReader(socket);
+        };
+        useSocket(plainSocket || connectTls({ host, port, servername: host }));
+        const timeout = setTimeout(() => socket.destroy(new Error(`The SMTP server did not finish within ${timeoutMS}ms`)), timeoutMS);
+        const command = async (line: string | null, expectedCodes: number[]): Promise<SmtpReply> => {
+            if (line !== null) {
+                socket.write(`${line}\r\n`);
+            }
+            const reply = await readReply();
+            if (!expectedCodes.includes(reply.code)) {
+                throw new Error(`The SMTP server replied ${reply.code} ${reply.text}`);
+            }
+            return reply;
+        };
+
+        try {
+            await command(null, [220]);
+            const { text: extensions } = await command(`EHLO ${clientName}`, [250]);
+            if (plainSocket && extensions.split('\n').some((extension) => extension.toUpperCase() === 'STARTTLS')) {
+                await command('STARTTLS', [220]);
+                // the replies are read from the TLS socket from now on
+                plainSocket.removeAllListeners('data');
+                useSocket(connectTls({ socket: plainSocket, servername: host }));
+                // the extensions may differ once the connection is secure
+                await command(`EHLO ${clientName}`, [250]);
+            }
+            if (username) {
+                if (socket === plainSocket) {
+                    throw new Error(`The SMTP server ${host} does not support STARTTLS, so the credentials cannot be sent securely`);
+                }
+                const credentials = Buffer.from(`\0${username}\0${password || ''}`).toString('base64');
+                await command(`AUTH PLAIN ${credentials}`, [235]);
+            }
+            await command(`MAIL FROM:<${from}>`, [250]);
+            for (let i = 0; i < to.length; i += 1) {
+                await command(`RCPT TO:<${to[i]}>`, [250, 251]);
+            }
+            await command('DATA', [354]);
+            await command(`${createMessage(notification, from, to)}\r\n.`, [250]);
+            await command('QUIT', [221]);
+        } finally {
+            clearTimeout(timeout);
+            socket.destroy();
+            plainSocket && plainSocket.destroy(); // eslint-disable-line no-unused-expressions
+        }
+    }
+}
+
+/**
+ * Creates the email, with the lines starting with a dot escaped as required by the DATA command.
+ */
+function createMessage(notification: AlertNotification, from: string, to: string[]): string {
+    const lines = [
+        `From: ${from}`,
+        `To: ${to.join(', ')}`,
+        `Subject: ${formatNotification(notification)}`,
+        `Date: ${new Date(notification.dateTime).toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        notification.alert.message,
+        '',
+        ...prettyJSON(notification).split('\n'),
+    ];
+    return lines.map((line) => (line.startsWith('.') ? `.${line}` : line)).join('\r\n');
+}
+
+/**
+ * Returns a function that resolves with the next complete (possibly multiline) reply of the server.
+ */
+function createReplyReader(socket: Socket): () => Promise<SmtpReply> {
+    const replies: SmtpReply[] = [];
+    const waiting: { resolve: (reply: SmtpReply) => void, reject: (error: Error) => void }[] = [];
+    let failure: Error = null;
+    let buffer = '';
+    let text: string[] = [];
+
+    socket.on('data', (data: Buffer) => {
+        buffer += data.toString('utf-8');
+        let newline = buffer.indexOf('\r\n');
+        while (newline >= 0) {
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 2);
+            newline = buffer.indexOf('\r\n');
+            text.push(line.slice(4));
+            // the last line of a reply has a space after the code, the other lines a dash
+            if (line[3] !== '-') {
+                const reply = { code: Number(line.slice(0, 3)), text: text.join('\n') };
+                text = [];
+                if (waiting.length > 0) {
+                    waiting.shift().resolve(reply);
+                } else {
+                    replies.push(reply);
+                }
+            }
+        }
+    });
+    const fail = (error: Error) => {
+        failure = error;
+        waiting.splice(0).forEach(({ reject }) => reject(error));
+    };
+    socket.on('error', fail);
+    socket.on('close', () => fail(new Error('The SMTP server closed the connection')));
+
+    return () => {
+        if (replies.length > 0) {
+            return Promise.resolve(replies.shift());
+        }
+        if (failure) {
+            return Promise.reject(failure);
+        }
+        return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    };
+}
@@ -0,0 +1,38 @@
+import type { DigitalFactoryClientOptions } from './client-options';
+import { DigitalFactoryDemo } from './digital-factory';
+import { MemoryTokenStore } from './memory-token-store';
+import { MockDigitalFactoryServer } from './mock-digital-factory-server';
+
+/**
+ * A running mock server with a client that is signed in to it.
+ */
+export interface MockClient {
+    server: MockDigitalFactoryServer;
+    demo: DigitalFactoryDemo;
+}
+
+/**
+ * Creates a client of the mock server that is signed in with tokens issued by the server, so no sign-in flow is
+ * needed. The options override the defaults, e.g. to record the requests.
+ */
+export async function signInToMock(server: MockDigitalFactoryServer, options: Partial<DigitalFactoryClientOptions> = {}): Promise<DigitalFactoryDemo> {
+    const demo = new DigitalFactoryDemo({
+        apiRootUrl: server.baseUrl,
+        accountRootUrl: server.baseUrl,
+        clientId: 'test',
+        scopes: '',
+        tokenStore: new MemoryTokenStore({ tokenPair: server.issueTokenPair(), timestampMs: Date.now() }),
+        ...options,
+    });
+    await demo.signIn();
+    return demo;
+}
+
+/**
+ * Starts a mock server and signs in to it. The server needs to be stopped after the test.
+ */
+export async function startMockClient(options: Partial<DigitalFactoryClientOptions> = {}): Promise<MockClient> {
+    const server = new MockDigitalFactoryServer();
+    await server.start();
+    return { server, demo: await signInToMock(server, options) };
+}
@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import { mkdir, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { DigitalFactoryApiError } from './api-error';
+import type { DigitalFactoryDemo } from './digital-factory';
+import type { PrintJob } from './models';
+import { prettyJSON } from './print';
+import { getPrintJobProgress, isPrintJobFinished } from './print-job-status';
+import { sleep } from './sleep';
+
+/**
+ * The options that may be given to the timelapse recorder.
+ */
+export interface TimelapseOptions {
+    clusterId: string;
+    clusterPrinterId: string;
+    // the UUID of the print job to record, the recording stops when it is finished
+    printJobId: string;
+    outputDir: string;
+    intervalMS?: number;
+    signal?: AbortSignal;
+    // whether to stop recording, instead of exiting, when the process receives SIGINT (Ctrl+C), off by default
+    stopOnSigint?: boolean;
+    // the amount of snapshots in a row that may fail before the recording stops, 10 by default
+    maxConsecutiveFailures?: number;
+}
+
+/**
+ * A single image of the timelapse, as stored in the index.
+ */
+export interface TimelapseFrame {
+    file: string;
+    capturedAt: string;
+    printJobId: string;
+    printJobStatus: string;
+    // between 0 and 1, or null if it is unknown
+    progress: number | null;
+}
+
+/**
+ * A snapshot that could not be captured, as stored in the index.
+ */
+export interface TimelapseFailure {
+    failedAt: string;
+    error: string;
+}
+
+/**
+ * The JSON index written to the output directory next to the images.
+ */
+export interface TimelapseIndex {
+    clusterId: string;
+    clusterPrinterId: string;
+    printJobId: string;
+    startedAt: string;
+    stoppedAt: string | null;
+    frames: TimelapseFrame[];
+    failures: TimelapseFailure[];
+}
+
+export const TIMELAPSE_INDEX_FILE = 'index.json';
+
+/**
+ * Records a timelapse of a print job by capturing webcam snapshots at an interval until the print job is finished.
+ * Emits a 'frame' event for every stored image and a 'captureFailed' event for every snapshot that failed, which
+ * does not stop the recording unless too many fail in a row. The recording stops as well when the print job cannot
+ * be found, e.g. because it was removed.
+ */
+export class TimelapseRecorder extends EventEmitter {
+    private readonly _demo: DigitalFactoryDemo;
+
+    constructor(demo: DigitalFactoryDemo) {
+        super();
+        this._demo = demo;
+    }
+
+    /**
+     * Records until the print job is finished or the recording is stopped, and resolves with the index.
+     */
+    async record({
+        clusterId,
+        clusterPrinterId,
+        printJobId,
+        outputDir,
+        intervalMS = 60000,
+        signal,
+        stopOnSigint = false,
+        maxConsecutiveFailures = 10,
+    }: TimelapseOptions): Promise<TimelapseIndex> {
+        const abort = new AbortController();
+        const onAbort = () => abort.abort();
+        signal && signal.addEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+        stopOnSigint && process.once('SIGINT', onAbort); // eslint-disable-line no-unused-expressions
+
+        await mkdir(outputDir, { recursive: true });
+        const index: TimelapseIndex = {
+            clusterId,
+            clusterPrinterId,
+            printJobId,
+            startedAt: new Date().toISOString(),
+            stoppedAt: null,
+            frames: [],
+            failures: [],
+        };
+
+        let consecutiveFailures = 0;
+        try {
+            while (!abort.signal.aborted) {
+                const captureStartMS = Date.now();
+                let printJob: PrintJob = null;
+                let printJobMissing = false;
+                try {
+                    printJob = await this._demo.getPrintJob(printJobId);
+                    const frame = await this._captureFrame(index, printJob, outputDir, abort.signal);
+                    index.frames.push(frame);
+                    this.emit('frame', frame);
+                    consecutiveFailures = 0;
+                } catch (ex) {
+                    if (abort.signal.aborted) {
+                        break;
+                    }
+                    const failure = { failedAt: new Date().toISOString(), error: `${ex}` };
+                    index.failures.push(failure);
+                    this.emit('captureFailed', failure);
+                    consecutiveFailures += 1;
+                    printJobMissing = !printJob && ex instanceof DigitalFactoryApiError && ex.status === 404;
+                }
+                await writeFile(path.join(outputDir, TIMELAPSE_INDEX_FILE), prettyJSON(index));
+                if ((printJob && isPrintJobFinished(printJob.status)) || printJobMissing || consecutiveFailures >= maxConsecutiveFailures) {
+                    break;
+                }
+                await sleep(Math.max(intervalMS - (Date.now() - captureStartMS), 0), abort.signal);
+            }
+        } finally {
+            signal && signal.removeEventListener('abort', onAbort); // eslint-disable-line no-unused-expressions
+            process.removeListener('SIGINT', onAbort);
+            index.stoppedAt = new Date().toISOString();
+            await writeFile(path.join(outputDir, TIMELAPSE_INDEX_FILE), prettyJSON(index));
+        }
+        return index;
+    }
+
+    private async _captureFrame(index: TimelapseIndex, printJob: PrintJob, outputDir: string, signal: AbortSignal): Promise<TimelapseFrame> {
+        const capturedAt = new Date();
+        const imageUrl = await this._demo.getWebcamImage(index.clusterId, index.clusterPrinterId, { signal, timeoutMS: 60000 });
+        const image = await this._demo.downloadFile(imageUrl);
+        const file = `${String(index.frames.length + 1).padStart(5, '0')}-${capturedAt.toISOString().replace(/:/g, '-')}.jpg`;
+        await writeFile(path.join(outputDir, file), image);
+        return {
+            file,
+            capturedAt: capturedAt.toISOString(),
+            printJobId: index.printJobId,
+            printJobStatus: printJob.status,
+            progress: getPrintJobProgress(printJob),
+        };
+    }
+}
@@ -0,0 +1,19 @@
+import type { TokenResponse } from './digital-factory';
+
+/**
+ * A token pair together with the moment it was obtained, which is needed to determine when it expires.
+ */
+export interface StoredTokens {
+    tokenPair: TokenResponse;
+    timestampMs: number;
+}
+
+/**
+ * Persists the OAuth tokens between runs, so that a new sign-in in the browser is only needed when the
+ * refresh token is missing or has been rejected.
+ */
+export interface TokenStore {
+    load(): Promise<StoredTokens | null>;
+    save(tokens: StoredTokens): Promise<void>;
+    clear(): Promise<void>;
+}
@@ -0,0 +1,176 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { deflateRawSync } from 'zlib';
+import { readUfpMetadata, validateUfpMetadata } from './ufp-reader';
+import { UfpValidationError } from './ufp-validation-error';
+
+const GCODE = [
+    ';START_OF_HEADER',
+    ';FLAVOR:Griffin',
+    ';GENERATOR.NAME:Cura_SteamEngine',
+    ';GENERATOR.VERSION:4.12.1',
+    ';TARGET_MACHINE.NAME:Ultimaker S5',
+    ';PRINT.TIME:3600',
+    ';EXTRUDER_TRAIN.0.MATERIAL.GUID:506c9f0d-e3aa-4bd4-b2d2-23e2425b1aa9',
+    ';EXTRUDER_TRAIN.0.MATERIAL.VOLUME_USED:1250',
+    ';EXTRUDER_TRAIN.0.NOZZLE.NAME:AA 0.4',
+    ';EXTRUDER_TRAIN.0.NOZZLE.DIAMETER:0.4',
+    ';BUILD_PLATE.TYPE:glass',
+    ';END_OF_HEADER',
+    'G28',
+].join('\n');
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8"?><Types/>';
+
+/**
+ * Creates a zip container with the given files deflated. The reader does not check the CRCs, so they are left 0.
+ */
+function createZip(files: {[name: string]: string}): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+    Object.entries(files).forEach(([name, content]) => {
+        const data = Buffer.from(content);
+        const compressed = deflateRawSync(data);
+        const nameBytes = Buffer.from(name);
+
+        const localHeader = Buffer.alloc(30);
+        localHeader.writeUInt32LE(0x04034b50, 0);
+        localHeader.writeUInt16LE(20, 4);
+        localHeader.writeUInt16LE(8, 8);
+        localHeader.writeUInt32LE(compressed.byteLength, 18);
+        localHeader.writeUInt32LE(data.byteLength, 22);
+        localHeader.writeUInt16LE(nameBytes.byteLength, 26);
+        localParts.push(localHeader, nameBytes, compressed);
+
+        const centralHeader = Buffer.alloc(46);
+        centralHeader.writeUInt32LE(0x02014b50, 0);
+        centralHeader.writeUInt16LE(20, 4);
+        centralHeader.writeUInt16LE(20, 6);
+        centralHeader.writeUInt16LE(8, 10);
+        centralHeader.writeUInt32LE(compressed.byteLength, 20);
+        centralHeader.writeUInt32LE(data.byteLength, 24);
+        centralHeader.writeUInt16LE(nameBytes.byteLength, 28);
+        centralHeader.writeUInt32LE(offset, 42);
+        centralParts.push(centralHeader, nameBytes);
+
+        offset += localHeader.byteLength + nameBytes.byteLength + compressed.byteLength;
+    });
+
+    const directory = Buffer.concat(centralParts);
+    const endOfDirectory = Buffer.alloc(22);
+    endOfDirectory.writeUInt32LE(0x06054b50, 0);
+    endOfDirectory.writeUInt16LE(Object.keys(files).length, 8);
+    endOfDirectory.writeUInt16LE(Object.keys(files).length, 10);
+    endOfDirectory.writeUInt32LE(directory.byteLength, 12);
+    endOfDirectory.writeUInt32LE(offset, 16);
+    return Buffer.concat([...localParts, directory, endOfDirectory]);
+}
+
+function createUfp(): Buffer {
+    return createZip({ '/3D/model.gcode': GCODE, '[Content_Types].xml': CONTENT_TYPES });
+}
+
+/**
+ * Overwrites a field of the first entry in the central directory, the gcode, as a corrupt file would have it.
+ */
+function corruptFirstEntry(ufp: Buffer, fieldOffset: number, value: number): Buffer {
+    const corrupt = Buffer.from(ufp);
+    const directoryOffset = corrupt.readUInt32LE(corrupt.byteLength - 22 + 16);
+    corrupt.writeUInt32LE(value, directoryOffset + fieldOffset);
+    return corrupt;
+}
+
+describe('readUfpMetadata', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'ufp-reader-'));
+    });
+
+    afterAll(() => rm(directory, { recursive: true, force: true }));
+
+    async function writeTempFile(name: string, contents: Buffer): Promise<string> {
+        const filePath = path.join(directory, name);
+        await writeFile(filePath, contents);
+        return filePath;
+    }
+
+    it('reads the metadata from the gcode header', async () => {
+        const metadata = await readUfpMetadata(createUfp());
+        expect(metadata.files.map((file) => file.name)).toEqual(['3D/model.gcode', '[Content_Types].xml']);
+        expect(metadata.flavor).toBe('Griffin');
+        expect(metadata.generator).toEqual({ name: 'Cura_SteamEngine', version: '4.12.1' });
+        expect(metadata.targetMachine).toBe('Ultimaker S5');
+        expect(metadata.estimatedPrintTimeSeconds).toBe(3600);
+        expect(metadata.extruders).toEqual([{
+            index: 0,
+            materialGuid: '506c9f0d-e3aa-4bd4-b2d2-23e2425b1aa9',
+            materialVolumeUsed: 1250,
+            nozzleName: 'AA 0.4',
+            nozzleDiameter: 0.4,
+            initialTemperature: null,
+        }]);
+        expect(metadata.buildPlate).toEqual({ type: 'glass', initialTemperature: null });
+        expect(metadata.thumbnail).toBeNull();
+    });
+
+    it('reads the same metadata from a file', async () => {
+        const filePath = await writeTempFile('model.ufp', createUfp());
+        expect(await readUfpMetadata(filePath)).toEqual(await readUfpMetadata(createUfp()));
+    });
+
+    it('refuses a file that is not a zip container', async () => {
+        const error = await readUfpMetadata(Buffer.from(GCODE)).catch((ex) => ex);
+        expect(error).toBeInstanceOf(UfpValidationError);
+        expect(error.message).toBe('This is not a valid UFP file: The file is not a zip container');
+    });
+
+    it('lists the parts that a UFP needs but the package lacks', async () => {
+        await expect(readUfpMetadata(createZip({ 'model.stl': 'solid' }))).rejects.toMatchObject({
+            problems: ['The package does not contain [Content_Types].xml', 'The package does not contain a gcode file'],
+        });
+    });
+
+    it('refuses gcode without a header', async () => {
+        const ufp = createZip({ '[Content_Types].xml': CONTENT_TYPES, '3D/model.gcode': 'G28' });
+        await expect(readUfpMetadata(ufp)).rejects.toMatchObject({ problems: ['3D/model.gcode does not start with a gcode header'] });
+    });
+
+    it.each([
+        ['a local header', 42, 'The local header of 3D/model.gcode lies outside the file'],
+        ['data', 20, 'The data of 3D/model.gcode lies outside the file'],
+    ])('reports %s past the end of the file as corrupt', async (_, fieldOffset, problem) => {
+        const corrupt = corruptFirstEntry(createUfp(), fieldOffset, 0x7fffffff);
+        const filePath = await writeTempFile(`corrupt-${fieldOffset}.ufp`, corrupt);
+        for (const source of [corrupt, filePath]) { // eslint-disable-line no-restricted-syntax
+            const error = await readUfpMetadata(source).catch((ex) => ex);
+            expect(error).toBeInstanceOf(UfpValidationError);
+            expect(error.message).toBe(`The UFP file is corrupt: ${problem}`);
+        }
+    });
+});
+
+describe('validateUfpMetadata', () => {
+    it('accepts a file that matches the requirements', async () => {
+        const metadata = await readUfpMetadata(createUfp());
+        expect(() => validateUfpMetadata(metadata, {
+            targetMachine: 'Ultimaker S5',
+            materialGuids: ['506c9f0d-e3aa-4bd4-b2d2-23e2425b1aa9', null],
+        })).not.toThrow();
+    });
+
+    it('lists every mismatch', async () => {
+        const metadata = await readUfpMetadata(createUfp());
+        expect(() => validateUfpMetadata(metadata, {
+            targetMachine: 'Ultimaker 3',
+            materialGuids: ['86a89ceb-4159-47f6-ab97-e9953803d70f'],
+        })).toThrow(expect.objectContaining({
+            problems: [
+                'The file was sliced for Ultimaker S5 instead of Ultimaker 3',
+                'Extruder 1 was sliced for material 506c9f0d-e3aa-4bd4-b2d2-23e2425b1aa9 instead of 86a89ceb-4159-47f6-ab97-e9953803d70f',
+            ],
+        }));
+    });
+});
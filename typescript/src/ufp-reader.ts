@@ -0,0 +1,353 @@
+import { FileHandle, open } from 'fs/promises';
+import { constants as zlibConstants, inflateRawSync } from 'zlib';
+import { UfpValidationError } from './ufp-validation-error';
+
+/**
+ * A file inside the UFP package.
+ */
+export interface UfpFileEntry {
+    name: string;
+    size: number;
+    compressedSize: number;
+    // the zip compression method, 0 (stored) or 8 (deflate)
+    compressionMethod: number;
+    localHeaderOffset: number;
+}
+
+/**
+ * The settings of one extruder as written in the gcode header.
+ */
+export interface UfpExtruder {
+    index: number;
+    materialGuid: string | null;
+    // the estimated material usage in mm³
+    materialVolumeUsed: number | null;
+    nozzleName: string | null;
+    nozzleDiameter: number | null;
+    initialTemperature: number | null;
+}
+
+/**
+ * The metadata of a UFP package, mostly taken from the (Griffin flavor) gcode header.
+ */
+export interface UfpMetadata {
+    files: UfpFileEntry[];
+    // all header fields, e.g. `TARGET_MACHINE.NAME`
+    header: {[key: string]: string};
+    flavor: string | null;
+    generator: { name: string | null, version: string | null };
+    targetMachine: string | null;
+    extruders: UfpExtruder[];
+    buildPlate: { type: string | null, initialTemperature: number | null };
+    estimatedPrintTimeSeconds: number | null;
+    // the PNG thumbnail, if the package contains one
+    thumbnail: Buffer | null;
+}
+
+/**
+ * The requirements a UFP package can be validated against, in addition to being a valid UFP.
+ */
+export interface UfpValidationOptions {
+    // the machine the file must be sliced for, e.g. 'Ultimaker S5'
+    targetMachine?: string;
+    // the material GUIDs per extruder, null for an extruder that may have any material
+    materialGuids?: (string | null)[];
+}
+
+/**
+ * Random access to the bytes of the package, so large files don't need to be read into memory.
+ */
+interface ByteSource {
+    size: number;
+    read(position: number, length: number): Promise<Buffer>;
+    close(): Promise<void>;
+}
+
+const CONTENT_TYPES_FILE = '[Content_Types].xml';
+const THUMBNAIL_FILE = 'Metadata/thumbnail.png';
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// The end of central directory record is 22 bytes, followed by a comment of at most 65535 bytes.
+const MAX_END_OF_CENTRAL_DIRECTORY_SIZE = 22 + 0xffff;
+// The amount of compressed gcode that is inflated to find the header, which is only a few kB.
+const GCODE_HEADER_READ_SIZE = 256 * 1024;
+
+/**
+ * Reads UFP packages, which are Open Packaging Conventions (zip) containers with a gcode file, a thumbnail and
+ * the package metadata. Only the parts that are needed are read, so it can be used for very large files.
+ */
+export class UfpReader {
+    readonly files: UfpFileEntry[];
+
+    private readonly _source: ByteSource;
+
+    private constructor(source: ByteSource, files: UfpFileEntry[]) {
+        this._source = source;
+        this.files = files;
+    }
+
+    /**
+     * Opens a UFP file from disk. The reader must be closed afterwards.
+     */
+    static async open(filePath: string): Promise<UfpReader> {
+        const handle = await open(filePath, 'r');
+        try {
+            return await UfpReader._create(await fileByteSource(handle));
+        } catch (ex) {
+            await handle.close();
+            throw ex;
+        }
+    }
+
+    /**
+     * Reads a UFP package from a buffer.
+     */
+    static fromBuffer(buffer: Buffer): Promise<UfpReader> {
+        return UfpReader._create(bufferByteSource(buffer));
+    }
+
+    private static async _create(source: ByteSource): Promise<UfpReader> {
+        return new UfpReader(source, await readCentralDirectory(source));
+    }
+
+    close(): Promise<void> {
+        return this._source.close();
+    }
+
+    /**
+     * Reads and decompresses a single file from the package.
+     */
+    async readFile(name: string): Promise<Buffer> {
+        const entry = this._getEntry(name);
+        return decompress(entry, await this._readCompressed(entry, entry.compressedSize), true);
+    }
+
+    /**
+     * Reads the package metadata, throwing an UfpValidationError when the package is not a valid UFP.
+     */
+    async readMetadata(): Promise<UfpMetadata> {
+        const problems: string[] = [];
+        if (!this._findEntry(CONTENT_TYPES_FILE)) {
+            problems.push(`The package does not contain ${CONTENT_TYPES_FILE}`);
+        }
+        const gcodeEntry = this.files.find((file) => file.name.toLowerCase().endsWith('.gcode'));
+        if (!gcodeEntry) {
+            problems.push('The package does not contain a gcode file');
+        }
+        if (problems.length > 0) {
+            throw new UfpValidationError('This is not a valid UFP file', problems);
+        }
+
+        const header = parseGcodeHeader(await this._readGcodeStart(gcodeEntry));
+        if (!header) {
+            throw new UfpValidationError('This is not a valid UFP file', [`${gcodeEntry.name} does not start with a gcode header`]);
+        }
+        const thumbnail = this._findEntry(THUMBNAIL_FILE) ? await this.readFile(THUMBNAIL_FILE) : null;
+        return createMetadata(this.files, header, thumbnail);
+    }
+
+    private _findEntry(name: string): UfpFileEntry | undefined {
+        return this.files.find((file) => file.name === name);
+    }
+
+    private _getEntry(name: string): UfpFileEntry {
+        const entry = this._findEntry(name);
+        if (!entry) {
+            throw new Error(`The UFP package does not contain ${name}`);
+        }
+        return entry;
+    }
+
+    /**
+     * Reads the start of the gcode only, since the gcode can be hundreds of megabytes.
+     */
+    private async _readGcodeStart(entry: UfpFileEntry): Promise<string> {
+        const length = Math.min(entry.compressedSize, GCODE_HEADER_READ_SIZE);
+        const data = await this._readCompressed(entry, length);
+        return decompress(entry, data, length === entry.compressedSize).toString('utf-8');
+    }
+
+    /**
+     * Reads the stored data of an entry, checking that the offsets from the central directory lie within the file.
+     */
+    private async _readCompressed(entry: UfpFileEntry, length: number): Promise<Buffer> {
+        if (entry.localHeaderOffset + 30 > this._source.size) {
+            throw new UfpValidationError('The UFP file is corrupt', [`The local header of ${entry.name} lies outside the file`]);
+        }
+        const localHeader = await this._source.read(entry.localHeaderOffset, 30);
+        if (localHeader.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+            throw new UfpValidationError('The UFP file is corrupt', [`Invalid local header for ${entry.name}`]);
+        }
+        const dataOffset = entry.localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+        if (dataOffset + entry.compressedSize > this._source.size) {
+            throw new UfpValidationError('The UFP file is corrupt', [`The data of ${entry.name} lies outside the file`]);
+        }
+        return this._source.read(dataOffset, length);
+    }
+}
+
+/**
+ * Opens the UFP file, reads its metadata and closes it again.
+ */
+export async function readUfpMetadata(source: string | Buffer): Promise<UfpMetadata> {
+    const reader = typeof source === 'string' ? await UfpReader.open(source) : await UfpReader.fromBuffer(source);
+    try {
+        return await reader.readMetadata();
+    } finally {
+        await reader.close();
+    }
+}
+
+/**
+ * Checks that the metadata matches the requirements, throwing an UfpValidationError listing all mismatches.
+ */
+export function validateUfpMetadata(metadata: UfpMetadata, { targetMachine, materialGuids }: UfpValidationOptions): void {
+    const problems: string[] = [];
+    if (targetMachine && metadata.targetMachine !== targetMachine) {
+        problems.push(`The file was sliced for ${metadata.targetMachine || 'an unknown machine'} instead of ${targetMachine}`);
+    }
+    (materialGuids || []).forEach((guid, index) => {
+        const extruder = metadata.extruders.find((e) => e.index === index);
+        if (guid && extruder && extruder.materialVolumeUsed && extruder.materialGuid !== guid) {
+            problems.push(`Extruder ${index + 1} was sliced for material ${extruder.materialGuid} instead of ${guid}`);
+        }
+    });
+    if (problems.length > 0) {
+        throw new UfpValidationError('The UFP file does not match the requirements', problems);
+    }
+}
+
+async function fileByteSource(handle: FileHandle): Promise<ByteSource> {
+    const { size } = await handle.stat();
+    return {
+        size,
+        read: async (position, length) => {
+            const buffer = Buffer.alloc(Math.max(Math.min(length, size - position), 0));
+            const { bytesRead } = await handle.read(buffer, 0, buffer.byteLength, position);
+            return buffer.subarray(0, bytesRead);
+        },
+        close: () => handle.close(),
+    };
+}
+
+function bufferByteSource(buffer: Buffer): ByteSource {
+    return {
+        size: buffer.byteLength,
+        read: async (position, length) => buffer.subarray(position, position + length),
+        close: async () => undefined,
+    };
+}
+
+/**
+ * Lists the files in the zip container from its central directory.
+ */
+async function readCentralDirectory(source: ByteSource): Promise<UfpFileEntry[]> {
+    const tailSize = Math.min(source.size, MAX_END_OF_CENTRAL_DIRECTORY_SIZE);
+    const tail = await source.read(source.size - tailSize, tailSize);
+    let eocdOffset = tail.byteLength - 22;
+    while (eocdOffset >= 0 && tail.readUInt32LE(eocdOffset) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        eocdOffset -= 1;
+    }
+    if (eocdOffset < 0) {
+        throw new UfpValidationError('This is not a valid UFP file', ['The file is not a zip container']);
+    }
+    const entryCount = tail.readUInt16LE(eocdOffset + 10);
+    const directorySize = tail.readUInt32LE(eocdOffset + 12);
+    const directoryOffset = tail.readUInt32LE(eocdOffset + 16);
+    if (directoryOffset === 0xffffffff || directoryOffset + directorySize > source.size) {
+        throw new UfpValidationError('The UFP file is corrupt', ['The zip central directory is invalid or uses the unsupported Zip64 format']);
+    }
+
+    const directory = await source.read(directoryOffset, directorySize);
+    const files: UfpFileEntry[] = [];
+    let offset = 0;
+    while (files.length < entryCount) {
+        if (offset + 46 > directory.byteLength || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+            throw new UfpValidationError('The UFP file is corrupt', ['The zip central directory is truncated']);
+        }
+        const nameLength = directory.readUInt16LE(offset + 28);
+        const extraLength = directory.readUInt16LE(offset + 30);
+        const commentLength = directory.readUInt16LE(offset + 32);
+        files.push({
+            // OPC part names start with a slash, which some writers include in the zip entry name
+            name: directory.toString('utf-8', offset + 46, offset + 46 + nameLength).replace(/^\//, ''),
+            compressionMethod: directory.readUInt16LE(offset + 10),
+            compressedSize: directory.readUInt32LE(offset + 20),
+            size: directory.readUInt32LE(offset + 24),
+            localHeaderOffset: directory.readUInt32LE(offset + 42),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return files;
+}
+
+/**
+ * Decompresses the data of an entry. Partial data can be inflated as well, returning the start of the file.
+ */
+function decompress(entry: UfpFileEntry, data: Buffer, complete: boolean): Buffer {
+    if (entry.compressionMethod === 0) {
+        return data;
+    }
+    if (entry.compressionMethod !== 8) {
+        throw new UfpValidationError('The UFP file is corrupt', [`${entry.name} uses the unsupported compression method ${entry.compressionMethod}`]);
+    }
+    try {
+        return inflateRawSync(data, complete ? {} : { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+    } catch (ex) {
+        throw new UfpValidationError('The UFP file is corrupt', [`${entry.name} could not be decompressed: ${ex.message}`]);
+    }
+}
+
+/**
+ * Gets the fields between the ;START_OF_HEADER and ;END_OF_HEADER lines, e.g. `;PRINT.TIME:3600`.
+ */
+function parseGcodeHeader(gcode: string): {[key: string]: string} | null {
+    const lines = gcode.split(/\r?\n/);
+    const start = lines.findIndex((line) => line.trim() === ';START_OF_HEADER');
+    const end = lines.findIndex((line) => line.trim() === ';END_OF_HEADER');
+    if (start < 0 || end < start) {
+        return null;
+    }
+    const header: {[key: string]: string} = {};
+    lines.slice(start + 1, end).forEach((line) => {
+        const match = /^;([^:]+):(.*)$/.exec(line.trim());
+        if (match) {
+            header[match[1]] = match[2].trim();
+        }
+    });
+    return header;
+}
+
+function createMetadata(files: UfpFileEntry[], header: {[key: string]: string}, thumbnail: Buffer | null): UfpMetadata {
+    const text = (key: string): string | null => (key in header ? header[key] : null);
+    const number = (key: string): number | null => (key in header && !Number.isNaN(Number(header[key])) ? Number(header[key]) : null);
+
+    const extruderIndices = new Set<number>();
+    Object.keys(header).forEach((key) => {
+        const match = /^EXTRUDER_TRAIN\.(\d+)\./.exec(key);
+        if (match) {
+            extruderIndices.add(Number(match[1]));
+        }
+    });
+    const extruders = [...extruderIndices].sort((a, b) => a - b).map((index) => ({
+        index,
+        materialGuid: text(`EXTRUDER_TRAIN.${index}.MATERIAL.GUID`),
+        materialVolumeUsed: number(`EXTRUDER_TRAIN.${index}.MATERIAL.VOLUME_USED`),
+        nozzleName: text(`EXTRUDER_TRAIN.${index}.NOZZLE.NAME`),
+        nozzleDiameter: number(`EXTRUDER_TRAIN.${index}.NOZZLE.DIAMETER`),
+        initialTemperature: number(`EXTRUDER_TRAIN.${index}.INITIAL_TEMPERATURE`),
+    }));
+
+    return {
+        files,
+        header,
+        flavor: text('FLAVOR'),
+        generator: { name: text('GENERATOR.NAME'), version: text('GENERATOR.VERSION') },
+        targetMachine: text('TARGET_MACHINE.NAME'),
+        extruders,
+        buildPlate: { type: text('BUILD_PLATE.TYPE'), initialTemperature: number('BUILD_PLATE.INITIAL_TEMPERATURE') },
+        estimatedPrintTimeSeconds: number('PRINT.TIME'),
+        thumbnail,
+    };
+}
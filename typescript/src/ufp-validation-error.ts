@@ -0,0 +1,12 @@
+/**
+ * Thrown when a file is not a valid UFP package, or does not match the requirements it was validated against.
+ */
+export class UfpValidationError extends Error {
+    readonly problems: string[];
+
+    constructor(message: string, problems: string[]) {
+        super(`${message}: ${problems.join('; ')}`);
+        this.name = 'UfpValidationError';
+        this.problems = problems;
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * Thrown when uploading a file to its signed upload URL failed.
+ */
+export class UploadError extends Error {
+    // the status code of the storage server, or null when the request did not get a response
+    readonly status: number | null;
+
+    // whether trying the upload again may succeed
+    readonly retryable: boolean;
+
+    constructor(message: string, status: number | null, retryable: boolean) {
+        super(message);
+        this.name = 'UploadError';
+        this.status = status;
+        this.retryable = retryable;
+    }
+
+    /**
+     * Whether the signed upload URL was rejected, e.g. because it expired, so a new one needs to be requested.
+     */
+    get uploadUrlRejected(): boolean {
+        return this.status === 403;
+    }
+}
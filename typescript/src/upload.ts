@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import * as path from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import type { Fetch } from './client-options';
+import type { JobUpload } from './models';
+import { UploadError } from './upload-error';
+import {
+    readUfpMetadata, UfpMetadata, UfpValidationOptions, validateUfpMetadata,
+} from './ufp-reader';
+
+export const UFP_CONTENT_TYPE = 'application/x-ufp';
+
+/**
+ * The content types of the print job files the Digital Factory accepts, by file extension.
+ */
+export const CONTENT_TYPES: {[extension: string]: string} = {
+    '.ufp': UFP_CONTENT_TYPE,
+    '.makerbot': 'application/x-makerbot',
+    '.gcode': 'text/x-gcode',
+};
+
+/**
+ * The options that may be given when uploading a file.
+ */
+export interface UploadOptions {
+    // the name of the job, by default the name of the file
+    fileName?: string;
+    // by default determined from the file extension
+    contentType?: string;
+    // the size in bytes, only needed (and required) when uploading from a stream
+    fileSize?: number;
+    // called whenever a chunk of the file was sent
+    onProgress?: (bytesSent: number, totalBytes: number) => void;
+    // called with the job the file will be uploaded to, and awaited before uploading; again if a new upload URL is needed
+    onUploadRequested?: (jobUpload: JobUpload) => void | Promise<void>;
+    // how often the upload is tried in total; uploads from a stream can only be tried once
+    maxAttempts?: number;
+    // whether to check that a UFP file is valid before uploading it, optionally with additional requirements;
+    // by default UFP files and buffers are checked, streams cannot be checked
+    validate?: boolean | UfpValidationOptions;
+}
+
+/**
+ * A file to upload, which can be opened again for every attempt unless it is a stream.
+ */
+export interface UploadSource {
+    fileName: string;
+    contentType: string;
+    size: number;
+    reopenable: boolean;
+    // the base64 MD5 digest of the contents if it is known up front, which is sent for the storage to verify
+    contentMD5: string | null;
+    open(): Readable;
+    // whether the file changed since the source was created, for files that are read again for every attempt
+    hasChanged?: () => Promise<boolean>;
+}
+
+// The statuses of failed uploads that may succeed when they are tried again.
+const RETRYABLE_UPLOAD_STATUSES = [408, 429];
+
+/**
+ * Determines the content type of a print job file from its extension.
+ */
+export function getContentType(fileName: string): string {
+    const contentType = CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+    if (!contentType) {
+        throw new Error(`Cannot determine the content type of ${fileName}, please specify it in the upload options`);
+    }
+    return contentType;
+}
+
+/**
+ * Creates an upload source from a file path, a buffer or a readable stream.
+ */
+export async function createUploadSource(source: string | Buffer | Readable, options: UploadOptions): Promise<UploadSource> {
+    if (typeof source === 'string') {
+        const fileName = options.fileName || path.basename(source);
+        const { size, mtimeMs } = await stat(source);
+        return {
+            fileName,
+            contentType: options.contentType || getContentType(fileName),
+            size,
+            reopenable: true,
+            // the file is only read while uploading, it is hashed as it is sent
+            contentMD5: null,
+            open: () => createReadStream(source),
+            hasChanged: async () => {
+                const current = await stat(source);
+                return current.size !== size || current.mtimeMs !== mtimeMs;
+            },
+        };
+    }
+    if (!options.fileName) {
+        throw new Error('A file name is required when uploading from a buffer or stream');
+    }
+    const contentType = options.contentType || getContentType(options.fileName);
+    if (Buffer.isBuffer(source)) {
+        return {
+            fileName: options.fileName,
+            contentType,
+            size: source.byteLength,
+            reopenable: true,
+            contentMD5: createHash('md5').update(source).digest('base64'),
+            open: () => Readable.from([source]),
+        };
+    }
+    if (options.fileSize === undefined) {
+        throw new Error('The file size is required when uploading from a stream');
+    }
+    return {
+        fileName: options.fileName,
+        contentType,
+        size: options.fileSize,
+        reopenable: false,
+        contentMD5: null,
+        open: () => source,
+    };
+}
+
+/**
+ * Reads the metadata of a UFP file before it is uploaded, refusing corrupt files and files that do not match the
+ * validation options. Returns null when the file is not validated.
+ */
+export async function inspectUfp(file: string | Buffer | Readable, source: UploadSource, validate?: boolean | UfpValidationOptions): Promise<UfpMetadata | null> {
+    if (validate === false) {
+        return null;
+    }
+    if (source.contentType !== UFP_CONTENT_TYPE || file instanceof Readable) {
+        if (validate) {
+            throw new Error(`${source.fileName} cannot be validated, only UFP files and buffers can`);
+        }
+        return null;
+    }
+    const metadata = await readUfpMetadata(file);
+    if (typeof validate === 'object') {
+        validateUfpMetadata(metadata, validate);
+    }
+    return metadata;
+}
+
+/**
+ * Streams the source to the signed upload URL, reporting the progress. The contents are hashed while they are sent:
+ * the MD5 digest is sent along when it is known up front, and is otherwise compared with the ETag of the storage,
+ * which is the MD5 digest for a single upload. Resolves with the SHA-256 checksum of the bytes that were sent, and
+ * rejects with an UploadError when the upload failed.
+ */
+export async function uploadToSignedUrl(
+    fetch: Fetch,
+    uploadUrl: string,
+    source: UploadSource,
+    onProgress?: (bytesSent: number, totalBytes: number) => void,
+): Promise<string> {
+    const sha256 = createHash('sha256');
+    const md5 = createHash('md5');
+    let bytesSent = 0;
+    const counter = new Transform({
+        transform(chunk: Buffer, encoding, callback) {
+            sha256.update(chunk);
+            md5.update(chunk);
+            bytesSent += chunk.byteLength;
+            onProgress && onProgress(bytesSent, source.size); // eslint-disable-line no-unused-expressions
+            callback(null, chunk);
+        },
+    });
+    const body = pipeline(source.open(), counter, () => {
+        // errors of the source are reported by the fetch below as the body stream fails
+    });
+
+    let response;
+    try {
+        response = await fetch(uploadUrl, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': source.contentType,
+                'Content-Length': `${source.size}`,
+                ...(source.contentMD5 && { 'Content-MD5': source.contentMD5 }),
+            },
+            body,
+        });
+    } catch (ex) {
+        throw new UploadError(`Uploading ${source.fileName} failed: ${ex.message}`, null, true);
+    }
+    if (!response.ok) {
+        await response.text();
+        const retryable = RETRYABLE_UPLOAD_STATUSES.includes(response.status) || response.status >= 500 || response.status === 403;
+        throw new UploadError(`Uploading ${source.fileName} failed with status ${response.status}`, response.status, retryable);
+    }
+    if (bytesSent !== source.size) {
+        throw new UploadError(`Uploaded ${bytesSent} bytes of ${source.fileName}, but expected ${source.size}`, response.status, false);
+    }
+    if (source.hasChanged && await source.hasChanged()) {
+        throw new UploadError(`${source.fileName} changed while it was being uploaded`, response.status, false);
+    }
+    const md5Hex = md5.digest('hex');
+    const etag = (response.headers.get('ETag') || '').replace(/^W\//, '').replace(/"/g, '');
+    if (/^[0-9a-f]{32}$/i.test(etag) && etag.toLowerCase() !== md5Hex) {
+        throw new UploadError(`The storage received different contents for ${source.fileName} than were sent`, response.status, true);
+    }
+    return sha256.digest('hex');
+}
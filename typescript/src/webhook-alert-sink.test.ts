@@ -0,0 +1,67 @@
+import {
+    createServer, IncomingMessage, Server, ServerResponse,
+} from 'http';
+import { AddressInfo } from 'net';
+import type { AlertNotification } from './alert';
+import { WebhookAlertSink } from './webhook-alert-sink';
+
+const NOTIFICATION: AlertNotification = {
+    state: 'firing',
+    dateTime: '2021-11-01T12:00:00.000Z',
+    alert: {
+        key: 'cluster_offline:mock-cluster-2',
+        rule: 'cluster_offline',
+        severity: 'critical',
+        message: 'Cluster mock-cluster-2 is offline',
+        clusterId: 'mock-cluster-2',
+        since: '2021-11-01T11:55:00.000Z',
+    },
+};
+
+describe('WebhookAlertSink', () => {
+    let server: Server;
+    let url: string;
+    let handle: (request: IncomingMessage, body: string, response: ServerResponse) => void;
+    let unanswered: ServerResponse[];
+
+    beforeEach(async () => {
+        unanswered = [];
+        server = createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => { body += chunk; });
+            request.on('end', () => handle(request, body, response));
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+    });
+
+    afterEach(async () => {
+        unanswered.forEach((response) => response.end());
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('posts the notification as JSON with the configured headers', async () => {
+        const received: { headers: IncomingMessage['headers'], body: string }[] = [];
+        handle = (request, body, response) => {
+            received.push({ headers: request.headers, body });
+            response.end();
+        };
+        await new WebhookAlertSink(url, { Authorization: 'Bearer secret' }).send(NOTIFICATION);
+        expect(received).toHaveLength(1);
+        expect(received[0].headers.authorization).toBe('Bearer secret');
+        expect(JSON.parse(received[0].body)).toEqual(NOTIFICATION);
+    });
+
+    it('rejects when the webhook responds with an error', async () => {
+        handle = (request, body, response) => {
+            response.writeHead(500);
+            response.end();
+        };
+        await expect(new WebhookAlertSink(url).send(NOTIFICATION)).rejects.toThrow('The webhook responded with status 500');
+    });
+
+    it('rejects when the webhook does not respond in time', async () => {
+        handle = (request, body, response) => unanswered.push(response);
+        await expect(new WebhookAlertSink(url, {}, 100).send(NOTIFICATION)).rejects.toThrow('The webhook did not respond within 100ms');
+    });
+});
@@ -0,0 +1,47 @@
+import nodeFetch from 'node-fetch';
+import { AlertNotification, AlertSink, DEFAULT_SINK_TIMEOUT_MS } from './alert';
+import type { Fetch } from './client-options';
+
+/**
+ * Posts the notifications as JSON to a generic webhook.
+ */
+export class WebhookAlertSink implements AlertSink {
+    readonly name: string;
+
+    private readonly _url: string;
+
+    private readonly _headers: {[key: string]: string};
+
+    private readonly _timeoutMS: number;
+
+    private readonly _fetch: Fetch;
+
+    constructor(url: string, headers: {[key: string]: string} = {}, timeoutMS = DEFAULT_SINK_TIMEOUT_MS, fetch: Fetch = nodeFetch) {
+        this.name = `webhook ${new URL(url).host}`;
+        this._url = url;
+        this._headers = headers;
+        this._timeoutMS = timeoutMS;
+        this._fetch = fetch;
+    }
+
+    async send(notification: AlertNotification): Promise<void> {
+        const abort = new AbortController();
+        const timeout = setTimeout(() => abort.abort(), this._timeoutMS);
+        try {
+            const response = await this._fetch(this._url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...this._headers },
+                body: JSON.stringify(notification),
+                signal: abort.signal,
+            });
+            await response.text();
+            if (!response.ok) {
+                throw new Error(`The webhook responded with status ${response.status}`);
+            }
+        } catch (ex) {
+            throw abort.signal.aborted ? new Error(`The webhook did not respond within ${this._timeoutMS}ms`) : ex;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}